@@ -8,16 +8,6 @@ export class CeloApi implements ICredentialType {
 	displayName = 'Celo API';
 	documentationUrl = 'https://docs.celo.org/developer/forno';
 	properties: INodeProperties[] = [
-		{
-			displayName: 'API Key',
-			name: 'apiKey',
-			type: 'string',
-			typeOptions: {
-				password: true,
-			},
-			default: '',
-			description: 'API key for Celo Forno service',
-		},
 		{
 			displayName: 'Network',
 			name: 'network',
@@ -35,16 +25,152 @@ export class CeloApi implements ICredentialType {
 					name: 'Baklava Testnet',
 					value: 'baklava',
 				},
+				{
+					name: 'Custom',
+					value: 'custom',
+				},
 			],
 			default: 'mainnet',
 			description: 'The Celo network to connect to',
 		},
 		{
-			displayName: 'Base URL',
-			name: 'baseUrl',
+			displayName: 'RPC URLs',
+			name: 'rpcEndpoint',
+			type: 'string',
+			typeOptions: {
+				rows: 3,
+			},
+			default: '',
+			placeholder: 'e.g. https://forno.celo.org',
+			description: 'JSON-RPC endpoints in order of preference, one per line or comma-separated. Requests fail over to the next endpoint on network errors, HTTP 429 and 5xx responses. Leave empty to use the public Forno endpoint of the selected network. Required for a custom network.',
+		},
+		{
+			displayName: 'Max Block Lag',
+			name: 'maxBlockLag',
+			type: 'number',
+			typeOptions: {
+				minValue: 0,
+			},
+			default: 10,
+			description: 'With several RPC URLs, endpoints more than this many blocks behind the others are skipped. 0 disables the check.',
+		},
+		{
+			displayName: 'Auth Header Name',
+			name: 'authHeaderName',
+			type: 'string',
+			default: '',
+			placeholder: 'e.g. Authorization',
+			description: 'Header sent with every RPC request, for providers that require an API key',
+		},
+		{
+			displayName: 'Auth Header Value',
+			name: 'authHeaderValue',
 			type: 'string',
-			default: 'https://forno.celo.org',
-			description: 'Base URL for the Celo API endpoint',
+			typeOptions: {
+				password: true,
+			},
+			default: '',
+			placeholder: 'e.g. Bearer abc123',
+			description: 'Value of the auth header',
+		},
+		{
+			displayName: 'Signing Key',
+			name: 'signingKeyType',
+			type: 'options',
+			options: [
+				{
+					name: 'None (Read Only)',
+					value: 'none',
+				},
+				{
+					name: 'Private Key',
+					value: 'privateKey',
+				},
+				{
+					name: 'Mnemonic',
+					value: 'mnemonic',
+				},
+			],
+			default: 'none',
+			description: 'Key used to sign transactions locally. It never leaves n8n.',
+		},
+		{
+			displayName: 'Private Key',
+			name: 'privateKey',
+			type: 'string',
+			typeOptions: {
+				password: true,
+			},
+			displayOptions: {
+				show: {
+					signingKeyType: ['privateKey'],
+				},
+			},
+			default: '',
+			placeholder: 'e.g. 0x4c0883a69102937d6231471b5dbb6204fe512961708279f2e3e8a5d4b8e3e0b1',
+			description: 'Hex-encoded private key of the signing account',
+		},
+		{
+			displayName: 'Mnemonic',
+			name: 'mnemonic',
+			type: 'string',
+			typeOptions: {
+				password: true,
+			},
+			displayOptions: {
+				show: {
+					signingKeyType: ['mnemonic'],
+				},
+			},
+			default: '',
+			description: 'BIP-39 recovery phrase of the signing wallet, in lowercase English words',
+		},
+		{
+			displayName: 'Mnemonic Passphrase',
+			name: 'mnemonicPassphrase',
+			type: 'string',
+			typeOptions: {
+				password: true,
+			},
+			displayOptions: {
+				show: {
+					signingKeyType: ['mnemonic'],
+				},
+			},
+			default: '',
+			description: 'Optional BIP-39 passphrase (sometimes called the 25th word)',
+		},
+		{
+			displayName: 'Derivation Path',
+			name: 'derivationPath',
+			type: 'options',
+			options: [
+				{
+					name: "Celo (m/44'/52752'/0'/0/index)",
+					value: 'celo',
+				},
+				{
+					name: "Ethereum (m/44'/60'/0'/0/index)",
+					value: 'ethereum',
+				},
+			],
+			displayOptions: {
+				show: {
+					signingKeyType: ['mnemonic'],
+				},
+			},
+			default: 'celo',
+			description: 'Valora and the Celo CLI use the Celo path; MetaMask uses the Ethereum path. The node\'s Account Index selects the address.',
+		},
+		{
+			displayName: 'Explorer API Key',
+			name: 'celoscanApiKey',
+			type: 'string',
+			typeOptions: {
+				password: true,
+			},
+			default: '',
+			description: 'Celoscan API key used for transaction history and verified contract ABIs',
 		},
 	];
-}
\ No newline at end of file
+}
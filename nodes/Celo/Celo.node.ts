@@ -12,16 +12,123 @@
  */
 
 import {
+  IDataObject,
   IExecuteFunctions,
+  ILoadOptionsFunctions,
   INodeExecutionData,
+  INodePropertyOptions,
+  IPairedItemData,
   INodeType,
   INodeTypeDescription,
   NodeOperationError,
   NodeApiError,
+  ResourceMapperFields,
 } from 'n8n-workflow';
 
-import { Web3 } from 'web3';
-import { createHash, randomBytes } from 'crypto';
+import { createHash } from 'crypto';
+
+import {
+  DEFAULT_MAX_CONCURRENT_REQUESTS,
+  DEFAULT_RPC_BATCH_SIZE,
+  estimateGas,
+  formatUnits,
+  getBlock,
+  getBlockNumber,
+  getCredentialChainId,
+  getGasPrice,
+  getLogs,
+  getSigningKey,
+  getVerifiedContractAbi,
+  isValidErc1271Signature,
+  makeRpcBatch,
+  makeRpcCall,
+  parseUnits,
+  readContract,
+  readContracts,
+  readRegistry,
+  resolveContractAddress,
+  setRequestLimits,
+  signAndSendTransaction,
+  takeRpcCallLog,
+  takeSentTransactions,
+  testCeloCredentials,
+  waitForTransactionReceipt,
+  waitForTransactionsMined,
+} from './transport/celoClient';
+import {
+  decodeAbiParameters,
+  decodeFunctionResult,
+  encodeFunctionCallData,
+  getCanonicalType,
+  getFunctionSignature,
+  hexToBytes,
+  isReadOnlyFunction,
+  parseAbiFunctions,
+} from './utils/abi';
+import { ABI_FRAGMENTS, CELO_NETWORKS, FIXIDITY_DECIMALS, STABLECOINS, ZERO_ADDRESS } from './constants/celo.constants';
+import { checksumAddressFields, getAddress, toChecksumAddress } from './utils/address';
+import {
+  applySlippage,
+  calculateEpochFromBlock,
+  decodeAddress,
+  decodeQuantities,
+  findLesserAndGreaterGroups,
+  fromHex,
+  getEpochBoundaries,
+  getEventTopic,
+  getObfuscatedIdentifier,
+  getProposalStage,
+  isHex,
+  toHex,
+} from './utils/helpers';
+import { deriveAccount } from './utils/hdWallet';
+import type { DerivedAccount } from './utils/hdWallet';
+import { privateKeyToAddress } from './utils/secp256k1';
+import {
+  hashMessage,
+  hashTypedData,
+  recoverAddress,
+  recoverMessageAddress,
+  signMessage,
+  signTypedData,
+} from './utils/signing';
+import {
+  buildSiweMessage,
+  generateSiweNonce,
+  parseSiweMessage,
+  validateSiweMessage,
+} from './utils/siwe';
+import type {
+  AbiFunctionFragment,
+  AbiParameter,
+  AllBalancesResponse,
+  BalanceResponse,
+  CeloCredentials,
+  CeloNetwork,
+  ContractReadResult,
+  ExchangeRate,
+  FederatedAttestation,
+  HexVariants,
+  IdentifierType,
+  LockedBalance,
+  ProposalInfo,
+  RpcBatchCall,
+  RpcBatchResult,
+  RpcCallRecord,
+  SiweMessage,
+  StablecoinSymbol,
+  StakingReward,
+  TokenInfo,
+  TransactionData,
+  TransactionReceipt,
+  TransactionRequest,
+  TypedData,
+  ValidatorGroupInfo,
+  ValidatorInfo,
+  VoteInfo,
+  VoteRecord,
+  VoteValue,
+} from './utils/types';
 
 export class Celo implements INodeType {
   description: INodeTypeDescription = {
@@ -41,6 +148,7 @@ export class Celo implements INodeType {
       {
         name: 'celoApi',
         required: true,
+        testedBy: 'celoApiTest',
       },
     ],
     properties: [
@@ -94,7 +202,15 @@ export class Celo implements INodeType {
           {
             name: 'Exchange',
             value: 'exchange',
-          }
+          },
+          {
+            name: 'Signing',
+            value: 'signing',
+          },
+          {
+            name: 'Registry',
+            value: 'registry',
+          },
         ],
         default: 'account',
       },
@@ -140,6 +256,12 @@ export class Celo implements INodeType {
 			description: 'Execute contract call without creating transaction',
 			action: 'Call contract',
 		},
+		{
+			name: 'Call Contract Function',
+			value: 'callContractFunction',
+			description: 'Call a function from a contract ABI with typed arguments',
+			action: 'Call contract function',
+		},
 	],
 	default: 'getBalance',
 },
@@ -210,7 +332,8 @@ export class Celo implements INodeType {
     { name: 'Get Block by Hash', value: 'getBlockByHash', description: 'Get block by hash', action: 'Get block by hash' },
     { name: 'Get Latest Block Number', value: 'getLatestBlock', description: 'Get latest block number', action: 'Get latest block number' },
     { name: 'Get Block Transaction Count', value: 'getBlockTransactionCount', description: 'Get transaction count in block', action: 'Get block transaction count' },
-    { name: 'Get Uncle Block Information', value: 'getUncle', description: 'Get uncle block information', action: 'Get uncle block information' }
+    { name: 'Get Uncle Block Information', value: 'getUncle', description: 'Get uncle block information', action: 'Get uncle block information' },
+    { name: 'Get Block Range', value: 'getBlockRange', description: 'Get consecutive blocks as separate items', action: 'Get a range of blocks' }
   ],
   default: 'getBlockByNumber',
 },
@@ -221,7 +344,7 @@ export class Celo implements INodeType {
   noDataExpression: true,
   displayOptions: { show: { resource: ['validator'] } },
   options: [
-    { name: 'Get Validators', value: 'getValidators', description: 'Get list of active validators', action: 'Get validators' },
+    { name: 'Get Validators', value: 'getValidators', description: 'Get registered validators with their score and affiliation', action: 'Get validators' },
     { name: 'Get Validator Group', value: 'getValidatorGroup', description: 'Get validator group information', action: 'Get validator group' },
     { name: 'Get Votes For Validator Group', value: 'getVotesForValidatorGroup', description: 'Get votes for validator group', action: 'Get votes for validator group' },
     { name: 'Is Validator', value: 'isValidator', description: 'Check if address is a validator', action: 'Check if validator' },
@@ -283,8 +406,8 @@ export class Celo implements INodeType {
   options: [
     { name: 'Get StableCoin Balance', value: 'getStableCoinBalance', description: 'Get stablecoin balance', action: 'Get stablecoin balance' },
     { name: 'Get Exchange Rate', value: 'getExchangeRate', description: 'Get exchange rate between CELO and stablecoins', action: 'Get exchange rate' },
-    { name: 'Mint StableCoin', value: 'mintStableCoin', description: 'Mint stablecoins through Mento', action: 'Mint stablecoin' },
-    { name: 'Burn StableCoin', value: 'burnStableCoin', description: 'Burn stablecoins', action: 'Burn stablecoin' },
+    { name: 'Mint StableCoin', value: 'mintStableCoin', description: 'Buy stablecoins with CELO through Mento', action: 'Mint stablecoin' },
+    { name: 'Burn StableCoin', value: 'burnStableCoin', description: 'Sell stablecoins for CELO through Mento', action: 'Burn stablecoin' },
     { name: 'Get StableCoin Supply', value: 'getStableCoinSupply', description: 'Get total supply of stablecoin', action: 'Get stablecoin supply' },
     { name: 'Transfer StableCoin', value: 'transferStableCoin', description: 'Transfer stablecoins', action: 'Transfer stablecoin' }
   ],
@@ -297,43 +420,44 @@ export class Celo implements INodeType {
   noDataExpression: true,
   displayOptions: { show: { resource: ['identity'] } },
   options: [
-    { name: 'Get Attestations', value: 'getAttestations', description: 'Get attestation status for identifier', action: 'Get attestations' },
-    { name: 'Get Identifier Status', value: 'getIdentifierStatus', description: 'Check verification status of phone/email', action: 'Get identifier status' },
-    { name: 'Request Attestation', value: 'requestAttestation', description: 'Request identity attestation', action: 'Request attestation' },
-    { name: 'Complete Attestation', value: 'completeAttestation', description: 'Complete attestation process', action: 'Complete attestation' },
-    { name: 'Get Attestation Issuers', value: 'getAttestationIssuers', description: 'Get list of attestation issuers', action: 'Get attestation issuers' },
     {
-      name: 'Request Attestations',
-      value: 'requestAttestations',
-      description: 'Request phone number attestations',
-      action: 'Request phone number attestations',
+      name: 'Lookup Attestations',
+      value: 'lookupAttestations',
+      description: 'Find the accounts trusted issuers have attested to an identifier',
+      action: 'Lookup attestations',
+    },
+    {
+      name: 'Lookup Identifiers',
+      value: 'lookupIdentifiers',
+      description: 'Find the identifiers trusted issuers have attested to an account',
+      action: 'Lookup identifiers',
     },
     {
-      name: 'Select Issuers',
-      value: 'selectIssuers',
-      description: 'Select attestation issuers',
-      action: 'Select attestation issuers',
+      name: 'Register Attestation',
+      value: 'registerAttestationAsIssuer',
+      description: 'Attest, as the signing issuer, that an identifier belongs to an account',
+      action: 'Register attestation as issuer',
     },
     {
-      name: 'Complete Attestations',
-      value: 'completeAttestations',
-      description: 'Complete attestation process',
-      action: 'Complete attestation process',
+      name: 'Revoke Attestation',
+      value: 'revokeAttestation',
+      description: 'Revoke an attestation between an identifier and an account',
+      action: 'Revoke attestation',
     },
     {
       name: 'Get Account Metadata',
       value: 'getAccountMetadata',
-      description: 'Get account metadata claims',
-      action: 'Get account metadata claims',
+      description: 'Get the metadata URL of an account',
+      action: 'Get account metadata URL',
     },
     {
       name: 'Set Account Metadata',
       value: 'setAccountMetadata',
-      description: 'Set account metadata',
-      action: 'Set account metadata',
+      description: 'Set the metadata URL of the signing account',
+      action: 'Set account metadata URL',
     },
   ],
-  default: 'getAttestations',
+  default: 'lookupAttestations',
 },
 {
   displayName: 'Operation',
@@ -373,7 +497,7 @@ export class Celo implements INodeType {
     {
       name: 'Create Account',
       value: 'createAccount',
-      description: 'Generate new account keypair',
+      description: 'Derive the next unused account, or register the signer with the Accounts contract',
       action: 'Create new account',
     },
   ],
@@ -393,8 +517,8 @@ export class Celo implements INodeType {
     {
       name: 'Transfer',
       value: 'transfer',
-      description: 'Transfer stablecoins between accounts',
-      action: 'Transfer stablecoins',
+      description: 'Transfer tokens to another account',
+      action: 'Transfer tokens',
     },
     {
       name: 'Approve',
@@ -488,6 +612,12 @@ export class Celo implements INodeType {
       description: 'Unlock CELO',
       action: 'Unlock CELO',
     },
+    {
+      name: 'Withdraw',
+      value: 'withdraw',
+      description: 'Withdraw unlocked CELO whose unlocking period has passed',
+      action: 'Withdraw unlocked CELO',
+    },
   ],
   default: 'vote',
 },
@@ -505,7 +635,7 @@ export class Celo implements INodeType {
     {
       name: 'Exchange',
       value: 'exchange',
-      description: 'Exchange CELO for stablecoins or vice versa',
+      description: 'Swap CELO and stablecoins through Mento with slippage protection',
       action: 'Exchange tokens',
     },
     {
@@ -529,7 +659,7 @@ export class Celo implements INodeType {
     {
       name: 'Get Reserves',
       value: 'getReserves',
-      description: 'Get reserve balances',
+      description: 'Get the bucket sizes of the Mento pool for a token pair',
       action: 'Get reserves',
     },
     {
@@ -540,6 +670,26 @@ export class Celo implements INodeType {
     },
   ],
   default: 'exchange',
+},
+{
+  displayName: 'Operation',
+  name: 'operation',
+  type: 'options',
+  noDataExpression: true,
+  displayOptions: {
+    show: {
+      resource: ['registry'],
+    },
+  },
+  options: [
+    {
+      name: 'List Contracts',
+      value: 'listContracts',
+      description: 'List the core contract addresses held by the Registry',
+      action: 'List registry contracts',
+    },
+  ],
+  default: 'listContracts',
 },
       // Parameter definitions
 {
@@ -563,7 +713,7 @@ export class Celo implements INodeType {
 	displayOptions: {
 		show: {
 			resource: ['account'],
-			operation: ['getBalance', 'getTransactionCount', 'getCode', 'callContract'],
+			operation: ['getBalance', 'getTransactionCount', 'getCode', 'callContract', 'callContractFunction'],
 		},
 	},
 	options: [
@@ -594,12 +744,12 @@ export class Celo implements INodeType {
 	displayOptions: {
 		show: {
 			resource: ['account'],
-			operation: ['getBalance', 'getTransactionCount', 'getCode', 'callContract'],
+			operation: ['getBalance', 'getTransactionCount', 'getCode', 'callContract', 'callContractFunction'],
 			blockNumber: ['custom'],
 		},
 	},
 	default: '',
-	description: 'Custom block number (hex format, e.g., 0x1b4)',
+	description: 'Block number in decimal or hex, e.g. 436 or 0x1b4',
 },
 {
 	displayName: 'Transaction',
@@ -615,6 +765,122 @@ export class Celo implements INodeType {
 	default: '{}',
 	description: 'Transaction object with to, data, from, gas, gasPrice, value fields',
 },
+{
+	displayName: 'Contract Address',
+	name: 'contractAddress',
+	type: 'string',
+	required: true,
+	displayOptions: {
+		show: {
+			resource: ['account'],
+			operation: ['callContractFunction'],
+		},
+	},
+	default: '',
+	placeholder: '0x...',
+	description: 'Address of the contract to call',
+},
+{
+	displayName: 'ABI Source',
+	name: 'abiSource',
+	type: 'options',
+	displayOptions: {
+		show: {
+			resource: ['account'],
+			operation: ['callContractFunction'],
+		},
+	},
+	options: [
+		{
+			name: 'Paste ABI JSON',
+			value: 'json',
+		},
+		{
+			name: 'Verified Contract on Explorer',
+			value: 'explorer',
+		},
+	],
+	default: 'json',
+	description: 'Where to get the contract ABI from',
+},
+{
+	displayName: 'Contract ABI',
+	name: 'contractAbi',
+	type: 'json',
+	required: true,
+	displayOptions: {
+		show: {
+			resource: ['account'],
+			operation: ['callContractFunction'],
+			abiSource: ['json'],
+		},
+	},
+	default: '[]',
+	description: 'JSON ABI of the contract, as produced by the Solidity compiler',
+},
+{
+	displayName: 'Function Name or ID',
+	name: 'contractFunction',
+	type: 'options',
+	required: true,
+	typeOptions: {
+		loadOptionsMethod: 'getContractFunctions',
+		loadOptionsDependsOn: ['contractAddress', 'abiSource', 'contractAbi'],
+	},
+	displayOptions: {
+		show: {
+			resource: ['account'],
+			operation: ['callContractFunction'],
+		},
+	},
+	default: '',
+	description: 'Function to call. Choose from the list, or specify the signature using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+},
+{
+	displayName: 'Function Arguments',
+	name: 'functionArguments',
+	type: 'resourceMapper',
+	noDataExpression: true,
+	typeOptions: {
+		loadOptionsDependsOn: ['contractFunction'],
+		resourceMapper: {
+			resourceMapperMethod: 'getContractFunctionInputs',
+			mode: 'add',
+			valuesLabel: 'Arguments',
+			fieldWords: {
+				singular: 'argument',
+				plural: 'arguments',
+			},
+			addAllFields: true,
+			multiKeyMatch: false,
+			noFieldsError: 'This function takes no arguments',
+		},
+	},
+	displayOptions: {
+		show: {
+			resource: ['account'],
+			operation: ['callContractFunction'],
+		},
+	},
+	default: {
+		mappingMode: 'defineBelow',
+		value: null,
+	},
+	description: 'Arguments for the selected function. Arrays and tuples are entered as JSON.',
+},
+{
+	displayName: 'Value (CELO)',
+	name: 'callValue',
+	type: 'string',
+	displayOptions: {
+		show: {
+			resource: ['account'],
+			operation: ['callContractFunction'],
+		},
+	},
+	default: '0',
+	description: 'Amount of CELO to send with a payable function',
+},
 {
 	displayName: 'Transaction Object',
 	name: 'transaction',
@@ -626,7 +892,7 @@ export class Celo implements INodeType {
 		},
 	},
 	default: '{}',
-	description: 'Transaction object with to, value, data, gas, gasPrice fields',
+	description: 'Transaction object with to, value, data and optional gas, gasPrice, maxFeePerGas, maxPriorityFeePerGas, nonce and feeCurrency fields. It is signed locally with the credential private key; a feeCurrency sends it as a CIP-64 transaction.',
 	required: true,
 },
 {
@@ -697,7 +963,38 @@ export class Celo implements INodeType {
     }
   },
   default: 'latest',
-  description: 'The block number in hex format or "latest", "earliest", "pending"'
+  description: 'The block number in decimal or hex format or "latest", "earliest", "pending"'
+},
+{
+  displayName: 'From Block',
+  name: 'fromBlock',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['block'],
+      operation: ['getBlockRange']
+    }
+  },
+  default: 'latest',
+  description: 'First block of the range in decimal or hex format. With "latest", the range ends at the latest block instead.'
+},
+{
+  displayName: 'Block Count',
+  name: 'blockCount',
+  type: 'number',
+  typeOptions: {
+    minValue: 1,
+    maxValue: 1000
+  },
+  displayOptions: {
+    show: {
+      resource: ['block'],
+      operation: ['getBlockRange']
+    }
+  },
+  default: 10,
+  description: 'Number of blocks to return, one item per block'
 },
 {
   displayName: 'Full Transactions',
@@ -706,7 +1003,7 @@ export class Celo implements INodeType {
   displayOptions: {
     show: {
       resource: ['block'],
-      operation: ['getBlockByNumber']
+      operation: ['getBlockByNumber', 'getBlockRange']
     }
   },
   default: false,
@@ -782,18 +1079,17 @@ export class Celo implements INodeType {
   description: 'The uncle index position in hex format'
 },
 {
-  displayName: 'Contract Call Data',
-  name: 'contractCall',
-  type: 'string',
-  required: true,
-  displayOptions: { 
-    show: { 
-      resource: ['validator'], 
-      operation: ['getValidators', 'getValidatorGroup', 'getVotesForValidatorGroup', 'isValidator', 'getValidatorRewards'] 
-    } 
+  displayName: 'Decode Timestamp',
+  name: 'decodeTimestamp',
+  type: 'boolean',
+  displayOptions: {
+    show: {
+      resource: ['block'],
+      operation: ['getBlockByNumber', 'getBlockByHash', 'getBlockRange']
+    }
   },
-  default: '',
-  description: 'Encoded contract call data',
+  default: false,
+  description: 'Whether to add the block timestamp in seconds and as an ISO date'
 },
 {
   displayName: 'Block Number',
@@ -802,34 +1098,21 @@ export class Celo implements INodeType {
   displayOptions: { 
     show: { 
       resource: ['validator'], 
-      operation: ['getValidators', 'getValidatorGroup', 'getVotesForValidatorGroup', 'isValidator', 'getValidatorRewards'] 
+      operation: ['getValidators', 'getValidatorGroup', 'getVotesForValidatorGroup', 'isValidator'] 
     } 
   },
   default: 'latest',
   description: 'Block number to query (latest, earliest, pending, or hex number)',
 },
-{
-  displayName: 'To Address',
-  name: 'toAddress',
-  type: 'string',
-  required: true,
-  displayOptions: { 
-    show: { 
-      resource: ['validator'], 
-      operation: ['getValidators', 'getValidatorGroup', 'getVotesForValidatorGroup', 'isValidator', 'getValidatorRewards'] 
-    } 
-  },
-  default: '',
-  description: 'Contract address to call',
-},
 {
   displayName: 'Validator Address',
   name: 'validatorAddress',
   type: 'string',
+  required: true,
   displayOptions: { 
     show: { 
       resource: ['validator'], 
-      operation: ['getValidatorGroup', 'isValidator'] 
+      operation: ['isValidator', 'getValidatorRewards'] 
     } 
   },
   default: '',
@@ -839,28 +1122,32 @@ export class Celo implements INodeType {
   displayName: 'Group Address',
   name: 'groupAddress',
   type: 'string',
+  required: true,
   displayOptions: { 
     show: { 
       resource: ['validator'], 
-      operation: ['getVotesForValidatorGroup'] 
+      operation: ['getValidatorGroup', 'getVotesForValidatorGroup'] 
     } 
   },
   default: '',
-  description: 'Address of the validator group to query votes for',
+  description: 'Address of the validator group, or of a validator to use the group it is affiliated with',
 },
 {
-  displayName: 'Contract Call',
-  name: 'contractCall',
-  type: 'json',
-  required: true,
-  default: '{}',
-  displayOptions: {
-    show: {
-      resource: ['governance'],
-      operation: ['getProposals', 'getProposal', 'getVotes', 'isVoting'],
-    },
+  displayName: 'Epochs',
+  name: 'epochCount',
+  type: 'number',
+  typeOptions: {
+    minValue: 1,
+    maxValue: 90,
+  },
+  displayOptions: { 
+    show: { 
+      resource: ['validator'], 
+      operation: ['getValidatorRewards'] 
+    } 
   },
-  description: 'Contract call parameters including to, data, and from addresses',
+  default: 7,
+  description: 'Number of most recent epochs to collect rewards for',
 },
 {
   displayName: 'Block Number',
@@ -870,177 +1157,75 @@ export class Celo implements INodeType {
   displayOptions: {
     show: {
       resource: ['governance'],
-      operation: ['getProposals', 'getProposal', 'getVotes', 'isVoting'],
+      operation: ['getProposals', 'getProposal', 'getVotes', 'isVoting', 'getVoteRecord', 'getQueue'],
     },
   },
   description: 'Block number or "latest" for the most recent block',
 },
 {
-  displayName: 'Transaction',
-  name: 'transaction',
-  type: 'json',
-  required: true,
-  default: '{}',
-  displayOptions: {
-    show: {
-      resource: ['governance'],
-      operation: ['vote'],
-    },
-  },
-  description: 'Transaction parameters including to, data, from, gas, and gasPrice',
-},
-{
-  displayName: 'Network',
-  name: 'network',
+  displayName: 'Stablecoin',
+  name: 'stablecoin',
   type: 'options',
+  displayOptions: { show: { resource: ['stableCoin'] } },
   options: [
-    { name: 'Mainnet', value: 'mainnet' },
-    { name: 'Alfajores Testnet', value: 'alfajores' },
+    { name: 'cUSD', value: 'cUSD' },
+    { name: 'cEUR', value: 'cEUR' },
+    { name: 'cREAL', value: 'cREAL' },
   ],
-  default: 'mainnet',
-  displayOptions: {
-    show: {
-      resource: ['governance'],
-    },
-  },
-  description: 'Celo network to use',
-},
-{
-  displayName: 'Contract Call',
-  name: 'contractCall',
-  type: 'json',
-  required: true,
-  displayOptions: { show: { resource: ['stableCoin'], operation: ['getStableCoinBalance'] } },
-  default: '{"to":"","data":""}',
-  description: 'Contract call parameters for balance query'
+  default: 'cUSD',
+  description: 'The Mento stablecoin to use',
 },
 {
-  displayName: 'Block Number',
-  name: 'blockNumber',
+  displayName: 'Address',
+  name: 'address',
   type: 'string',
-  required: false,
-  displayOptions: { show: { resource: ['stableCoin'], operation: ['getStableCoinBalance'] } },
-  default: 'latest',
-  description: 'Block number to query (latest, pending, or hex number)'
-},
-{
-  displayName: 'Contract Call',
-  name: 'contractCall',
-  type: 'json',
   required: true,
-  displayOptions: { show: { resource: ['stableCoin'], operation: ['getExchangeRate'] } },
-  default: '{"to":"","data":""}',
-  description: 'Contract call parameters for exchange rate query'
+  displayOptions: { show: { resource: ['stableCoin'], operation: ['getStableCoinBalance'] } },
+  default: '',
+  description: 'The address to get the balance of',
+  placeholder: '0x...',
 },
 {
   displayName: 'Block Number',
   name: 'blockNumber',
   type: 'string',
-  required: false,
-  displayOptions: { show: { resource: ['stableCoin'], operation: ['getExchangeRate'] } },
+  displayOptions: {
+    show: { resource: ['stableCoin'], operation: ['getStableCoinBalance', 'getStableCoinSupply', 'getExchangeRate'] },
+  },
   default: 'latest',
-  description: 'Block number to query (latest, pending, or hex number)'
-},
-{
-  displayName: 'Transaction',
-  name: 'transaction',
-  type: 'json',
-  required: true,
-  displayOptions: { show: { resource: ['stableCoin'], operation: ['mintStableCoin'] } },
-  default: '{"from":"","to":"","data":"","gas":"","gasPrice":""}',
-  description: 'Transaction parameters for minting stablecoins'
-},
-{
-  displayName: 'Transaction',
-  name: 'transaction',
-  type: 'json',
-  required: true,
-  displayOptions: { show: { resource: ['stableCoin'], operation: ['burnStableCoin'] } },
-  default: '{"from":"","to":"","data":"","gas":"","gasPrice":""}',
-  description: 'Transaction parameters for burning stablecoins'
-},
-{
-  displayName: 'Contract Call',
-  name: 'contractCall',
-  type: 'json',
-  required: true,
-  displayOptions: { show: { resource: ['stableCoin'], operation: ['getStableCoinSupply'] } },
-  default: '{"to":"","data":""}',
-  description: 'Contract call parameters for supply query'
+  description: 'Block number or "latest" for the most recent block',
 },
 {
-  displayName: 'Block Number',
-  name: 'blockNumber',
+  displayName: 'To Address',
+  name: 'to',
   type: 'string',
-  required: false,
-  displayOptions: { show: { resource: ['stableCoin'], operation: ['getStableCoinSupply'] } },
-  default: 'latest',
-  description: 'Block number to query (latest, pending, or hex number)'
-},
-{
-  displayName: 'Transaction',
-  name: 'transaction',
-  type: 'json',
   required: true,
   displayOptions: { show: { resource: ['stableCoin'], operation: ['transferStableCoin'] } },
-  default: '{"from":"","to":"","data":"","gas":"","gasPrice":""}',
-  description: 'Transaction parameters for transferring stablecoins'
-},
-{
-  displayName: 'Contract Call',
-  name: 'contractCall',
-  type: 'json',
-  required: true,
-  displayOptions: { show: { resource: ['identity'], operation: ['getAttestations', 'getIdentifierStatus', 'getAttestationIssuers'] } },
-  default: '{}',
-  description: 'The contract call parameters for the JSON-RPC request',
-  placeholder: '{"to": "0x...", "data": "0x..."}',
+  default: '',
+  description: 'The recipient address',
+  placeholder: '0x...',
 },
 {
-  displayName: 'Block Number',
-  name: 'blockNumber',
+  displayName: 'Amount',
+  name: 'amount',
   type: 'string',
-  displayOptions: { show: { resource: ['identity'], operation: ['getAttestations', 'getIdentifierStatus', 'getAttestationIssuers'] } },
-  default: 'latest',
-  description: 'Block number to query. Use "latest" for most recent block.',
-},
-{
-  displayName: 'Transaction',
-  name: 'transaction',
-  type: 'json',
   required: true,
-  displayOptions: { show: { resource: ['identity'], operation: ['requestAttestation', 'completeAttestation'] } },
-  default: '{}',
-  description: 'The transaction parameters for sending to the network',
-  placeholder: '{"from": "0x...", "to": "0x...", "data": "0x...", "value": "0x0"}',
-},
-{
-  displayName: 'Network',
-  name: 'network',
-  type: 'options',
-  displayOptions: { show: { resource: ['identity'] } },
-  options: [
-    { name: 'Mainnet', value: 'mainnet' },
-    { name: 'Alfajores Testnet', value: 'alfajores' },
-  ],
-  default: 'mainnet',
-  description: 'The Celo network to use',
-},
-{
-  displayName: 'Gas Limit',
-  name: 'gasLimit',
-  type: 'string',
-  displayOptions: { show: { resource: ['identity'], operation: ['requestAttestation', 'completeAttestation'] } },
+  displayOptions: {
+    show: { resource: ['stableCoin'], operation: ['transferStableCoin', 'mintStableCoin', 'burnStableCoin'] },
+  },
   default: '',
-  description: 'Gas limit for the transaction (optional, will estimate if not provided)',
+  description: 'Amount in token units, e.g. 1.5. Mint sells this much CELO; burn sells this much of the stablecoin.',
 },
 {
-  displayName: 'Gas Price',
-  name: 'gasPrice',
-  type: 'string',
-  displayOptions: { show: { resource: ['identity'], operation: ['requestAttestation', 'completeAttestation'] } },
-  default: '',
-  description: 'Gas price for the transaction (optional)',
+  displayName: 'Max Slippage %',
+  name: 'maxSlippage',
+  type: 'number',
+  displayOptions: {
+    show: { resource: ['stableCoin', 'exchange'], operation: ['mintStableCoin', 'burnStableCoin', 'exchange'] },
+  },
+  typeOptions: { minValue: 0, maxValue: 100, numberPrecision: 2 },
+  default: 1,
+  description: 'How far below the quoted amount the swap may fill before it reverts',
 },
 {
   displayName: 'Address',
@@ -1063,7 +1248,7 @@ export class Celo implements INodeType {
   displayOptions: {
     show: {
       resource: ['accounts'],
-      operation: ['getBalance', 'getCode', 'getTransactionCount'],
+      operation: ['getBalance', 'getAccountSummary', 'getCode', 'getTransactionCount'],
     },
   },
   default: 'latest',
@@ -1092,6 +1277,10 @@ export class Celo implements INodeType {
       name: 'cEUR',
       value: 'ceur',
     },
+    {
+      name: 'cREAL',
+      value: 'creal',
+    },
   ],
   default: ['celo'],
   description: 'Select which token balances to retrieve',
@@ -1108,7 +1297,7 @@ export class Celo implements INodeType {
     },
   },
   default: '',
-  description: 'The address of the stable token contract',
+  description: 'The address of any ERC-20 token contract, such as cUSD or USDC',
   placeholder: '0x765DE816845861e75A25fCA122bb6898B8B1282a',
 },
 {
@@ -1138,26 +1327,8 @@ export class Celo implements INodeType {
     },
   },
   default: '',
-  description: 'The amount to transfer or approve (in smallest unit)',
-  placeholder: '1000000000000000000',
-},
-{
-  displayName: 'Private Key',
-  name: 'privateKey',
-  type: 'string',
-  required: true,
-  displayOptions: {
-    show: {
-      resource: ['stableTokens'],
-      operation: ['transfer', 'approve'],
-    },
-  },
-  default: '',
-  description: 'The private key for signing the transaction',
-  placeholder: '0x...',
-  typeOptions: {
-    password: true,
-  },
+  description: 'The amount to transfer or approve in token units, scaled by the token\'s decimals',
+  placeholder: '1.5',
 },
 {
   displayName: 'Spender Address',
@@ -1215,8 +1386,8 @@ export class Celo implements INodeType {
       operation: ['transfer', 'approve'],
     },
   },
-  default: 100000,
-  description: 'Gas limit for the transaction',
+  default: 0,
+  description: 'Gas limit for the transaction (estimated when empty)',
 },
 {
   displayName: 'Gas Price',
@@ -1234,133 +1405,97 @@ export class Celo implements INodeType {
   placeholder: '1000000000',
 },
 {
-  displayName: 'Phone Number',
-  name: 'phoneNumber',
-  type: 'string',
-  required: true,
-  displayOptions: {
-    show: {
-      resource: ['identity'],
-      operation: ['requestAttestations'],
-    },
-  },
-  default: '',
-  description: 'The phone number to request attestations for',
-},
-{
-  displayName: 'Attestations Requested',
-  name: 'attestationsRequested',
-  type: 'number',
-  required: true,
+  displayName: 'Identifier Type',
+  name: 'identifierType',
+  type: 'options',
   displayOptions: {
     show: {
       resource: ['identity'],
-      operation: ['requestAttestations'],
+      operation: ['lookupAttestations', 'registerAttestationAsIssuer', 'revokeAttestation'],
     },
   },
-  default: 1,
-  description: 'The number of attestations to request',
+  options: [
+    { name: 'Obfuscated Identifier', value: 'obfuscated' },
+    { name: 'Phone Number', value: 'phoneNumber' },
+    { name: 'Email', value: 'email' },
+    { name: 'Twitter', value: 'twitter' },
+    { name: 'Discord', value: 'discord' },
+  ],
+  default: 'obfuscated',
+  description: 'Whether the identifier is already obfuscated or is plaintext to hash with its ODIS pepper',
 },
 {
-  displayName: 'Private Key',
-  name: 'privateKey',
+  displayName: 'Identifier',
+  name: 'identifier',
   type: 'string',
   required: true,
   displayOptions: {
     show: {
       resource: ['identity'],
-      operation: ['requestAttestations'],
+      operation: ['lookupAttestations', 'registerAttestationAsIssuer', 'revokeAttestation'],
     },
   },
   default: '',
-  description: 'Private key for signing the transaction',
-  typeOptions: {
-    password: true,
-  },
+  description: 'The bytes32 obfuscated identifier, or the plaintext phone number, email or handle',
+  placeholder: '0x... or +14155550123',
 },
 {
-  displayName: 'Phone Number',
-  name: 'phoneNumber',
+  displayName: 'Pepper',
+  name: 'pepper',
   type: 'string',
+  typeOptions: { password: true },
   required: true,
   displayOptions: {
     show: {
       resource: ['identity'],
-      operation: ['selectIssuers'],
+      operation: ['lookupAttestations', 'registerAttestationAsIssuer', 'revokeAttestation'],
     },
+    hide: { identifierType: ['obfuscated'] },
   },
   default: '',
-  description: 'The phone number to select issuers for',
+  description: 'The pepper ODIS returned for the identifier, hashed together with it',
 },
 {
-  displayName: 'Attestations Requested',
-  name: 'attestationsRequested',
-  type: 'number',
-  required: true,
-  displayOptions: {
-    show: {
-      resource: ['identity'],
-      operation: ['selectIssuers'],
-    },
-  },
-  default: 1,
-  description: 'The number of attestations requested',
-},
-{
-  displayName: 'Phone Number',
-  name: 'phoneNumber',
+  displayName: 'Account',
+  name: 'account',
   type: 'string',
   required: true,
   displayOptions: {
     show: {
       resource: ['identity'],
-      operation: ['completeAttestations'],
+      operation: ['lookupIdentifiers', 'registerAttestationAsIssuer', 'revokeAttestation'],
     },
   },
   default: '',
-  description: 'The phone number to complete attestations for',
+  description: 'The account address the identifier is attested to',
+  placeholder: '0x...',
 },
 {
-  displayName: 'Attestation Code',
-  name: 'attestationCode',
+  displayName: 'Trusted Issuers',
+  name: 'trustedIssuers',
   type: 'string',
   required: true,
-  displayOptions: {
-    show: {
-      resource: ['identity'],
-      operation: ['completeAttestations'],
-    },
-  },
+  displayOptions: { show: { resource: ['identity'], operation: ['lookupAttestations', 'lookupIdentifiers'] } },
   default: '',
-  description: 'The attestation code received via SMS',
+  description: 'Comma-separated issuer addresses. Only attestations from these issuers are returned.',
+  placeholder: '0x..., 0x...',
 },
 {
-  displayName: 'Phone Number',
-  name: 'phoneNumber',
-  type: 'string',
-  required: true,
-  displayOptions: {
-    show: {
-      resource: ['identity'],
-      operation: ['getAttestations'],
-    },
-  },
+  displayName: 'Issued On',
+  name: 'issuedOn',
+  type: 'dateTime',
+  displayOptions: { show: { resource: ['identity'], operation: ['registerAttestationAsIssuer'] } },
   default: '',
-  description: 'The phone number to get attestations for',
+  description: 'When the issuer verified the identifier. Defaults to now.',
 },
 {
-  displayName: 'Address',
-  name: 'address',
+  displayName: 'Issuer',
+  name: 'issuer',
   type: 'string',
-  required: true,
-  displayOptions: {
-    show: {
-      resource: ['identity'],
-      operation: ['getAttestations'],
-    },
-  },
+  displayOptions: { show: { resource: ['identity'], operation: ['revokeAttestation'] } },
   default: '',
-  description: 'The account address to check attestations for',
+  description: 'The issuer of the attestation. Defaults to the signing account.',
+  placeholder: '0x...',
 },
 {
   displayName: 'Address',
@@ -1391,21 +1526,14 @@ export class Celo implements INodeType {
   description: 'The URL containing the account metadata',
 },
 {
-  displayName: 'Private Key',
-  name: 'privateKey',
+  displayName: 'Block Number',
+  name: 'blockNumber',
   type: 'string',
-  required: true,
   displayOptions: {
-    show: {
-      resource: ['identity'],
-      operation: ['setAccountMetadata'],
-    },
-  },
-  default: '',
-  description: 'Private key for signing the transaction',
-  typeOptions: {
-    password: true,
+    show: { resource: ['identity'], operation: ['lookupAttestations', 'lookupIdentifiers', 'getAccountMetadata'] },
   },
+  default: 'latest',
+  description: 'Block number or "latest" for the most recent block',
 },
 {
   displayName: 'Group Address',
@@ -1433,24 +1561,7 @@ export class Celo implements INodeType {
     },
   },
   default: '',
-  description: 'The amount in wei (for vote/revoke/lock/unlock operations)',
-},
-{
-  displayName: 'Private Key',
-  name: 'privateKey',
-  type: 'string',
-  required: true,
-  typeOptions: {
-    password: true,
-  },
-  displayOptions: {
-    show: {
-      resource: ['validatorStaking'],
-      operation: ['vote', 'activate', 'revoke', 'lock', 'unlock'],
-    },
-  },
-  default: '',
-  description: 'The private key for signing the transaction',
+  description: 'Amount of CELO to vote, revoke, lock or unlock, e.g. 10.5',
 },
 {
   displayName: 'Voter Address',
@@ -1522,23 +1633,6 @@ export class Celo implements INodeType {
   default: '',
   description: 'URL containing the proposal description',
 },
-{
-  displayName: 'Private Key',
-  name: 'privateKey',
-  type: 'string',
-  required: true,
-  displayOptions: {
-    show: {
-      resource: ['governance'],
-      operation: ['propose', 'execute', 'upvote'],
-    },
-  },
-  default: '',
-  description: 'Private key for signing the transaction',
-  typeOptions: {
-    password: true,
-  },
-},
 {
   displayName: 'Proposal ID',
   name: 'proposalId',
@@ -1547,7 +1641,7 @@ export class Celo implements INodeType {
   displayOptions: {
     show: {
       resource: ['governance'],
-      operation: ['getProposal', 'execute', 'getVoteRecord', 'upvote'],
+      operation: ['getProposal', 'getVotes', 'vote', 'execute', 'getVoteRecord', 'upvote'],
     },
   },
   default: '',
@@ -1567,19 +1661,19 @@ export class Celo implements INodeType {
   options: [
     {
       name: 'Yes',
-      value: '1',
+      value: '3',
     },
     {
       name: 'No',
-      value: '0',
+      value: '2',
     },
     {
       name: 'Abstain',
-      value: '2',
+      value: '1',
     },
   ],
-  default: '1',
-  description: 'The vote choice',
+  default: '3',
+  description: 'The vote choice, encoded as the Governance VoteValue enum',
 },
 {
   displayName: 'Address',
@@ -1589,7 +1683,7 @@ export class Celo implements INodeType {
   displayOptions: {
     show: {
       resource: ['governance'],
-      operation: ['getVoteRecord'],
+      operation: ['getVoteRecord', 'isVoting'],
     },
   },
   default: '',
@@ -1603,25 +1697,11 @@ export class Celo implements INodeType {
   displayOptions: {
     show: {
       resource: ['exchange'],
-      operation: ['exchange'],
-    },
-  },
-  default: '',
-  description: 'Amount of tokens to sell (in wei)',
-},
-{
-  displayName: 'Minimum Buy Amount',
-  name: 'minBuyAmount',
-  type: 'string',
-  required: true,
-  displayOptions: {
-    show: {
-      resource: ['exchange'],
-      operation: ['exchange'],
+      operation: ['exchange', 'getExchangeRate', 'getBuyTokenAmount'],
     },
   },
   default: '',
-  description: 'Minimum amount of tokens to receive (in wei)',
+  description: 'Amount of the sell token, in token units, e.g. 10.5',
 },
 {
   displayName: 'Sell Token',
@@ -1631,7 +1711,7 @@ export class Celo implements INodeType {
   displayOptions: {
     show: {
       resource: ['exchange'],
-      operation: ['exchange', 'getExchangeRate', 'getBuyTokenAmount', 'getSellTokenAmount'],
+      operation: ['exchange', 'getExchangeRate', 'getBuyTokenAmount', 'getSellTokenAmount', 'getReserves'],
     },
   },
   options: [
@@ -1663,7 +1743,7 @@ export class Celo implements INodeType {
   displayOptions: {
     show: {
       resource: ['exchange'],
-      operation: ['exchange', 'getExchangeRate', 'getBuyTokenAmount', 'getSellTokenAmount'],
+      operation: ['exchange', 'getExchangeRate', 'getBuyTokenAmount', 'getSellTokenAmount', 'getReserves'],
     },
   },
   options: [
@@ -1688,261 +1768,3628 @@ export class Celo implements INodeType {
   description: 'Token to buy',
 },
 {
-  displayName: 'Private Key',
-  name: 'privateKey',
+  displayName: 'Buy Amount',
+  name: 'buyAmount',
   type: 'string',
-  typeOptions: {
-    password: true,
-  },
   required: true,
   displayOptions: {
     show: {
       resource: ['exchange'],
-      operation: ['exchange'],
+      operation: ['getSellTokenAmount'],
     },
   },
   default: '',
-  description: 'Private key for signing the transaction',
+  description: 'Amount of the buy token, in token units, e.g. 10.5',
 },
 {
-  displayName: 'Sell Amount',
-  name: 'sellAmount',
+  displayName: 'Operation',
+  name: 'operation',
+  type: 'options',
+  noDataExpression: true,
+  displayOptions: {
+    show: {
+      resource: ['signing'],
+    },
+  },
+  options: [
+    {
+      name: 'Sign Message',
+      value: 'signMessage',
+      description: 'Sign a message with personal_sign (EIP-191)',
+      action: 'Sign a message',
+    },
+    {
+      name: 'Sign Typed Data',
+      value: 'signTypedData',
+      description: 'Sign EIP-712 typed data such as a Permit',
+      action: 'Sign typed data',
+    },
+    {
+      name: 'Recover Address',
+      value: 'recoverAddress',
+      description: 'Recover the address that produced a signature',
+      action: 'Recover signer address',
+    },
+    {
+      name: 'Verify Signature',
+      value: 'verifySignature',
+      description: 'Check that a signature was produced by an address',
+      action: 'Verify a signature',
+    },
+    {
+      name: 'Build SIWE Message',
+      value: 'buildSiweMessage',
+      description: 'Build a Sign-In with Ethereum (EIP-4361) message for a Celo chain',
+      action: 'Build a SIWE message',
+    },
+    {
+      name: 'Verify SIWE Message',
+      value: 'verifySiweMessage',
+      description: 'Parse a signed SIWE message and verify its fields and signer',
+      action: 'Verify a SIWE message',
+    },
+  ],
+  default: 'signMessage',
+},
+{
+  displayName: 'Signature Type',
+  name: 'signatureType',
+  type: 'options',
+  displayOptions: {
+    show: {
+      resource: ['signing'],
+      operation: ['recoverAddress', 'verifySignature'],
+    },
+  },
+  options: [
+    {
+      name: 'Message (Personal_sign)',
+      value: 'message',
+    },
+    {
+      name: 'Typed Data (EIP-712)',
+      value: 'typedData',
+    },
+  ],
+  default: 'message',
+  description: 'How the signed payload was hashed',
+},
+{
+  displayName: 'Message',
+  name: 'message',
   type: 'string',
   required: true,
   displayOptions: {
     show: {
-      resource: ['exchange'],
-      operation: ['getExchangeRate', 'getBuyTokenAmount'],
+      resource: ['signing'],
+      operation: ['signMessage', 'recoverAddress', 'verifySignature'],
+    },
+    hide: {
+      signatureType: ['typedData'],
     },
   },
   default: '',
-  description: 'Amount of tokens to sell (in wei)',
+  description: 'Message that is or was signed',
 },
 {
-  displayName: 'Buy Amount',
-  name: 'buyAmount',
+  displayName: 'Message Encoding',
+  name: 'messageEncoding',
+  type: 'options',
+  displayOptions: {
+    show: {
+      resource: ['signing'],
+      operation: ['signMessage', 'recoverAddress', 'verifySignature'],
+    },
+    hide: {
+      signatureType: ['typedData'],
+    },
+  },
+  options: [
+    {
+      name: 'UTF-8 Text',
+      value: 'text',
+    },
+    {
+      name: 'Hex Bytes',
+      value: 'hex',
+    },
+  ],
+  default: 'text',
+  description: 'Whether the message is plain text or 0x-prefixed bytes',
+},
+{
+  displayName: 'Typed Data',
+  name: 'typedData',
+  type: 'json',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['signing'],
+      operation: ['signTypedData', 'recoverAddress', 'verifySignature'],
+    },
+    hide: {
+      signatureType: ['message'],
+    },
+  },
+  default: '{\n  "types": {},\n  "primaryType": "",\n  "domain": {},\n  "message": {}\n}',
+  description: 'EIP-712 payload with types, primaryType, domain and message. EIP712Domain is derived from the domain when omitted.',
+},
+{
+  displayName: 'Signature',
+  name: 'signature',
   type: 'string',
   required: true,
   displayOptions: {
     show: {
-      resource: ['exchange'],
-      operation: ['getSellTokenAmount'],
+      resource: ['signing'],
+      operation: ['recoverAddress', 'verifySignature', 'verifySiweMessage'],
     },
   },
   default: '',
-  description: 'Amount of tokens to buy (in wei)',
+  placeholder: 'e.g. 0x5e37...1b',
+  description: '65-byte signature as hex',
 },
 {
-  displayName: 'Token',
-  name: 'token',
-  type: 'options',
+  displayName: 'Expected Address',
+  name: 'expectedAddress',
+  type: 'string',
   required: true,
   displayOptions: {
     show: {
-      resource: ['exchange'],
-      operation: ['getReserveRatio'],
+      resource: ['signing'],
+      operation: ['verifySignature'],
+    },
+  },
+  default: '',
+  description: 'Address the signature should belong to',
+},
+{
+  displayName: 'SIWE Message',
+  name: 'siweMessage',
+  type: 'string',
+  typeOptions: {
+    rows: 10,
+  },
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['signing'],
+      operation: ['verifySiweMessage'],
+    },
+  },
+  default: '',
+  description: 'Signed EIP-4361 message text exactly as the wallet displayed it',
+},
+{
+  displayName: 'Domain',
+  name: 'siweDomain',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['signing'],
+      operation: ['buildSiweMessage', 'verifySiweMessage'],
+    },
+  },
+  default: '',
+  placeholder: 'e.g. app.example.com',
+  description: 'Host requesting the sign-in. Verification fails when the message names another domain.',
+},
+{
+  displayName: 'Network',
+  name: 'siweNetwork',
+  type: 'options',
+  displayOptions: {
+    show: {
+      resource: ['signing'],
+      operation: ['buildSiweMessage', 'verifySiweMessage'],
     },
   },
   options: [
     {
-      name: 'cUSD',
-      value: 'cUSD',
+      name: 'Mainnet (42220)',
+      value: 'mainnet',
     },
     {
-      name: 'cEUR',
-      value: 'cEUR',
+      name: 'Alfajores Testnet (44787)',
+      value: 'alfajores',
     },
     {
-      name: 'cREAL',
-      value: 'cREAL',
+      name: 'Baklava Testnet (62320)',
+      value: 'baklava',
     },
   ],
-  default: 'cUSD',
-  description: 'Token to get reserve ratio for',
+  default: 'mainnet',
+  description: 'Celo network whose chain ID the message is bound to. Verify requires the credential to be connected to the same chain.',
 },
-    ],
-  };
-
-  async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
-    const items = this.getInputData();
-    const resource = this.getNodeParameter('resource', 0) as string;
-
-    switch (resource) {
-      case 'account':
-        return [await executeAccountOperations.call(this, items)];
-      case 'transaction':
-        return [await executeTransactionOperations.call(this, items)];
-      case 'block':
-        return [await executeBlockOperations.call(this, items)];
-      case 'validator':
-        return [await executeValidatorOperations.call(this, items)];
-      case 'governance':
-        return [await executeGovernanceOperations.call(this, items)];
-      case 'stableCoin':
-        return [await executeStableCoinOperations.call(this, items)];
-      case 'identity':
-        return [await executeIdentityOperations.call(this, items)];
-      case 'accounts':
-        return [await executeAccountsOperations.call(this, items)];
-      case 'stableTokens':
-        return [await executeStableTokensOperations.call(this, items)];
-      case 'validatorStaking':
-        return [await executeValidatorStakingOperations.call(this, items)];
-      case 'exchange':
-        return [await executeExchangeOperations.call(this, items)];
-      default:
-        throw new NodeOperationError(this.getNode(), `The resource "${resource}" is not supported`);
-    }
-  }
-}
-
-// ============================================================
-// Resource Handler Functions
-// ============================================================
-
+{
+  displayName: 'Nonce',
+  name: 'siweNonce',
+  type: 'string',
+  displayOptions: {
+    show: {
+      resource: ['signing'],
+      operation: ['buildSiweMessage'],
+    },
+  },
+  default: '',
+  description: 'Nonce issued to the client. Generated when empty.',
+},
+{
+  displayName: 'Expected Nonce',
+  name: 'siweExpectedNonce',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['signing'],
+      operation: ['verifySiweMessage'],
+    },
+  },
+  default: '',
+  description: 'Nonce issued to the client for this sign-in. Verification fails when the message carries another nonce.',
+},
+{
+  displayName: 'Address',
+  name: 'siweAddress',
+  type: 'string',
+  displayOptions: {
+    show: {
+      resource: ['signing'],
+      operation: ['buildSiweMessage'],
+    },
+  },
+  default: '',
+  description: 'Address signing in. Leave empty to use the signing account of the credential.',
+},
+{
+  displayName: 'URI',
+  name: 'siweUri',
+  type: 'string',
+  required: true,
+  displayOptions: {
+    show: {
+      resource: ['signing'],
+      operation: ['buildSiweMessage'],
+    },
+  },
+  default: '',
+  placeholder: 'e.g. https://app.example.com/login',
+  description: 'Resource the sign-in is for',
+},
+{
+  displayName: 'Additional Fields',
+  name: 'siweFields',
+  type: 'collection',
+  placeholder: 'Add Field',
+  displayOptions: {
+    show: {
+      resource: ['signing'],
+      operation: ['buildSiweMessage'],
+    },
+  },
+  default: {},
+  options: [
+    {
+      displayName: 'Expiration Time',
+      name: 'expirationTime',
+      type: 'dateTime',
+      default: '',
+    },
+    {
+      displayName: 'Not Before',
+      name: 'notBefore',
+      type: 'dateTime',
+      default: '',
+    },
+    {
+      displayName: 'Request ID',
+      name: 'requestId',
+      type: 'string',
+      default: '',
+    },
+    {
+      displayName: 'Resources',
+      name: 'resources',
+      type: 'string',
+      default: '',
+      description: 'Comma-separated URIs the user is authorising',
+    },
+    {
+      displayName: 'Scheme',
+      name: 'scheme',
+      type: 'string',
+      default: '',
+      placeholder: 'e.g. https',
+    },
+    {
+      displayName: 'Statement',
+      name: 'statement',
+      type: 'string',
+      default: '',
+      description: 'Single line shown to the user, such as the terms they accept',
+    },
+  ],
+},
+{
+  displayName: 'Account Source',
+  name: 'accountSource',
+  type: 'options',
+  displayOptions: {
+    show: {
+      resource: ['accounts'],
+      operation: ['createAccount'],
+    },
+  },
+  options: [
+    {
+      name: 'Derive Next From Mnemonic',
+      value: 'derive',
+      description: 'Return the first derived address that has no transactions and no balance',
+    },
+    {
+      name: 'Register Signing Account',
+      value: 'register',
+      description: 'Register the signing address with the Accounts contract, which locking CELO and voting require',
+    },
+  ],
+  default: 'derive',
+},
+{
+  displayName: 'Account Index',
+  name: 'accountIndex',
+  type: 'number',
+  typeOptions: {
+    minValue: 0,
+  },
+  default: 0,
+  description: 'Address index to sign with when the credential holds a mnemonic. Ignored for private key credentials.',
+},
+{
+  displayName: 'Options',
+  name: 'options',
+  type: 'collection',
+  placeholder: 'Add Option',
+  default: {},
+  options: [
+    {
+      displayName: 'RPC Batch Size',
+      name: 'rpcBatchSize',
+      type: 'number',
+      typeOptions: { minValue: 1 },
+      default: 50,
+      description: 'Maximum number of calls per JSON-RPC batch request when an operation reads for many items at once',
+    },
+    {
+      displayName: 'Max Concurrent Requests',
+      name: 'maxConcurrentRequests',
+      type: 'number',
+      typeOptions: { minValue: 0 },
+      default: 10,
+      description: 'Maximum number of RPC requests, and separately of explorer requests, in flight at once. Items of read-only operations are processed concurrently. 0 means no limit.',
+    },
+    {
+      displayName: 'Requests per Second',
+      name: 'requestsPerSecond',
+      type: 'number',
+      typeOptions: { minValue: 0, numberPrecision: 2 },
+      default: 0,
+      description: 'Maximum rate of RPC requests, and separately of explorer requests, with bursts of up to one second\'s worth. 0 means no limit.',
+    },
+  ],
+},
+    ],
+  };
+
+  methods = {
+    credentialTest: {
+      celoApiTest: testCeloCredentials,
+    },
+    loadOptions: {
+      async getContractFunctions(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+        const fragments = await getContractAbiFunctions(
+          this,
+          this.getCurrentNodeParameter('abiSource') as string,
+          this.getCurrentNodeParameter('contractAbi'),
+          this.getCurrentNodeParameter('contractAddress') as string,
+        );
+
+        return fragments
+          .map((fragment) => ({
+            name: getFunctionSignature(fragment),
+            value: getFunctionSignature(fragment),
+            description: isReadOnlyFunction(fragment) ? 'Read (eth_call)' : 'Write (signed transaction)',
+          }))
+          .sort((a, b) => a.name.localeCompare(b.name));
+      },
+    },
+    resourceMapping: {
+      async getContractFunctionInputs(this: ILoadOptionsFunctions): Promise<ResourceMapperFields> {
+        const fragments = await getContractAbiFunctions(
+          this,
+          this.getCurrentNodeParameter('abiSource') as string,
+          this.getCurrentNodeParameter('contractAbi'),
+          this.getCurrentNodeParameter('contractAddress') as string,
+        );
+        const fragment = findContractFunction(fragments, this.getCurrentNodeParameter('contractFunction') as string);
+
+        return {
+          fields: fragment.inputs.map((input, index) => ({
+            id: getArgumentId(input, index),
+            displayName: `${input.name || `Argument ${index + 1}`} (${getCanonicalType(input)})`,
+            required: true,
+            defaultMatch: false,
+            display: true,
+            type: input.type === 'bool' ? 'boolean' : 'string',
+          })),
+        };
+      },
+    },
+  };
+
+  async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
+    const items = this.getInputData();
+    const resource = this.getNodeParameter('resource', 0) as string;
+    const options = this.getNodeParameter('options', 0, {}) as IDataObject;
+    let returnData: INodeExecutionData[];
+
+    setRequestLimits(this, {
+      maxConcurrent: (options.maxConcurrentRequests as number | undefined) ?? DEFAULT_MAX_CONCURRENT_REQUESTS,
+      requestsPerSecond: options.requestsPerSecond as number | undefined,
+    });
+
+    switch (resource) {
+      case 'account':
+        returnData = await executeAccountOperations.call(this, items);
+        break;
+      case 'transaction':
+        returnData = await executeTransactionOperations.call(this, items);
+        break;
+      case 'block':
+        returnData = await executeBlockOperations.call(this, items);
+        break;
+      case 'validator':
+        returnData = await executeValidatorOperations.call(this, items);
+        break;
+      case 'governance':
+        returnData = await executeGovernanceOperations.call(this, items);
+        break;
+      case 'stableCoin':
+        returnData = await executeStableCoinOperations.call(this, items);
+        break;
+      case 'identity':
+        returnData = await executeIdentityOperations.call(this, items);
+        break;
+      case 'accounts':
+        returnData = await executeAccountsOperations.call(this, items);
+        break;
+      case 'stableTokens':
+        returnData = await executeStableTokensOperations.call(this, items);
+        break;
+      case 'validatorStaking':
+        returnData = await executeValidatorStakingOperations.call(this, items);
+        break;
+      case 'exchange':
+        returnData = await executeExchangeOperations.call(this, items);
+        break;
+      case 'signing':
+        returnData = await executeSigningOperations.call(this, items);
+        break;
+      case 'registry':
+        returnData = await executeRegistryOperations.call(this, items);
+        break;
+      default:
+        throw new NodeOperationError(this.getNode(), `The resource "${resource}" is not supported`);
+    }
+
+    const rpcCalls = groupRpcCallsByItem(takeRpcCallLog(this));
+    // Emit addresses in EIP-55 form, as explorers such as Celoscan display them
+    return [returnData.map((item) => addRpcMetadata({ ...item, json: checksumAddressFields(item.json) }, rpcCalls))];
+  }
+}
+
+// ============================================================
+// Output Helpers
+// ============================================================
+
+function groupRpcCallsByItem(log: RpcCallRecord[]): Map<number, IDataObject[]> {
+	const calls = new Map<number, IDataObject[]>();
+	for (const { method, endpoint, endpointIndex, itemIndex } of log) {
+		const itemCalls = calls.get(itemIndex) || [];
+		itemCalls.push({ method, endpoint, endpointIndex });
+		calls.set(itemIndex, itemCalls);
+	}
+	return calls;
+}
+
+/**
+ * Record under _metadata which RPC endpoint served each call made for the
+ * item an output came from
+ */
+function addRpcMetadata(item: INodeExecutionData, rpcCalls: Map<number, IDataObject[]>): INodeExecutionData {
+	const itemCalls = rpcCalls.get((item.pairedItem as IPairedItemData | undefined)?.item ?? -1);
+	if (!itemCalls) {
+		return item;
+	}
+	return { ...item, json: { ...item.json, _metadata: { rpcCalls: itemCalls } } };
+}
+
+// ============================================================
+// Contract ABI Helpers
+// ============================================================
+
+async function getContractAbiFunctions(
+	context: IExecuteFunctions | ILoadOptionsFunctions,
+	abiSource: string,
+	contractAbi: unknown,
+	contractAddress: string,
+	itemIndex = 0,
+): Promise<AbiFunctionFragment[]> {
+	if (abiSource === 'explorer') {
+		if (!contractAddress) {
+			throw new NodeOperationError(context.getNode(), 'Enter a contract address to fetch its verified ABI');
+		}
+		return parseAbiFunctions(await getVerifiedContractAbi(context, contractAddress, itemIndex));
+	}
+
+	return parseAbiFunctions(contractAbi);
+}
+
+function findContractFunction(fragments: AbiFunctionFragment[], signature: string): AbiFunctionFragment {
+	const fragment = fragments.find(
+		(candidate) => getFunctionSignature(candidate) === signature || candidate.name === signature,
+	);
+	if (!fragment) {
+		throw new Error(`Function ${signature} not found in the contract ABI`);
+	}
+	return fragment;
+}
+
+function getArgumentId(input: AbiParameter, index: number): string {
+	return input.name || `arg${index}`;
+}
+
+/**
+ * Convert a value entered in the UI into the shape the ABI encoder expects.
+ * Arrays and tuples are entered as JSON text.
+ */
+function parseContractArgument(input: AbiParameter, value: unknown): unknown {
+	const isComposite = input.type.endsWith(']') || input.type.startsWith('tuple');
+	if (isComposite && typeof value === 'string') {
+		try {
+			return JSON.parse(value);
+		} catch {
+			throw new Error(`Argument ${input.name || input.type} must be valid JSON`);
+		}
+	}
+	return value;
+}
+
+/**
+ * Result of a multicall read that the output cannot do without
+ */
+function requireRead(context: IExecuteFunctions, read: ContractReadResult, itemIndex: number): Record<string, unknown> {
+	if (!read.success) {
+		throw new NodeOperationError(context.getNode(), read.error, { itemIndex });
+	}
+	return read.result;
+}
+
+// ============================================================
+// Address Helpers
+// ============================================================
+
+/**
+ * Read an address parameter and return it checksummed, rejecting mixed-case
+ * input whose checksum does not match
+ */
+function getAddressParameter(context: IExecuteFunctions, name: string, itemIndex: number): string {
+	const address = (context.getNodeParameter(name, itemIndex) as string).trim();
+	try {
+		return getAddress(address);
+	} catch (error) {
+		throw new NodeOperationError(context.getNode(), (error as Error).message, { itemIndex });
+	}
+}
+
+/**
+ * Address of the key that signs for an item, honouring the Account Index of mnemonic credentials
+ */
+function getSignerAddress(context: IExecuteFunctions, credentials: CeloCredentials, itemIndex: number): string {
+	return privateKeyToAddress(
+		getSigningKey(credentials, context.getNodeParameter('accountIndex', itemIndex, 0) as number),
+	);
+}
+
+// ============================================================
+// HD Wallet Helpers
+// ============================================================
+
+const MAX_ACCOUNT_SCAN = 100;
+
+/**
+ * Find the first derived account with no transactions and no CELO balance
+ */
+async function findNextUnusedAccount(
+	context: IExecuteFunctions,
+	credentials: CeloCredentials,
+	itemIndex: number,
+): Promise<DerivedAccount> {
+	for (let index = 0; index < MAX_ACCOUNT_SCAN; index++) {
+		const account = deriveAccount(
+			credentials.mnemonic as string,
+			index,
+			credentials.derivationPath || 'celo',
+			credentials.mnemonicPassphrase || '',
+		);
+
+		const nonce = await makeRpcCall<string>(context, 'eth_getTransactionCount', [account.address, 'latest'], itemIndex);
+		const balance = await makeRpcCall<string>(context, 'eth_getBalance', [account.address, 'latest'], itemIndex);
+
+		if (BigInt(nonce) === BigInt(0) && BigInt(balance) === BigInt(0)) {
+			return account;
+		}
+	}
+
+	throw new NodeOperationError(
+		context.getNode(),
+		`No unused address among the first ${MAX_ACCOUNT_SCAN} derived accounts`,
+		{ itemIndex },
+	);
+}
+
+// ============================================================
+// Balance Helpers
+// ============================================================
+
+type BalanceSymbol = 'CELO' | StablecoinSymbol;
+
+const BALANCE_SYMBOLS: BalanceSymbol[] = ['CELO', 'cUSD', 'cEUR', 'cREAL'];
+
+interface TokenBalances {
+	balances: Record<string, string | null>;
+	balancesFormatted: Record<string, string | null>;
+	readStatus: Record<string, boolean>;
+}
+
+/**
+ * Read CELO and stablecoin balances, keyed by symbol, raw and formatted, in one
+ * multicall. A balance whose read failed is null and flagged false in readStatus.
+ */
+async function getTokenBalances(
+	context: IExecuteFunctions,
+	address: string,
+	symbols: BalanceSymbol[],
+	itemIndex: number,
+	blockTag: string,
+): Promise<TokenBalances> {
+	// CELO is also the GoldToken ERC-20, so its balance is read like the stablecoins'
+	const tokens = await Promise.all(
+		symbols.map((symbol) =>
+			resolveContractAddress(context, symbol === 'CELO' ? 'GoldToken' : STABLECOINS[symbol].registryId, itemIndex),
+		),
+	);
+	const reads = await readContracts(
+		context,
+		tokens.map((token) => ({ target: token, fragment: ABI_FRAGMENTS.erc20.balanceOf, args: [address] })),
+		itemIndex,
+		blockTag,
+	);
+
+	const result: TokenBalances = { balances: {}, balancesFormatted: {}, readStatus: {} };
+	symbols.forEach((symbol, index) => {
+		const read = reads[index];
+		const balance = read.success ? read.result[0] as string : null;
+		result.balances[symbol] = balance;
+		result.balancesFormatted[symbol] = balance === null
+			? null
+			: formatUnits(balance, symbol === 'CELO' ? 18 : STABLECOINS[symbol].decimals);
+		result.readStatus[symbol] = read.success;
+	});
+	return result;
+}
+
+async function getLockedBalance(
+	context: IExecuteFunctions,
+	address: string,
+	itemIndex: number,
+	blockTag: string,
+): Promise<LockedBalance> {
+	const lockedGold = await resolveContractAddress(context, 'LockedGold', itemIndex);
+	const reads = await readContracts(
+		context,
+		[
+			ABI_FRAGMENTS.lockedGold.getAccountTotalLockedGold,
+			ABI_FRAGMENTS.lockedGold.getAccountNonvotingLockedGold,
+			ABI_FRAGMENTS.lockedGold.getPendingWithdrawals,
+		].map((fragment) => ({ target: lockedGold, fragment, args: [address] })),
+		itemIndex,
+		blockTag,
+	);
+	const [total, nonvoting, withdrawals] = reads.map((read) => requireRead(context, read, itemIndex));
+	const timestamps = withdrawals.timestamps as string[];
+
+	return {
+		address,
+		total: total[0] as string,
+		totalFormatted: formatUnits(total[0] as string),
+		nonvoting: nonvoting[0] as string,
+		nonvotingFormatted: formatUnits(nonvoting[0] as string),
+		pendingWithdrawals: (withdrawals.values as string[]).map((value, index) => ({
+			value,
+			valueFormatted: formatUnits(value),
+			timestamp: Number(timestamps[index]),
+			availableAt: new Date(Number(timestamps[index]) * 1000),
+		})),
+	};
+}
+
+/**
+ * Read an account's election votes for every group it votes for
+ */
+async function getAccountVotes(
+	context: IExecuteFunctions,
+	address: string,
+	itemIndex: number,
+	blockTag: string,
+): Promise<AllBalancesResponse['votes']> {
+	const election = await resolveContractAddress(context, 'Election', itemIndex);
+	const [total, groupsVotedFor] = (await readContracts(
+		context,
+		[
+			{ target: election, fragment: ABI_FRAGMENTS.election.getTotalVotesByAccount, args: [address] },
+			{ target: election, fragment: ABI_FRAGMENTS.election.getGroupsVotedForByAccount, args: [address] },
+		],
+		itemIndex,
+		blockTag,
+	)).map((read) => requireRead(context, read, itemIndex));
+	const groups = groupsVotedFor[0] as string[];
+
+	// Active and pending votes of every group, read two per group
+	const reads = await readContracts(
+		context,
+		groups.flatMap((group) => [
+			{ target: election, fragment: ABI_FRAGMENTS.election.getActiveVotesForGroupByAccount, args: [group, address] },
+			{ target: election, fragment: ABI_FRAGMENTS.election.getPendingVotesForGroupByAccount, args: [group, address] },
+		]),
+		itemIndex,
+		blockTag,
+	);
+	const votes = groups.map((group, index): VoteInfo => {
+		const active = requireRead(context, reads[2 * index], itemIndex)[0] as string;
+		const pending = requireRead(context, reads[2 * index + 1], itemIndex)[0] as string;
+		return {
+			group,
+			active,
+			pending,
+			activeFormatted: formatUnits(active),
+			pendingFormatted: formatUnits(pending),
+		};
+	});
+
+	return {
+		total: total[0] as string,
+		totalFormatted: formatUnits(total[0] as string),
+		groups: votes,
+	};
+}
+
+// ============================================================
+// Token Helpers
+// ============================================================
+
+async function getTokenDecimals(context: IExecuteFunctions, token: string, itemIndex: number): Promise<number> {
+	const { 0: decimals } = await readContract(context, token, ABI_FRAGMENTS.erc20.decimals, [], itemIndex);
+	return Number(decimals);
+}
+
+/**
+ * Read a token amount, such as a balance or allowance, and the token's decimals in one multicall
+ */
+async function readTokenAmount(
+	context: IExecuteFunctions,
+	token: string,
+	fragment: AbiFunctionFragment,
+	args: unknown[],
+	itemIndex: number,
+): Promise<{ amount: string; decimals: number }> {
+	const reads = await readContracts(
+		context,
+		[
+			{ target: token, fragment: ABI_FRAGMENTS.erc20.decimals },
+			{ target: token, fragment, args },
+		],
+		itemIndex,
+	);
+	const [decimals, amount] = reads.map((read) => requireRead(context, read, itemIndex)[0] as string);
+	return { amount, decimals: Number(decimals) };
+}
+
+/**
+ * Read ERC-20 metadata in one multicall. Name and symbol are optional in
+ * ERC-20, so they are null for tokens without them.
+ */
+async function getTokenInfo(context: IExecuteFunctions, token: string, itemIndex: number): Promise<TokenInfo> {
+	const fields = ['name', 'symbol', 'decimals', 'totalSupply'] as const;
+	const reads = await readContracts(
+		context,
+		fields.map((field) => ({ target: token, fragment: ABI_FRAGMENTS.erc20[field] })),
+		itemIndex,
+	);
+	const [name, symbol, decimals, totalSupply] = reads.map((read) => (read.success ? read.result[0] as string : null));
+
+	if (decimals === null || totalSupply === null) {
+		throw new NodeOperationError(context.getNode(), `${token} does not implement ERC-20 decimals and totalSupply`, {
+			itemIndex,
+		});
+	}
+
+	const readStatus: Record<string, boolean> = {};
+	fields.forEach((field, index) => {
+		readStatus[field] = reads[index].success;
+	});
+	return {
+		address: token,
+		name,
+		symbol,
+		decimals: Number(decimals),
+		totalSupply,
+		totalSupplyFormatted: formatUnits(totalSupply, Number(decimals)),
+		readStatus,
+	};
+}
+
+// ============================================================
+// Signing Helpers
+// ============================================================
+
+/**
+ * Read an optional SIWE date field as an ISO timestamp
+ */
+function getSiweDate(
+	context: IExecuteFunctions,
+	fields: IDataObject,
+	name: 'expirationTime' | 'notBefore',
+	itemIndex: number,
+): string | undefined {
+	const value = fields[name] as string | undefined;
+	if (!value) {
+		return undefined;
+	}
+
+	const time = Date.parse(value);
+	if (isNaN(time)) {
+		const displayName = name === 'expirationTime' ? 'Expiration Time' : 'Not Before';
+		throw new NodeOperationError(context.getNode(), `Invalid ${displayName} date: ${value}`, { itemIndex });
+	}
+	return new Date(time).toISOString();
+}
+
+function getSigningMessage(context: IExecuteFunctions, itemIndex: number): string | Buffer {
+	const message = context.getNodeParameter('message', itemIndex) as string;
+	const encoding = context.getNodeParameter('messageEncoding', itemIndex, 'text') as string;
+
+	return encoding === 'hex' ? hexToBytes(message) : message;
+}
+
+function getTypedDataParameter(context: IExecuteFunctions, itemIndex: number): TypedData {
+	const typedData = context.getNodeParameter('typedData', itemIndex) as string | IDataObject;
+
+	try {
+		return (typeof typedData === 'string' ? JSON.parse(typedData) : typedData) as TypedData;
+	} catch {
+		throw new NodeOperationError(context.getNode(), 'Typed Data must be valid JSON', { itemIndex });
+	}
+}
+
+// ============================================================
+// Item Helpers
+// ============================================================
+
+/**
+ * Operations that may send a transaction. Each reads on-chain state, such as
+ * allowances, election neighbours or pending withdrawals, that the
+ * transactions of earlier items change, so their items run one at a time.
+ */
+const TRANSACTION_OPERATIONS = new Set([
+	'activate',
+	'approve',
+	'burnStableCoin',
+	'callContractFunction',
+	'createAccount',
+	'exchange',
+	'execute',
+	'lock',
+	'mintStableCoin',
+	'propose',
+	'registerAttestationAsIssuer',
+	'revoke',
+	'revokeAttestation',
+	'sendRawTransaction',
+	'sendTransaction',
+	'setAccountMetadata',
+	'transfer',
+	'transferStableCoin',
+	'unlock',
+	'upvote',
+	'vote',
+	'withdraw',
+]);
+
+/**
+ * Process every item, concurrently when the operation only reads, leaving the
+ * pace of the requests to the request limits. Otherwise items run one at a
+ * time, each starting once the transactions of the one before are mined.
+ */
+async function forEachItem(
+	context: IExecuteFunctions,
+	items: INodeExecutionData[],
+	concurrent: boolean,
+	processItem: (itemIndex: number) => Promise<void>,
+): Promise<void> {
+	if (concurrent) {
+		await Promise.all(items.map((_, itemIndex) => processItem(itemIndex)));
+		return;
+	}
+	for (let i = 0; i < items.length; i++) {
+		await processItem(i);
+		const transactionHashes = takeSentTransactions(context);
+		if (i < items.length - 1) {
+			await waitForTransactionsMined(context, transactionHashes, i);
+		}
+	}
+}
+
+// ============================================================
+// Batch Helpers
+// ============================================================
+
+/**
+ * Make one RPC call per item, sent up front as JSON-RPC batches. Items whose
+ * parameters are invalid are not sent and settle with the parameter error.
+ */
+async function batchItemRpcCalls(
+	context: IExecuteFunctions,
+	items: INodeExecutionData[],
+	getCall: (itemIndex: number) => { method: string; params: unknown[] },
+): Promise<RpcBatchResult[]> {
+	const results: RpcBatchResult[] = new Array(items.length);
+	const calls: RpcBatchCall[] = [];
+	for (let i = 0; i < items.length; i++) {
+		try {
+			calls.push({ ...getCall(i), itemIndex: i });
+		} catch (error) {
+			results[i] = { error: error as Error };
+		}
+	}
+
+	const options = context.getNodeParameter('options', 0, {}) as IDataObject;
+	const responses = await makeRpcBatch(context, calls, (options.rpcBatchSize as number) || DEFAULT_RPC_BATCH_SIZE);
+	calls.forEach(({ itemIndex }, index) => {
+		results[itemIndex] = responses[index];
+	});
+	return results;
+}
+
+function unwrapBatchResult<T>(result: RpcBatchResult): T {
+	if ('error' in result) {
+		throw result.error;
+	}
+	return result.result as T;
+}
+
+type ItemRpcCall = (context: IExecuteFunctions, itemIndex: number) => { method: string; params: unknown[] };
+
+const ACCOUNT_RPC_CALLS: Record<string, ItemRpcCall> = {
+	getBalance: (context, i) => ({
+		method: 'eth_getBalance',
+		params: [getAddressParameter(context, 'address', i), getBlockTagParameter(context, i)],
+	}),
+	getTransactionCount: (context, i) => ({
+		method: 'eth_getTransactionCount',
+		params: [getAddressParameter(context, 'address', i), getBlockTagParameter(context, i)],
+	}),
+	getCode: (context, i) => ({
+		method: 'eth_getCode',
+		params: [getAddressParameter(context, 'address', i), getBlockTagParameter(context, i)],
+	}),
+	callContract: (context, i) => ({
+		method: 'eth_call',
+		params: [getJsonObjectParameter(context, 'transaction', i), getBlockTagParameter(context, i)],
+	}),
+};
+
+const TRANSACTION_RPC_CALLS: Record<string, ItemRpcCall> = {
+	getTransaction: (context, i) => ({
+		method: 'eth_getTransactionByHash',
+		params: [context.getNodeParameter('transactionHash', i) as string],
+	}),
+	getTransactionByHash: (context, i) => ({
+		method: 'eth_getTransactionByHash',
+		params: [context.getNodeParameter('hash', i) as string],
+	}),
+	getTransactionReceipt: (context, i) => ({
+		method: 'eth_getTransactionReceipt',
+		params: [context.getNodeParameter('transactionHash', i) as string],
+	}),
+};
+
+const BLOCK_RPC_CALLS: Record<string, ItemRpcCall> = {
+	getBlockByNumber: (context, i) => ({
+		method: 'eth_getBlockByNumber',
+		params: [
+			toBlockTag(context.getNodeParameter('blockNumber', i) as string),
+			context.getNodeParameter('fullTransactions', i, false) as boolean,
+		],
+	}),
+	getBlockByHash: (context, i) => ({
+		method: 'eth_getBlockByHash',
+		params: [
+			context.getNodeParameter('blockHash', i) as string,
+			context.getNodeParameter('fullTransactions', i, false) as boolean,
+		],
+	}),
+};
+
+// ============================================================
+// Block Helpers
+// ============================================================
+
+const BLOCK_RANGE_PAGE_SIZE = 10;
+
+/**
+ * Blocks per eth_getLogs query, within the range public endpoints such as Forno accept
+ */
+const LOG_BLOCK_WINDOW = 5000;
+
+/**
+ * Fetch logs over a block range in bounded windows, a page of windows at a time
+ */
+async function getLogsInWindows(
+	context: IExecuteFunctions,
+	fromBlock: number,
+	toBlock: number,
+	filter: { address: string; topics: Array<string | null> },
+	itemIndex: number,
+): Promise<unknown[]> {
+	const windowStarts: number[] = [];
+	for (let start = fromBlock; start <= toBlock; start += LOG_BLOCK_WINDOW) {
+		windowStarts.push(start);
+	}
+
+	const pages = await mapInPages(windowStarts, (start) =>
+		getLogs(
+			context,
+			{
+				...filter,
+				fromBlock: toHex(start),
+				toBlock: toHex(Math.min(start + LOG_BLOCK_WINDOW - 1, toBlock)),
+			},
+			itemIndex,
+		),
+	);
+	return pages.flat();
+}
+
+/**
+ * Accept block numbers in decimal as well as hex and block tags
+ */
+function toBlockTag(blockNumber: string): string {
+	const value = blockNumber.trim();
+	return /^\d+$/.test(value) ? toHex(value) : value;
+}
+
+function formatBlock(block: IDataObject, decodeTimestamp: boolean): IDataObject {
+	if (!decodeTimestamp || typeof block.timestamp !== 'string') {
+		return block;
+	}
+
+	const timestampSeconds = Number(fromHex(block.timestamp));
+	return {
+		...block,
+		timestampSeconds,
+		timestampIso: new Date(timestampSeconds * 1000).toISOString(),
+	};
+}
+
+// ============================================================
+// Transaction Helpers
+// ============================================================
+
+const TRANSACTION_QUANTITIES = [
+	'blockNumber',
+	'chainId',
+	'gas',
+	'gasPrice',
+	'maxFeePerGas',
+	'maxPriorityFeePerGas',
+	'nonce',
+	'transactionIndex',
+	'type',
+	'value',
+] as const;
+const RECEIPT_QUANTITIES = [
+	'blockNumber',
+	'cumulativeGasUsed',
+	'effectiveGasPrice',
+	'gasUsed',
+	'status',
+	'transactionIndex',
+	'type',
+] as const;
+const LOG_QUANTITIES = ['blockNumber', 'logIndex', 'transactionIndex'] as const;
+
+type FormattedTransaction = TransactionData & HexVariants<typeof TRANSACTION_QUANTITIES[number]>;
+type FormattedReceipt = TransactionReceipt & HexVariants<typeof RECEIPT_QUANTITIES[number]> & { success: boolean };
+
+/**
+ * Read a JSON object parameter, given as text or, from an expression, as an object
+ */
+function getJsonObjectParameter(context: IExecuteFunctions, name: string, itemIndex: number): IDataObject {
+	const value = context.getNodeParameter(name, itemIndex) as string | IDataObject;
+
+	let parsed: unknown;
+	try {
+		parsed = typeof value === 'string' ? JSON.parse(value) : value;
+	} catch {
+		throw new NodeOperationError(context.getNode(), `${name} must be a JSON object`, { itemIndex });
+	}
+	if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+		throw new NodeOperationError(context.getNode(), `${name} must be a JSON object`, { itemIndex });
+	}
+	return parsed as IDataObject;
+}
+
+/**
+ * Block tag from the Block Number option, or from Custom Block Number when it is set to custom
+ */
+function getBlockTagParameter(context: IExecuteFunctions, itemIndex: number): string {
+	const blockNumber = context.getNodeParameter('blockNumber', itemIndex) as string;
+	return blockNumber === 'custom'
+		? toBlockTag(context.getNodeParameter('customBlockNumber', itemIndex, '') as string)
+		: blockNumber;
+}
+
+function formatTransaction(transaction: TransactionData): FormattedTransaction {
+	const decoded = decodeQuantities(transaction, TRANSACTION_QUANTITIES);
+	return { ...decoded, valueFormatted: formatUnits(decoded.value) };
+}
+
+function formatReceipt(receipt: TransactionReceipt): FormattedReceipt {
+	return {
+		...decodeQuantities(receipt, RECEIPT_QUANTITIES),
+		success: receipt.status === '0x1',
+		logs: receipt.logs.map((log) => decodeQuantities(log, LOG_QUANTITIES)),
+	};
+}
+
+// ============================================================
+// Validator Helpers
+// ============================================================
+
+const CONTRACT_READ_PAGE_SIZE = 10;
+
+/**
+ * Map over values a page at a time, bounding the number of parallel RPC calls
+ */
+async function mapInPages<T, R>(values: T[], mapper: (value: T) => Promise<R>): Promise<R[]> {
+	const results: R[] = [];
+	for (let offset = 0; offset < values.length; offset += CONTRACT_READ_PAGE_SIZE) {
+		results.push(...await Promise.all(values.slice(offset, offset + CONTRACT_READ_PAGE_SIZE).map(mapper)));
+	}
+	return results;
+}
+
+/**
+ * Format a FixidityLib fraction such as a score or commission, e.g. "0.95"
+ */
+function formatFixidity(value: unknown): string {
+	return formatUnits(String(value), FIXIDITY_DECIMALS);
+}
+
+/**
+ * Read a Validators contract entry and the Accounts name of every address in
+ * one multicall. The entry is required; a failed name read leaves it unset.
+ */
+async function readValidatorEntries(
+	context: IExecuteFunctions,
+	fragment: AbiFunctionFragment,
+	addresses: string[],
+	itemIndex: number,
+	blockTag: string,
+): Promise<Array<{ entry: Record<string, unknown>; name?: string; nameRead: boolean }>> {
+	const validators = await resolveContractAddress(context, 'Validators', itemIndex);
+	const accounts = await resolveContractAddress(context, 'Accounts', itemIndex);
+	const reads = await readContracts(
+		context,
+		addresses.flatMap((address) => [
+			{ target: validators, fragment, args: [address] },
+			{ target: accounts, fragment: ABI_FRAGMENTS.accounts.getName, args: [address] },
+		]),
+		itemIndex,
+		blockTag,
+	);
+
+	return addresses.map((_address, index) => {
+		const name = reads[2 * index + 1];
+		return {
+			entry: requireRead(context, reads[2 * index], itemIndex),
+			name: name.success ? (name.result[0] as string) || undefined : undefined,
+			nameRead: name.success,
+		};
+	});
+}
+
+async function getValidatorInfos(
+	context: IExecuteFunctions,
+	addresses: string[],
+	itemIndex: number,
+	blockTag: string,
+): Promise<ValidatorInfo[]> {
+	const entries = await readValidatorEntries(
+		context,
+		ABI_FRAGMENTS.validators.getValidator,
+		addresses,
+		itemIndex,
+		blockTag,
+	);
+
+	return entries.map(({ entry: validator, name, nameRead }, index) => ({
+		address: toChecksumAddress(addresses[index]),
+		name,
+		ecdsaPublicKey: validator.ecdsaPublicKey as string,
+		blsPublicKey: validator.blsPublicKey as string,
+		affiliation: validator.affiliation as string,
+		score: formatFixidity(validator.score),
+		signer: validator.signer as string,
+		readStatus: { validator: true, name: nameRead },
+	}));
+}
+
+async function getValidatorGroupInfos(
+	context: IExecuteFunctions,
+	addresses: string[],
+	itemIndex: number,
+	blockTag: string,
+): Promise<ValidatorGroupInfo[]> {
+	const entries = await readValidatorEntries(
+		context,
+		ABI_FRAGMENTS.validators.getValidatorGroup,
+		addresses,
+		itemIndex,
+		blockTag,
+	);
+
+	return entries.map(({ entry: group, name, nameRead }, index) => ({
+		address: toChecksumAddress(addresses[index]),
+		name,
+		members: group.members as string[],
+		commission: formatFixidity(group.commission),
+		nextCommission: formatFixidity(group.nextCommission),
+		nextCommissionBlock: group.nextCommissionBlock as string,
+		slashingMultiplier: formatFixidity(group.slashingMultiplier),
+		lastSlashed: group.lastSlashed as string,
+		readStatus: { group: true, name: nameRead },
+	}));
+}
+
+/**
+ * Resolve a group address, accepting a validator's address in place of its group
+ */
+async function resolveValidatorGroup(
+	context: IExecuteFunctions,
+	address: string,
+	itemIndex: number,
+	blockTag: string,
+): Promise<string> {
+	const validators = await resolveContractAddress(context, 'Validators', itemIndex);
+	const [isGroup, isValidator] = (await readContracts(
+		context,
+		[
+			{ target: validators, fragment: ABI_FRAGMENTS.validators.isValidatorGroup, args: [address] },
+			{ target: validators, fragment: ABI_FRAGMENTS.validators.isValidator, args: [address] },
+		],
+		itemIndex,
+		blockTag,
+	)).map((read) => requireRead(context, read, itemIndex));
+
+	if (isGroup[0]) {
+		return address;
+	}
+	if (isValidator[0]) {
+		const { affiliation } = await readContract(
+			context,
+			validators,
+			ABI_FRAGMENTS.validators.getValidator,
+			[address],
+			itemIndex,
+			blockTag,
+		);
+		if (BigInt(affiliation as string) !== BigInt(0)) {
+			return affiliation as string;
+		}
+	}
+
+	throw new NodeOperationError(
+		context.getNode(),
+		`${address} is not a validator group or a validator affiliated with one`,
+		{ itemIndex },
+	);
+}
+
+// ============================================================
+// Election Helpers
+// ============================================================
+
+const NO_NEIGHBOURS = { lesser: ZERO_ADDRESS, greater: ZERO_ADDRESS };
+
+/**
+ * Compute the lesser and greater neighbours Election needs to keep its
+ * eligible groups sorted after a group's total votes change by the delta.
+ * Groups that are not eligible are not in the list and need no neighbours.
+ */
+async function getGroupNeighbours(
+	context: IExecuteFunctions,
+	group: string,
+	delta: bigint,
+	itemIndex: number,
+): Promise<{ lesser: string; greater: string } | null> {
+	const eligible = await readContract(
+		context,
+		await resolveContractAddress(context, 'Election', itemIndex),
+		ABI_FRAGMENTS.election.getTotalVotesForEligibleValidatorGroups,
+		[],
+		itemIndex,
+	);
+	const values = eligible.values as string[];
+	const groups = (eligible.groups as string[]).map((address, index) => ({
+		group: address,
+		votes: BigInt(values[index]),
+	}));
+
+	const current = groups.find((entry) => entry.group.toLowerCase() === group.toLowerCase());
+	return current ? findLesserAndGreaterGroups(groups, group, current.votes + delta) : null;
+}
+
+async function sendElectionTransaction(
+	context: IExecuteFunctions,
+	fragment: AbiFunctionFragment,
+	args: unknown[],
+	itemIndex: number,
+): Promise<string> {
+	const data = encodeFunctionCallData(fragment, args);
+	const election = await resolveContractAddress(context, 'Election', itemIndex);
+	return await signAndSendTransaction(context, { to: election, data }, itemIndex);
+}
+
+// ============================================================
+// Governance Helpers
+// ============================================================
+
+const VOTE_VALUES: VoteValue[] = ['None', 'Abstain', 'No', 'Yes'];
+
+interface GovernanceTimings {
+	now: number;
+	queueExpiry: number;
+	referendum: number;
+	execution: number;
+}
+
+/**
+ * Read the stage durations and the block timestamp that stages are measured against
+ */
+async function getGovernanceTimings(
+	context: IExecuteFunctions,
+	itemIndex: number,
+	blockTag: string,
+): Promise<GovernanceTimings> {
+	const governance = await resolveContractAddress(context, 'Governance', itemIndex);
+	const [queueExpiry, durations, block] = await Promise.all([
+		readContract(context, governance, ABI_FRAGMENTS.governance.queueExpiry, [], itemIndex, blockTag),
+		readContract(context, governance, ABI_FRAGMENTS.governance.stageDurations, [], itemIndex, blockTag),
+		getBlock(context, blockTag, false, itemIndex) as Promise<IDataObject>,
+	]);
+
+	return {
+		now: Number(fromHex(block.timestamp as string)),
+		queueExpiry: Number(queueExpiry[0]),
+		referendum: Number(durations.referendum),
+		execution: Number(durations.execution),
+	};
+}
+
+async function getProposalInfo(
+	context: IExecuteFunctions,
+	proposalId: string,
+	timings: GovernanceTimings,
+	itemIndex: number,
+	blockTag: string,
+): Promise<ProposalInfo> {
+	const governance = await resolveContractAddress(context, 'Governance', itemIndex);
+	const [proposal, isQueued, votes] = await Promise.all([
+		readContract(context, governance, ABI_FRAGMENTS.governance.getProposal, [proposalId], itemIndex, blockTag),
+		readContract(context, governance, ABI_FRAGMENTS.governance.isQueued, [proposalId], itemIndex, blockTag),
+		readContract(context, governance, ABI_FRAGMENTS.governance.getVoteTotals, [proposalId], itemIndex, blockTag),
+	]);
+
+	const timestamp = Number(proposal.timestamp);
+	return {
+		id: proposalId,
+		proposer: proposal.proposer as string,
+		deposit: proposal.deposit as string,
+		depositFormatted: formatUnits(proposal.deposit as string),
+		timestamp,
+		transactionCount: Number(proposal.transactionCount),
+		descriptionUrl: proposal.descriptionUrl as string,
+		stage: getProposalStage({ timestamp, queued: isQueued[0] as boolean }, timings.now, timings),
+		votes: {
+			yes: votes.yes as string,
+			no: votes.no as string,
+			abstain: votes.abstain as string,
+		},
+	};
+}
+
+/**
+ * Votes, vote records and execution address a proposal by its position in the dequeue
+ */
+async function getDequeueIndex(
+	context: IExecuteFunctions,
+	proposalId: string,
+	itemIndex: number,
+	blockTag: string = 'latest',
+): Promise<number> {
+	const { 0: dequeue } = await readContract(
+		context,
+		await resolveContractAddress(context, 'Governance', itemIndex),
+		ABI_FRAGMENTS.governance.getDequeue,
+		[],
+		itemIndex,
+		blockTag,
+	);
+
+	const index = (dequeue as string[]).findIndex((id) => id === proposalId);
+	if (index === -1) {
+		throw new NodeOperationError(
+			context.getNode(),
+			`Proposal ${proposalId} is not in the referendum or execution stage`,
+			{ itemIndex },
+		);
+	}
+	return index;
+}
+
+function getProposalIdParameter(context: IExecuteFunctions, itemIndex: number): string {
+	const proposalId = (context.getNodeParameter('proposalId', itemIndex) as string).trim();
+	if (!/^\d+$/.test(proposalId) || BigInt(proposalId) === BigInt(0)) {
+		throw new NodeOperationError(context.getNode(), `Invalid proposal ID: ${proposalId}`, { itemIndex });
+	}
+	return BigInt(proposalId).toString();
+}
+
+function getJsonArrayParameter(context: IExecuteFunctions, name: string, itemIndex: number): unknown[] {
+	const value = context.getNodeParameter(name, itemIndex) as string | unknown[];
+
+	let parsed: unknown;
+	try {
+		parsed = typeof value === 'string' ? JSON.parse(value) : value;
+	} catch {
+		throw new NodeOperationError(context.getNode(), `${name} must be a JSON array`, { itemIndex });
+	}
+	if (!Array.isArray(parsed)) {
+		throw new NodeOperationError(context.getNode(), `${name} must be a JSON array`, { itemIndex });
+	}
+	return parsed;
+}
+
+// ============================================================
+// Mento Helpers
+// ============================================================
+
+interface MentoExchange {
+	exchangeProvider: string;
+	exchangeId: string;
+}
+
+type MentoSymbol = 'CELO' | StablecoinSymbol;
+
+async function getMentoToken(
+	context: IExecuteFunctions,
+	symbol: MentoSymbol,
+	itemIndex: number,
+): Promise<{ address: string; decimals: number }> {
+	return symbol === 'CELO'
+		? { address: await resolveContractAddress(context, 'GoldToken', itemIndex), decimals: 18 }
+		: {
+			address: await resolveContractAddress(context, STABLECOINS[symbol].registryId, itemIndex),
+			decimals: STABLECOINS[symbol].decimals,
+		};
+}
+
+/**
+ * Read the Sell Token and Buy Token of an item and resolve both
+ */
+async function getMentoPair(
+	context: IExecuteFunctions,
+	itemIndex: number,
+): Promise<{
+	sellSymbol: MentoSymbol;
+	buySymbol: MentoSymbol;
+	sell: { address: string; decimals: number };
+	buy: { address: string; decimals: number };
+}> {
+	const sellSymbol = context.getNodeParameter('sellToken', itemIndex) as MentoSymbol;
+	const buySymbol = context.getNodeParameter('buyToken', itemIndex) as MentoSymbol;
+	if (sellSymbol === buySymbol) {
+		throw new NodeOperationError(context.getNode(), 'Sell Token and Buy Token must differ', { itemIndex });
+	}
+
+	return {
+		sellSymbol,
+		buySymbol,
+		sell: await getMentoToken(context, sellSymbol, itemIndex),
+		buy: await getMentoToken(context, buySymbol, itemIndex),
+	};
+}
+
+/**
+ * Price of one whole unit of the base token in the quote token, from raw
+ * amounts, as a decimal string with 18 decimals of precision
+ */
+function formatMentoRate(
+	quoteAmount: string,
+	quoteDecimals: number,
+	baseAmount: string,
+	baseDecimals: number,
+): string {
+	const ten = BigInt(10);
+	const numerator = BigInt(quoteAmount) * ten ** BigInt(baseDecimals) * ten ** BigInt(18);
+	const denominator = BigInt(baseAmount) * ten ** BigInt(quoteDecimals);
+	return formatUnits(numerator / denominator, 18);
+}
+
+/**
+ * Find the Mento exchange that trades a token pair, across all of the Broker's exchange providers
+ */
+async function findMentoExchange(
+	context: IExecuteFunctions,
+	tokenIn: string,
+	tokenOut: string,
+	itemIndex: number,
+	blockTag: string = 'latest',
+): Promise<MentoExchange> {
+	const { 0: providers } = await readContract(
+		context,
+		await resolveContractAddress(context, 'Broker', itemIndex),
+		ABI_FRAGMENTS.broker.getExchangeProviders,
+		[],
+		itemIndex,
+		blockTag,
+	);
+
+	const pair = [tokenIn.toLowerCase(), tokenOut.toLowerCase()];
+	for (const exchangeProvider of providers as string[]) {
+		const { exchanges } = await readContract(
+			context,
+			exchangeProvider,
+			ABI_FRAGMENTS.exchangeProvider.getExchanges,
+			[],
+			itemIndex,
+			blockTag,
+		);
+		const match = (exchanges as Array<{ exchangeId: string; assets: string[] }>).find(({ assets }) =>
+			pair.every((token) => assets.some((asset) => asset.toLowerCase() === token)),
+		);
+		if (match) {
+			return { exchangeProvider, exchangeId: match.exchangeId };
+		}
+	}
+
+	throw new NodeOperationError(
+		context.getNode(),
+		`No Mento exchange trades ${toChecksumAddress(tokenIn)} for ${toChecksumAddress(tokenOut)}`,
+		{ itemIndex },
+	);
+}
+
+async function getMentoAmountOut(
+	context: IExecuteFunctions,
+	exchange: MentoExchange,
+	tokenIn: string,
+	tokenOut: string,
+	amountIn: string,
+	itemIndex: number,
+	blockTag: string = 'latest',
+): Promise<string> {
+	const { amountOut } = await readContract(
+		context,
+		await resolveContractAddress(context, 'Broker', itemIndex),
+		ABI_FRAGMENTS.broker.getAmountOut,
+		[exchange.exchangeProvider, exchange.exchangeId, tokenIn, tokenOut, amountIn],
+		itemIndex,
+		blockTag,
+	);
+	return amountOut as string;
+}
+
+/**
+ * Read a pool's spread as a FixidityLib fraction
+ */
+async function getMentoSpread(
+	context: IExecuteFunctions,
+	exchange: MentoExchange,
+	itemIndex: number,
+	blockTag: string = 'latest',
+): Promise<string> {
+	const pool = await readContract(
+		context,
+		exchange.exchangeProvider,
+		ABI_FRAGMENTS.exchangeProvider.getPoolExchange,
+		[exchange.exchangeId],
+		itemIndex,
+		blockTag,
+	);
+	return (pool.exchange as { config: { spread: { value: string } } }).config.spread.value;
+}
+
+/**
+ * Approve a spender for at least the amount, waiting for the approval to be
+ * mined so that the transaction relying on it can be estimated
+ */
+async function ensureAllowance(
+	context: IExecuteFunctions,
+	token: string,
+	owner: string,
+	spender: string,
+	amount: string,
+	itemIndex: number,
+): Promise<string | undefined> {
+	const { 0: allowance } = await readContract(
+		context,
+		token,
+		ABI_FRAGMENTS.erc20.allowance,
+		[owner, spender],
+		itemIndex,
+	);
+	if (BigInt(allowance as string) >= BigInt(amount)) {
+		return undefined;
+	}
+
+	const data = encodeFunctionCallData(ABI_FRAGMENTS.erc20.approve, [spender, amount]);
+	const transactionHash = await signAndSendTransaction(context, { to: token, data }, itemIndex);
+	await waitForTransactionReceipt(context, transactionHash, itemIndex);
+	return transactionHash;
+}
+
+/**
+ * Swap an exact amount in through the Mento Broker, approving it first when needed
+ */
+async function swapWithMento(
+	context: IExecuteFunctions,
+	tokenIn: string,
+	tokenOut: string,
+	amountIn: string,
+	maxSlippage: number,
+	itemIndex: number,
+): Promise<IDataObject> {
+	const credentials = await context.getCredentials('celoApi') as CeloCredentials;
+	const broker = await resolveContractAddress(context, 'Broker', itemIndex);
+	const exchange = await findMentoExchange(context, tokenIn, tokenOut, itemIndex);
+	const expectedAmountOut = await getMentoAmountOut(context, exchange, tokenIn, tokenOut, amountIn, itemIndex);
+	const minAmountOut = applySlippage(expectedAmountOut, maxSlippage);
+
+	const signer = getSignerAddress(context, credentials, itemIndex);
+	const approvalTransactionHash = await ensureAllowance(context, tokenIn, signer, broker, amountIn, itemIndex);
+
+	const data = encodeFunctionCallData(ABI_FRAGMENTS.broker.swapIn, [
+		exchange.exchangeProvider,
+		exchange.exchangeId,
+		tokenIn,
+		tokenOut,
+		amountIn,
+		minAmountOut,
+	]);
+	const transactionHash = await signAndSendTransaction(context, { to: broker, data }, itemIndex);
+
+	return {
+		transactionHash,
+		approvalTransactionHash,
+		exchangeProvider: exchange.exchangeProvider,
+		exchangeId: exchange.exchangeId,
+		tokenIn,
+		tokenOut,
+		amountIn,
+		expectedAmountOut,
+		minAmountOut,
+	};
+}
+
+// ============================================================
+// Identity Helpers
+// ============================================================
+
+const OBFUSCATED_IDENTIFIER_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+
+/**
+ * Read the identifier as a bytes32 obfuscated identifier, hashing plaintext with its pepper
+ */
+function getIdentifierParameter(context: IExecuteFunctions, itemIndex: number): string {
+	const type = context.getNodeParameter('identifierType', itemIndex, 'obfuscated') as IdentifierType | 'obfuscated';
+	const identifier = (context.getNodeParameter('identifier', itemIndex) as string).trim();
+
+	if (type === 'obfuscated') {
+		if (!OBFUSCATED_IDENTIFIER_PATTERN.test(identifier)) {
+			throw new NodeOperationError(
+				context.getNode(),
+				`Obfuscated identifier must be a 32-byte hex string: ${identifier}`,
+				{ itemIndex },
+			);
+		}
+		return identifier.toLowerCase();
+	}
+
+	try {
+		return getObfuscatedIdentifier(identifier, type, context.getNodeParameter('pepper', itemIndex) as string).hash;
+	} catch (error) {
+		throw new NodeOperationError(context.getNode(), (error as Error).message, { itemIndex });
+	}
+}
+
+function getTrustedIssuers(context: IExecuteFunctions, itemIndex: number): string[] {
+	const issuers = (context.getNodeParameter('trustedIssuers', itemIndex) as string)
+		.split(',')
+		.map((issuer) => issuer.trim())
+		.filter((issuer) => issuer !== '');
+
+	if (issuers.length === 0) {
+		throw new NodeOperationError(context.getNode(), 'At least one trusted issuer is required', { itemIndex });
+	}
+	try {
+		return issuers.map((issuer) => getAddress(issuer));
+	} catch (error) {
+		throw new NodeOperationError(context.getNode(), (error as Error).message, { itemIndex });
+	}
+}
+
+/**
+ * Attribute flattened lookup results to their issuers; results are listed
+ * issuer by issuer, in trusted issuer order, with countsPerIssuer entries each
+ */
+function getResultIssuers(trustedIssuers: string[], countsPerIssuer: string[]): string[] {
+	return trustedIssuers.flatMap((issuer, index) => Array(Number(countsPerIssuer[index])).fill(issuer));
+}
+
+// ============================================================
+// Resource Handler Functions
+// ============================================================
+
 async function executeAccountOperations(
 	this: IExecuteFunctions,
 	items: INodeExecutionData[],
 ): Promise<INodeExecutionData[]> {
-	const returnData: INodeExecutionData[] = [];
+	const returnData: INodeExecutionData[][] = items.map(() => []);
+	const operation = this.getNodeParameter('operation', 0) as string;
+	const credentials = await this.getCredentials('celoApi') as CeloCredentials;
+
+	// Single-call reads are made for every item up front, in JSON-RPC batches
+	const getRpcCall = ACCOUNT_RPC_CALLS[operation];
+	const prefetched = getRpcCall ? await batchItemRpcCalls(this, items, (i) => getRpcCall(this, i)) : [];
+
+	await forEachItem(this, items, !TRANSACTION_OPERATIONS.has(operation), async (i) => {
+		try {
+			let result: IDataObject;
+
+			switch (operation) {
+				case 'getBalance': {
+					const balance = unwrapBatchResult<string>(prefetched[i]);
+					const address = getAddressParameter(this, 'address', i);
+
+					const response: BalanceResponse & HexVariants<'balance'> = {
+						address,
+						...decodeQuantities({ balance }, ['balance']),
+						balanceFormatted: formatUnits(fromHex(balance)),
+						symbol: 'CELO',
+						network: credentials.network,
+					};
+					result = response as unknown as IDataObject;
+					break;
+				}
+
+				case 'getTransactionCount': {
+					const transactionCount = unwrapBatchResult<string>(prefetched[i]);
+					const address = getAddressParameter(this, 'address', i);
+
+					result = { address, ...decodeQuantities({ transactionCount }, ['transactionCount']) };
+					break;
+				}
+
+				case 'getCode': {
+					const code = unwrapBatchResult<string>(prefetched[i]);
+					const address = getAddressParameter(this, 'address', i);
+
+					result = {
+						address,
+						code,
+						codeSize: (code.length - 2) / 2,
+						isContract: code !== '0x',
+					};
+					break;
+				}
+
+				case 'listAccounts': {
+					// Public endpoints such as Forno manage no keys and return an empty list
+					const accounts = await makeRpcCall<string[]>(this, 'eth_accounts', [], i);
+					result = { accounts };
+					break;
+				}
+
+				case 'callContract': {
+					const returnValue = unwrapBatchResult<string>(prefetched[i]);
+					const transaction = getJsonObjectParameter(this, 'transaction', i);
+
+					result = { to: transaction.to, result: returnValue };
+					break;
+				}
+
+				case 'callContractFunction': {
+					const contractAddress = getAddressParameter(this, 'contractAddress', i);
+					const abiSource = this.getNodeParameter('abiSource', i) as string;
+					const contractAbi = abiSource === 'json' ? this.getNodeParameter('contractAbi', i) : undefined;
+					const signature = this.getNodeParameter('contractFunction', i) as string;
+					const argumentValues = this.getNodeParameter('functionArguments.value', i, {}) as IDataObject;
+
+					const fragments = await getContractAbiFunctions(this, abiSource, contractAbi, contractAddress, i);
+					const fragment = findContractFunction(fragments, signature);
+					const args = fragment.inputs.map((input, index) =>
+						parseContractArgument(input, (argumentValues || {})[getArgumentId(input, index)]),
+					);
+					const data = encodeFunctionCallData(fragment, args);
+
+					if (isReadOnlyFunction(fragment)) {
+						const rawResult = await makeRpcCall<string>(
+							this,
+							'eth_call',
+							[{ to: contractAddress, data }, getBlockTagParameter(this, i)],
+							i,
+						);
+
+						result = {
+							contractAddress,
+							function: getFunctionSignature(fragment),
+							type: 'read',
+							result: decodeFunctionResult(fragment, rawResult),
+							rawResult,
+						};
+					} else {
+						const callValue = this.getNodeParameter('callValue', i, '0') as string;
+						const value = '0x' + BigInt(parseUnits(callValue || '0')).toString(16);
+
+						const transactionHash = await signAndSendTransaction(this, { to: contractAddress, data, value }, i);
+
+						result = {
+							contractAddress,
+							function: getFunctionSignature(fragment),
+							type: 'write',
+							transactionHash,
+							data,
+						};
+					}
+					break;
+				}
+
+				default:
+					throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`);
+			}
+
+			returnData[i].push({
+				json: result,
+				pairedItem: { item: i },
+			});
+		} catch (error: any) {
+			if (this.continueOnFail()) {
+				returnData[i].push({
+					json: { error: error.message },
+					pairedItem: { item: i },
+				});
+			} else {
+				throw error;
+			}
+		}
+	});
+
+	return returnData.flat();
+}
+
+async function executeAccountsOperations(
+	this: IExecuteFunctions,
+	items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+	const returnData: INodeExecutionData[][] = items.map(() => []);
+	const operation = this.getNodeParameter('operation', 0) as string;
+	const credentials = await this.getCredentials('celoApi') as CeloCredentials;
+	const network = credentials.network as CeloNetwork;
+
+	await forEachItem(this, items, !TRANSACTION_OPERATIONS.has(operation), async (i) => {
+		try {
+			let result: IDataObject;
+
+			switch (operation) {
+				case 'getBalance': {
+					const address = getAddressParameter(this, 'address', i);
+					const blockTag = toBlockTag(this.getNodeParameter('blockNumber', i, 'latest') as string);
+					const tokens = this.getNodeParameter('tokenContracts', i, ['celo']) as string[];
+					const symbols = BALANCE_SYMBOLS.filter((symbol) => tokens.includes(symbol.toLowerCase()));
+
+					result = {
+						address,
+						network,
+						...await getTokenBalances(this, address, symbols, i, blockTag),
+					};
+					break;
+				}
+
+				case 'getAccountSummary': {
+					const address = getAddressParameter(this, 'address', i);
+					const blockTag = toBlockTag(this.getNodeParameter('blockNumber', i, 'latest') as string);
+					const [{ balances, balancesFormatted, readStatus }, lockedCelo, votes] = await Promise.all([
+						getTokenBalances(this, address, BALANCE_SYMBOLS, i, blockTag),
+						getLockedBalance(this, address, i, blockTag),
+						getAccountVotes(this, address, i, blockTag),
+					]);
+
+					const summary: AllBalancesResponse = {
+						address,
+						network,
+						balances: balances as AllBalancesResponse['balances'],
+						balancesFormatted: balancesFormatted as AllBalancesResponse['balancesFormatted'],
+						readStatus,
+						lockedCelo,
+						votes,
+					};
+					result = summary as unknown as IDataObject;
+					break;
+				}
+
+				case 'getCode': {
+					const address = getAddressParameter(this, 'address', i);
+					const blockTag = toBlockTag(this.getNodeParameter('blockNumber', i, 'latest') as string);
+					const code = await makeRpcCall<string>(this, 'eth_getCode', [address, blockTag], i);
+
+					result = {
+						address,
+						code,
+						codeSize: (code.length - 2) / 2,
+						isContract: code !== '0x',
+					};
+					break;
+				}
+
+				case 'getTransactionCount': {
+					const address = getAddressParameter(this, 'address', i);
+					const blockTag = toBlockTag(this.getNodeParameter('blockNumber', i, 'latest') as string);
+					const transactionCount = await makeRpcCall<string>(
+						this,
+						'eth_getTransactionCount',
+						[address, blockTag],
+						i,
+					);
+
+					result = {
+						address,
+						transactionCount: Number(fromHex(transactionCount)),
+						transactionCountHex: transactionCount,
+					};
+					break;
+				}
+
+				case 'createAccount': {
+					const accountSource = this.getNodeParameter('accountSource', i, 'derive') as string;
+
+					if (accountSource === 'register') {
+						const address = getSignerAddress(this, credentials, i);
+						const accounts = await resolveContractAddress(this, 'Accounts', i);
+						const { 0: isAccount } = await readContract(this, accounts, ABI_FRAGMENTS.accounts.isAccount, [address], i);
+
+						// createAccount reverts for addresses that are already registered
+						let transactionHash: string | null = null;
+						if (!isAccount) {
+							const data = encodeFunctionCallData(ABI_FRAGMENTS.accounts.createAccount, []);
+							transactionHash = await signAndSendTransaction(this, { to: accounts, data }, i);
+						}
+
+						result = {
+							address,
+							alreadyRegistered: isAccount as boolean,
+							transactionHash,
+						};
+						break;
+					}
+
+					if (credentials.signingKeyType !== 'mnemonic' || !credentials.mnemonic) {
+						throw new NodeOperationError(
+							this.getNode(),
+							'Deriving an account requires a credential with a mnemonic',
+							{ itemIndex: i },
+						);
+					}
+
+					const account = await findNextUnusedAccount(this, credentials, i);
+					result = {
+						address: account.address,
+						accountIndex: account.index,
+						derivationPath: account.path,
+					};
+					break;
+				}
+
+				default:
+					throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`);
+			}
+
+			returnData[i].push({
+				json: result,
+				pairedItem: { item: i },
+			});
+		} catch (error: any) {
+			if (this.continueOnFail()) {
+				returnData[i].push({
+					json: { error: error.message },
+					pairedItem: { item: i },
+				});
+			} else {
+				throw error;
+			}
+		}
+	});
+
+	return returnData.flat();
+}
+
+async function executeTransactionOperations(
+	this: IExecuteFunctions,
+	items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+	const returnData: INodeExecutionData[][] = items.map(() => []);
+	const operation = this.getNodeParameter('operation', 0) as string;
+
+	// Single-call reads are made for every item up front, in JSON-RPC batches
+	const getRpcCall = TRANSACTION_RPC_CALLS[operation];
+	const prefetched = getRpcCall ? await batchItemRpcCalls(this, items, (i) => getRpcCall(this, i)) : [];
+
+	await forEachItem(this, items, !TRANSACTION_OPERATIONS.has(operation), async (i) => {
+		try {
+			let result: IDataObject;
+			
+			switch (operation) {
+				case 'sendTransaction': {
+					const transaction = getJsonObjectParameter(this, 'transaction', i) as unknown as TransactionRequest;
+					const transactionHash = await signAndSendTransaction(this, transaction, i);
+					result = { transactionHash };
+					break;
+				}
+
+				case 'sendRawTransaction': {
+					const data = (this.getNodeParameter('data', i) as string).trim();
+					if (!isHex(data) || data.length % 2 !== 0) {
+						throw new NodeOperationError(this.getNode(), 'Signed transaction data must be a hex string', { itemIndex: i });
+					}
+
+					const transactionHash = await makeRpcCall<string>(this, 'eth_sendRawTransaction', [data], i);
+					result = { transactionHash };
+					break;
+				}
+
+				case 'getTransaction':
+				case 'getTransactionByHash': {
+					const hash = operation === 'getTransaction'
+						? this.getNodeParameter('transactionHash', i) as string
+						: this.getNodeParameter('hash', i) as string;
+					const transaction = unwrapBatchResult<TransactionData | null>(prefetched[i]);
+
+					if (!transaction) {
+						throw new NodeOperationError(this.getNode(), `Transaction not found: ${hash}`, { itemIndex: i });
+					}
+					result = formatTransaction(transaction) as unknown as IDataObject;
+					break;
+				}
+
+				case 'getTransactionReceipt': {
+					const transactionHash = this.getNodeParameter('transactionHash', i) as string;
+					const receipt = unwrapBatchResult<TransactionReceipt | null>(prefetched[i]);
+
+					if (!receipt) {
+						throw new NodeOperationError(
+							this.getNode(),
+							`No receipt for transaction ${transactionHash}; it is unknown or still pending`,
+							{ itemIndex: i },
+						);
+					}
+					result = formatReceipt(receipt) as unknown as IDataObject;
+					break;
+				}
+
+				case 'estimateGas': {
+					const transaction = getJsonObjectParameter(this, 'transaction', i);
+					const gas = await estimateGas(this, transaction, i);
+					result = decodeQuantities({ gas }, ['gas']);
+					break;
+				}
+
+				case 'getGasPrice': {
+					const gasPrice = await getGasPrice(this, i);
+					result = {
+						...decodeQuantities({ gasPrice }, ['gasPrice']),
+						gasPriceGwei: formatUnits(fromHex(gasPrice), 9),
+					};
+					break;
+				}
+
+				default:
+					throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`);
+			}
+
+			returnData[i].push({
+				json: result,
+				pairedItem: { item: i },
+			});
+		} catch (error: any) {
+			if (this.continueOnFail()) {
+				returnData[i].push({
+					json: { error: error.message },
+					pairedItem: { item: i },
+				});
+			} else {
+				throw error;
+			}
+		}
+	});
+
+	return returnData.flat();
+}
+
+async function executeBlockOperations(
+	this: IExecuteFunctions,
+	items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+	const returnData: INodeExecutionData[][] = items.map(() => []);
+	const operation = this.getNodeParameter('operation', 0) as string;
+
+	// Single-call reads are made for every item up front, in JSON-RPC batches
+	const getRpcCall = BLOCK_RPC_CALLS[operation];
+	const prefetched = getRpcCall ? await batchItemRpcCalls(this, items, (i) => getRpcCall(this, i)) : [];
+
+	await forEachItem(this, items, !TRANSACTION_OPERATIONS.has(operation), async (i) => {
+		try {
+			const decodeTimestamp = this.getNodeParameter('decodeTimestamp', i, false) as boolean;
+			let result: IDataObject;
+
+			switch (operation) {
+				case 'getBlockByNumber': {
+					const blockNumber = this.getNodeParameter('blockNumber', i) as string;
+					const block = unwrapBatchResult<IDataObject | null>(prefetched[i]);
+
+					if (!block) {
+						throw new NodeOperationError(this.getNode(), `Block not found: ${blockNumber}`, { itemIndex: i });
+					}
+					result = formatBlock(block, decodeTimestamp);
+					break;
+				}
+
+				case 'getBlockByHash': {
+					const blockHash = this.getNodeParameter('blockHash', i) as string;
+					const block = unwrapBatchResult<IDataObject | null>(prefetched[i]);
+
+					if (!block) {
+						throw new NodeOperationError(this.getNode(), `Block not found: ${blockHash}`, { itemIndex: i });
+					}
+					result = formatBlock(block, decodeTimestamp);
+					break;
+				}
+
+				case 'getLatestBlock': {
+					const blockNumber = await getBlockNumber(this, i);
+					result = {
+						blockNumber: Number(fromHex(blockNumber)),
+						blockNumberHex: blockNumber,
+					};
+					break;
+				}
+
+				case 'getBlockTransactionCount': {
+					const blockHash = this.getNodeParameter('blockHash', i) as string;
+					const count = await makeRpcCall<string | null>(
+						this,
+						'eth_getBlockTransactionCountByHash',
+						[blockHash],
+						i,
+					);
+
+					if (count === null) {
+						throw new NodeOperationError(this.getNode(), `Block not found: ${blockHash}`, { itemIndex: i });
+					}
+					result = {
+						blockHash,
+						transactionCount: Number(fromHex(count)),
+					};
+					break;
+				}
+
+				case 'getUncle': {
+					const blockHash = this.getNodeParameter('blockHash', i) as string;
+					const index = this.getNodeParameter('index', i) as string;
+					const uncle = await makeRpcCall<IDataObject | null>(
+						this,
+						'eth_getUncleByBlockHashAndIndex',
+						[blockHash, toHex(index)],
+						i,
+					);
+
+					// Celo has no uncles, so nodes answer null for any index
+					result = uncle || { blockHash, index: toHex(index), uncle: null };
+					break;
+				}
+
+				case 'getBlockRange': {
+					const fromBlock = this.getNodeParameter('fromBlock', i) as string;
+					const blockCount = this.getNodeParameter('blockCount', i) as number;
+					const fullTransactions = this.getNodeParameter('fullTransactions', i, false) as boolean;
+
+					let start: number;
+					if (fromBlock.trim() === 'latest') {
+						start = Math.max(Number(fromHex(await getBlockNumber(this, i))) - blockCount + 1, 0);
+					} else if (isHex(toBlockTag(fromBlock))) {
+						start = Number(fromHex(toBlockTag(fromBlock)));
+					} else {
+						throw new NodeOperationError(
+							this.getNode(),
+							`From Block must be a block number or "latest", got: ${fromBlock}`,
+							{ itemIndex: i },
+						);
+					}
+
+					// Fetch a page of blocks at a time and emit one item per block
+					let reachedHead = false;
+					for (let offset = 0; offset < blockCount && !reachedHead; offset += BLOCK_RANGE_PAGE_SIZE) {
+						const pageSize = Math.min(BLOCK_RANGE_PAGE_SIZE, blockCount - offset);
+						const blocks = await Promise.all(
+							Array.from({ length: pageSize }, (_, n) =>
+								getBlock(this, start + offset + n, fullTransactions, i) as Promise<IDataObject | null>,
+							),
+						);
+
+						for (const block of blocks) {
+							if (!block) {
+								// The range ran past the chain head
+								reachedHead = true;
+								break;
+							}
+							returnData[i].push({
+								json: formatBlock(block, decodeTimestamp),
+								pairedItem: { item: i },
+							});
+						}
+					}
+					return;
+				}
+
+				default:
+					throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`);
+			}
+
+			returnData[i].push({
+				json: result,
+				pairedItem: { item: i },
+			});
+		} catch (error: any) {
+			if (this.continueOnFail()) {
+				returnData[i].push({
+					json: { error: error.message },
+					pairedItem: { item: i },
+				});
+			} else {
+				throw error;
+			}
+		}
+	});
+
+	return returnData.flat();
+}
+
+async function executeValidatorOperations(
+	this: IExecuteFunctions,
+	items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+	const returnData: INodeExecutionData[][] = items.map(() => []);
+	const operation = this.getNodeParameter('operation', 0) as string;
+
+	await forEachItem(this, items, !TRANSACTION_OPERATIONS.has(operation), async (i) => {
+		try {
+			const blockTag = toBlockTag(this.getNodeParameter('blockNumber', i, 'latest') as string);
+			let result: IDataObject;
+
+			switch (operation) {
+				case 'getValidators': {
+					const { 0: addresses } = await readContract(
+						this,
+						await resolveContractAddress(this, 'Validators', i),
+						ABI_FRAGMENTS.validators.getRegisteredValidators,
+						[],
+						i,
+						blockTag,
+					);
+					const validators = await getValidatorInfos(this, addresses as string[], i, blockTag);
+
+					for (const validator of validators) {
+						returnData[i].push({
+							json: validator as unknown as IDataObject,
+							pairedItem: { item: i },
+						});
+					}
+					return;
+				}
+
+				case 'getValidatorGroup': {
+					const groupAddress = getAddressParameter(this, 'groupAddress', i);
+					const group = await resolveValidatorGroup(this, groupAddress, i, blockTag);
+					const [info] = await getValidatorGroupInfos(this, [group], i, blockTag);
+					result = info as unknown as IDataObject;
+					break;
+				}
+
+				case 'getVotesForValidatorGroup': {
+					const groupAddress = getAddressParameter(this, 'groupAddress', i);
+					const group = await resolveValidatorGroup(this, groupAddress, i, blockTag);
+					const election = await resolveContractAddress(this, 'Election', i);
+					const [total, active, pending] = await Promise.all(
+						[
+							ABI_FRAGMENTS.election.getTotalVotesForGroup,
+							ABI_FRAGMENTS.election.getActiveVotesForGroup,
+							ABI_FRAGMENTS.election.getPendingVotesForGroup,
+						].map(async (fragment) =>
+							(await readContract(this, election, fragment, [group], i, blockTag))[0] as string,
+						),
+					);
+
+					const votes: VoteInfo = {
+						group: toChecksumAddress(group),
+						active,
+						pending,
+						activeFormatted: formatUnits(active),
+						pendingFormatted: formatUnits(pending),
+					};
+					result = {
+						...votes,
+						total,
+						totalFormatted: formatUnits(total),
+					};
+					break;
+				}
+
+				case 'isValidator': {
+					const address = getAddressParameter(this, 'validatorAddress', i);
+					const validators = await resolveContractAddress(this, 'Validators', i);
+					const [isValidator, isValidatorGroup] = await Promise.all([
+						readContract(this, validators, ABI_FRAGMENTS.validators.isValidator, [address], i, blockTag),
+						readContract(this, validators, ABI_FRAGMENTS.validators.isValidatorGroup, [address], i, blockTag),
+					]);
+
+					result = {
+						address,
+						isValidator: isValidator[0] as boolean,
+						isValidatorGroup: isValidatorGroup[0] as boolean,
+					};
+					break;
+				}
+
+				case 'getValidatorRewards': {
+					const address = getAddressParameter(this, 'validatorAddress', i);
+					const epochCount = this.getNodeParameter('epochCount', i, 7) as number;
+					const currentBlock = Number(fromHex(await getBlockNumber(this, i)));
+					const firstEpoch = Math.max(calculateEpochFromBlock(currentBlock) - epochCount + 1, 0);
+
+					// Validators emits one payment event per validator at the end of each epoch
+					const logs = await getLogsInWindows(
+						this,
+						getEpochBoundaries(firstEpoch).firstBlock,
+						currentBlock,
+						{
+							address: await resolveContractAddress(this, 'Validators', i),
+							topics: [
+								getEventTopic('ValidatorEpochPaymentDistributed(address,uint256,address,uint256)'),
+								'0x' + address.slice(2).toLowerCase().padStart(64, '0'),
+							],
+						},
+						i,
+					) as Array<{ blockNumber: string; data: string; topics: string[] }>;
+
+					const rewards = await mapInPages(logs, async (log) => {
+						const [validatorPayment, groupPayment] = decodeAbiParameters(['uint256', 'uint256'], log.data) as string[];
+						const block = await getBlock(this, log.blockNumber, false, i) as IDataObject;
+						const reward: StakingReward = {
+							epoch: calculateEpochFromBlock(log.blockNumber),
+							group: decodeAddress(log.topics[2]),
+							amount: validatorPayment,
+							amountFormatted: formatUnits(validatorPayment),
+							timestamp: Number(fromHex(block.timestamp as string)),
+						};
+						return {
+							validator: address,
+							...reward,
+							groupAmount: groupPayment,
+							groupAmountFormatted: formatUnits(groupPayment),
+						};
+					});
+
+					for (const reward of rewards) {
+						returnData[i].push({
+							json: reward,
+							pairedItem: { item: i },
+						});
+					}
+					return;
+				}
+
+				default:
+					throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`);
+			}
+
+			returnData[i].push({
+				json: result,
+				pairedItem: { item: i },
+			});
+		} catch (error: any) {
+			if (this.continueOnFail()) {
+				returnData[i].push({
+					json: { error: error.message },
+					pairedItem: { item: i },
+				});
+			} else {
+				throw error;
+			}
+		}
+	});
+
+	return returnData.flat();
+}
+
+async function executeGovernanceOperations(
+	this: IExecuteFunctions,
+	items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+	const returnData: INodeExecutionData[][] = items.map(() => []);
+	const operation = this.getNodeParameter('operation', 0) as string;
+	const credentials = await this.getCredentials('celoApi') as CeloCredentials;
+
+	await forEachItem(this, items, !TRANSACTION_OPERATIONS.has(operation), async (i) => {
+		try {
+			const governance = await resolveContractAddress(this, 'Governance', i);
+			const blockTag = toBlockTag(this.getNodeParameter('blockNumber', i, 'latest') as string);
+			let result: IDataObject;
+
+			switch (operation) {
+				case 'getProposals': {
+					const [queue, dequeue, timings] = await Promise.all([
+						readContract(this, governance, ABI_FRAGMENTS.governance.getQueue, [], i, blockTag),
+						readContract(this, governance, ABI_FRAGMENTS.governance.getDequeue, [], i, blockTag),
+						getGovernanceTimings(this, i, blockTag),
+					]);
+
+					// Executed and expired proposals leave a zero in their dequeue slot
+					const proposalIds = [
+						...(queue.proposalIds as string[]),
+						...(dequeue[0] as string[]).filter((id) => id !== '0'),
+					];
+					const proposals = await mapInPages(proposalIds, (proposalId) =>
+						getProposalInfo(this, proposalId, timings, i, blockTag),
+					);
+
+					for (const proposal of proposals) {
+						returnData[i].push({
+							json: proposal as unknown as IDataObject,
+							pairedItem: { item: i },
+						});
+					}
+					return;
+				}
+
+				case 'getProposal': {
+					const proposalId = getProposalIdParameter(this, i);
+					const timings = await getGovernanceTimings(this, i, blockTag);
+					const proposal = await getProposalInfo(this, proposalId, timings, i, blockTag);
+
+					if (proposal.stage === 'None') {
+						throw new NodeOperationError(this.getNode(), `Proposal ${proposalId} does not exist`, { itemIndex: i });
+					}
+					result = proposal as unknown as IDataObject;
+					break;
+				}
+
+				case 'getVotes': {
+					const proposalId = getProposalIdParameter(this, i);
+					const votes = await readContract(
+						this,
+						governance,
+						ABI_FRAGMENTS.governance.getVoteTotals,
+						[proposalId],
+						i,
+						blockTag,
+					);
+
+					result = {
+						proposalId,
+						yes: votes.yes as string,
+						no: votes.no as string,
+						abstain: votes.abstain as string,
+						yesFormatted: formatUnits(votes.yes as string),
+						noFormatted: formatUnits(votes.no as string),
+						abstainFormatted: formatUnits(votes.abstain as string),
+					};
+					break;
+				}
+
+				case 'isVoting': {
+					const address = getAddressParameter(this, 'address', i);
+					const isVoting = await readContract(
+						this,
+						governance,
+						ABI_FRAGMENTS.governance.isVoting,
+						[address],
+						i,
+						blockTag,
+					);
+
+					result = {
+						address,
+						isVoting: isVoting[0] as boolean,
+					};
+					break;
+				}
+
+				case 'getVoteRecord': {
+					const address = getAddressParameter(this, 'address', i);
+					const proposalId = getProposalIdParameter(this, i);
+					const index = await getDequeueIndex(this, proposalId, i, blockTag);
+					const [record, proposal] = await Promise.all([
+						readContract(
+							this,
+							governance,
+							ABI_FRAGMENTS.governance.getVoteRecord,
+							[address, index],
+							i,
+							blockTag,
+						),
+						readContract(this, governance, ABI_FRAGMENTS.governance.getProposal, [proposalId], i, blockTag),
+					]);
+
+					// A record left over from an earlier proposal in the same slot is not a vote on this one
+					const voted = record.proposalId === proposalId;
+					const voteRecord: VoteRecord = {
+						proposalId,
+						yesVotes: voted ? record.yesVotes as string : '0',
+						noVotes: voted ? record.noVotes as string : '0',
+						abstainVotes: voted ? record.abstainVotes as string : '0',
+						timestamp: Number(proposal.timestamp),
+					};
+					result = {
+						account: address,
+						...voteRecord,
+						value: VOTE_VALUES[voted ? Number(record.value) : 0],
+					};
+					break;
+				}
+
+				case 'getQueue': {
+					const queue = await readContract(this, governance, ABI_FRAGMENTS.governance.getQueue, [], i, blockTag);
+					const upvotes = queue.upvotes as string[];
+
+					(queue.proposalIds as string[]).forEach((proposalId, index) => {
+						returnData[i].push({
+							json: {
+								proposalId,
+								upvotes: upvotes[index],
+								upvotesFormatted: formatUnits(upvotes[index]),
+							},
+							pairedItem: { item: i },
+						});
+					});
+					return;
+				}
+
+				case 'vote': {
+					const proposalId = getProposalIdParameter(this, i);
+					const value = Number(this.getNodeParameter('vote', i));
+					const index = await getDequeueIndex(this, proposalId, i);
+					const data = encodeFunctionCallData(ABI_FRAGMENTS.governance.vote, [proposalId, index, value]);
+					const transactionHash = await signAndSendTransaction(this, { to: governance, data }, i);
+
+					result = {
+						transactionHash,
+						proposalId,
+						index,
+						vote: VOTE_VALUES[value],
+					};
+					break;
+				}
+
+				case 'upvote': {
+					const proposalId = getProposalIdParameter(this, i);
+					const signer = getSignerAddress(this, credentials, i);
+					const [queue, lockedGold] = await Promise.all([
+						readContract(this, governance, ABI_FRAGMENTS.governance.getQueue, [], i),
+						readContract(
+							this,
+							await resolveContractAddress(this, 'LockedGold', i),
+							ABI_FRAGMENTS.lockedGold.getAccountTotalLockedGold,
+							[signer],
+							i,
+						),
+					]);
+
+					const upvotes = queue.upvotes as string[];
+					const entries = (queue.proposalIds as string[]).map((id, index) => ({
+						id,
+						upvotes: BigInt(upvotes[index]),
+					}));
+					const entry = entries.find(({ id }) => id === proposalId);
+					if (!entry) {
+						throw new NodeOperationError(this.getNode(), `Proposal ${proposalId} is not queued`, { itemIndex: i });
+					}
+
+					// The queue is sorted by upvotes, so pass the neighbours the proposal will have after this upvote
+					entry.upvotes += BigInt(lockedGold[0] as string);
+					entries.sort((a, b) => (a.upvotes < b.upvotes ? -1 : a.upvotes > b.upvotes ? 1 : 0));
+					const position = entries.indexOf(entry);
+					const lesser = position > 0 ? entries[position - 1].id : '0';
+					const greater = position < entries.length - 1 ? entries[position + 1].id : '0';
+
+					const data = encodeFunctionCallData(ABI_FRAGMENTS.governance.upvote, [proposalId, lesser, greater]);
+					const transactionHash = await signAndSendTransaction(this, { to: governance, data }, i);
+
+					result = {
+						transactionHash,
+						proposalId,
+						upvotes: entry.upvotes.toString(),
+						upvotesFormatted: formatUnits(entry.upvotes.toString()),
+					};
+					break;
+				}
+
+				case 'propose': {
+					const values = getJsonArrayParameter(this, 'values', i).map(String);
+					const destinations = getJsonArrayParameter(this, 'destinations', i).map((destination) => {
+						try {
+							return getAddress(String(destination));
+						} catch (error: any) {
+							throw new NodeOperationError(this.getNode(), error.message, { itemIndex: i });
+						}
+					});
+					const calldata = getJsonArrayParameter(this, 'data', i).map((value) => {
+						const hex = String(value);
+						if (!isHex(hex) || hex.length % 2 !== 0) {
+							throw new NodeOperationError(this.getNode(), `Invalid calldata: ${hex}`, { itemIndex: i });
+						}
+						return hex.slice(2);
+					});
+					const descriptionUrl = this.getNodeParameter('descriptionURL', i) as string;
+
+					if (values.length !== destinations.length || values.length !== calldata.length) {
+						throw new NodeOperationError(
+							this.getNode(),
+							'Values, Destinations and Data must have one entry per proposal transaction',
+							{ itemIndex: i },
+						);
+					}
+
+					// Transaction calldata is passed concatenated, alongside the byte length of each part
+					const data = encodeFunctionCallData(ABI_FRAGMENTS.governance.propose, [
+						values,
+						destinations,
+						'0x' + calldata.join(''),
+						calldata.map((hex) => hex.length / 2),
+						descriptionUrl,
+					]);
+					const { 0: minDeposit } = await readContract(this, governance, ABI_FRAGMENTS.governance.minDeposit, [], i);
+					const transactionHash = await signAndSendTransaction(
+						this,
+						{ to: governance, data, value: toHex(minDeposit as string) },
+						i,
+					);
+
+					result = {
+						transactionHash,
+						transactionCount: values.length,
+						descriptionUrl,
+						deposit: minDeposit as string,
+						depositFormatted: formatUnits(minDeposit as string),
+					};
+					break;
+				}
+
+				case 'execute': {
+					const proposalId = getProposalIdParameter(this, i);
+					const index = await getDequeueIndex(this, proposalId, i);
+					const data = encodeFunctionCallData(ABI_FRAGMENTS.governance.execute, [proposalId, index]);
+					const transactionHash = await signAndSendTransaction(this, { to: governance, data }, i);
+
+					result = {
+						transactionHash,
+						proposalId,
+						index,
+					};
+					break;
+				}
+
+				default:
+					throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`);
+			}
+
+			returnData[i].push({
+				json: result,
+				pairedItem: { item: i },
+			});
+		} catch (error: any) {
+			if (this.continueOnFail()) {
+				returnData[i].push({
+					json: { error: error.message },
+					pairedItem: { item: i },
+				});
+			} else {
+				throw error;
+			}
+		}
+	});
+
+	return returnData.flat();
+}
+
+async function executeStableCoinOperations(
+	this: IExecuteFunctions,
+	items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+	const returnData: INodeExecutionData[][] = items.map(() => []);
+	const operation = this.getNodeParameter('operation', 0) as string;
+	const credentials = await this.getCredentials('celoApi') as CeloCredentials;
+
+	await forEachItem(this, items, !TRANSACTION_OPERATIONS.has(operation), async (i) => {
+		try {
+			const symbol = this.getNodeParameter('stablecoin', i, 'cUSD') as StablecoinSymbol;
+			const { name, decimals } = STABLECOINS[symbol];
+			const token = await resolveContractAddress(this, STABLECOINS[symbol].registryId, i);
+			const celo = await resolveContractAddress(this, 'GoldToken', i);
+			const blockTag = toBlockTag(this.getNodeParameter('blockNumber', i, 'latest') as string);
+			let result: IDataObject;
+
+			switch (operation) {
+				case 'getStableCoinBalance': {
+					const address = getAddressParameter(this, 'address', i);
+					const { 0: balance } = await readContract(this, token, ABI_FRAGMENTS.erc20.balanceOf, [address], i, blockTag);
+
+					result = {
+						address,
+						token: symbol,
+						tokenAddress: token,
+						decimals,
+						balance: balance as string,
+						balanceFormatted: formatUnits(balance as string, decimals),
+					};
+					break;
+				}
+
+				case 'getStableCoinSupply': {
+					const { 0: totalSupply } = await readContract(this, token, ABI_FRAGMENTS.erc20.totalSupply, [], i, blockTag);
+
+					const tokenInfo: TokenInfo = {
+						address: token,
+						name,
+						symbol,
+						decimals,
+						totalSupply: totalSupply as string,
+						totalSupplyFormatted: formatUnits(totalSupply as string, decimals),
+					};
+					result = tokenInfo as unknown as IDataObject;
+					break;
+				}
+
+				case 'transferStableCoin': {
+					const to = getAddressParameter(this, 'to', i);
+					const amount = parseUnits(this.getNodeParameter('amount', i) as string, decimals);
+					const data = encodeFunctionCallData(ABI_FRAGMENTS.erc20.transfer, [to, amount]);
+					const transactionHash = await signAndSendTransaction(this, { to: token, data }, i);
+
+					result = {
+						transactionHash,
+						from: getSignerAddress(this, credentials, i),
+						to,
+						token: symbol,
+						tokenAddress: token,
+						amount,
+						amountFormatted: formatUnits(amount, decimals),
+					};
+					break;
+				}
+
+				// Stable tokens can only be minted and burned by Mento itself, so
+				// minting buys the stablecoin with CELO and burning sells it for CELO
+				case 'mintStableCoin':
+				case 'burnStableCoin': {
+					const minting = operation === 'mintStableCoin';
+					const [tokenIn, tokenOut] = minting ? [celo, token] : [token, celo];
+					const [decimalsIn, decimalsOut] = minting ? [18, decimals] : [decimals, 18];
+					const amountIn = parseUnits(this.getNodeParameter('amount', i) as string, decimalsIn);
+					const maxSlippage = this.getNodeParameter('maxSlippage', i, 1) as number;
+					const swap = await swapWithMento(this, tokenIn, tokenOut, amountIn, maxSlippage, i);
+
+					result = {
+						...swap,
+						token: symbol,
+						amountInFormatted: formatUnits(amountIn, decimalsIn),
+						expectedAmountOutFormatted: formatUnits(swap.expectedAmountOut as string, decimalsOut),
+						minAmountOutFormatted: formatUnits(swap.minAmountOut as string, decimalsOut),
+					};
+					break;
+				}
+
+				case 'getExchangeRate': {
+					const exchange = await findMentoExchange(this, celo, token, i, blockTag);
+					const [celoToStable, stableToCelo, spread, block] = await Promise.all([
+						getMentoAmountOut(this, exchange, celo, token, parseUnits('1'), i, blockTag),
+						getMentoAmountOut(this, exchange, token, celo, parseUnits('1', decimals), i, blockTag),
+						getMentoSpread(this, exchange, i, blockTag),
+						getBlock(this, blockTag, false, i) as Promise<IDataObject>,
+					]);
+
+					const rate: ExchangeRate = {
+						pair: `CELO/${symbol}`,
+						rate: formatUnits(celoToStable, decimals),
+						inverse: formatUnits(stableToCelo),
+						spread: formatFixidity(spread),
+						timestamp: Number(fromHex(block.timestamp as string)),
+					};
+					result = {
+						...rate,
+						exchangeProvider: exchange.exchangeProvider,
+						exchangeId: exchange.exchangeId,
+					};
+					break;
+				}
+
+				default:
+					throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`);
+			}
+
+			returnData[i].push({
+				json: result,
+				pairedItem: { item: i },
+			});
+		} catch (error: any) {
+			if (this.continueOnFail()) {
+				returnData[i].push({
+					json: { error: error.message },
+					pairedItem: { item: i },
+				});
+			} else {
+				throw error;
+			}
+		}
+	});
+
+	return returnData.flat();
+}
+
+async function executeStableTokensOperations(
+	this: IExecuteFunctions,
+	items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+	const returnData: INodeExecutionData[][] = items.map(() => []);
+	const operation = this.getNodeParameter('operation', 0) as string;
+	const credentials = await this.getCredentials('celoApi') as CeloCredentials;
+
+	await forEachItem(this, items, !TRANSACTION_OPERATIONS.has(operation), async (i) => {
+		try {
+			const token = getAddressParameter(this, 'tokenAddress', i);
+			let result: IDataObject;
+
+			switch (operation) {
+				case 'transfer':
+				case 'approve': {
+					const recipient = getAddressParameter(this, operation === 'transfer' ? 'to' : 'spender', i);
+					const decimals = await getTokenDecimals(this, token, i);
+					const value = parseUnits(this.getNodeParameter('value', i) as string, decimals);
+					const gasLimit = this.getNodeParameter('gasLimit', i, 0) as number;
+					const gasPrice = this.getNodeParameter('gasPrice', i, '') as string;
+
+					const data = encodeFunctionCallData(ABI_FRAGMENTS.erc20[operation], [recipient, value]);
+					const transactionHash = await signAndSendTransaction(
+						this,
+						{
+							to: token,
+							data,
+							gas: gasLimit ? String(gasLimit) : undefined,
+							gasPrice: gasPrice || undefined,
+						},
+						i,
+					);
+
+					result = {
+						transactionHash,
+						token,
+						from: getSignerAddress(this, credentials, i),
+						[operation === 'transfer' ? 'to' : 'spender']: recipient,
+						value,
+						valueFormatted: formatUnits(value, decimals),
+						decimals,
+					};
+					break;
+				}
+
+				case 'allowance': {
+					const owner = getAddressParameter(this, 'owner', i);
+					const spender = getAddressParameter(this, 'spender', i);
+					const { amount: allowance, decimals } = await readTokenAmount(
+						this,
+						token,
+						ABI_FRAGMENTS.erc20.allowance,
+						[owner, spender],
+						i,
+					);
+
+					result = {
+						token,
+						owner,
+						spender,
+						allowance,
+						allowanceFormatted: formatUnits(allowance, decimals),
+						decimals,
+					};
+					break;
+				}
+
+				case 'balanceOf': {
+					const address = getAddressParameter(this, 'address', i);
+					const { amount: balance, decimals } = await readTokenAmount(
+						this,
+						token,
+						ABI_FRAGMENTS.erc20.balanceOf,
+						[address],
+						i,
+					);
+
+					result = {
+						token,
+						address,
+						balance,
+						balanceFormatted: formatUnits(balance, decimals),
+						decimals,
+					};
+					break;
+				}
+
+				case 'totalSupply': {
+					const { amount: totalSupply, decimals } = await readTokenAmount(
+						this,
+						token,
+						ABI_FRAGMENTS.erc20.totalSupply,
+						[],
+						i,
+					);
+
+					result = {
+						token,
+						totalSupply,
+						totalSupplyFormatted: formatUnits(totalSupply, decimals),
+						decimals,
+					};
+					break;
+				}
+
+				case 'getTokenInfo':
+					result = await getTokenInfo(this, token, i) as unknown as IDataObject;
+					break;
+
+				default:
+					throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`);
+			}
+
+			returnData[i].push({
+				json: result,
+				pairedItem: { item: i },
+			});
+		} catch (error: any) {
+			if (this.continueOnFail()) {
+				returnData[i].push({
+					json: { error: error.message },
+					pairedItem: { item: i },
+				});
+			} else {
+				throw error;
+			}
+		}
+	});
+
+	return returnData.flat();
+}
+
+async function executeValidatorStakingOperations(
+	this: IExecuteFunctions,
+	items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+	const returnData: INodeExecutionData[][] = items.map(() => []);
 	const operation = this.getNodeParameter('operation', 0) as string;
-	const credentials = await this.getCredentials('celoApi') as any;
+	const credentials = await this.getCredentials('celoApi') as CeloCredentials;
 
-	for (let i = 0; i < items.length; i++) {
+	await forEachItem(this, items, !TRANSACTION_OPERATIONS.has(operation), async (i) => {
 		try {
-			let result: any;
-			const baseUrl = credentials.baseUrl || 'https://forno.celo.org';
-			
-			const headers: any = {
-				'Content-Type': 'application/json',
-			};
-
-			if (credentials.apiKey) {
-				headers['Authorization'] = `Bearer ${credentials.apiKey}`;
-			}
+			const election = await resolveContractAddress(this, 'Election', i);
+			const lockedGold = await resolveContractAddress(this, 'LockedGold', i);
+			let result: IDataObject;
 
 			switch (operation) {
-				case 'getBalance': {
-					const address = this.getNodeParameter('address', i) as string;
-					const blockNumber = this.getNodeParameter('blockNumber', i) as string;
-					const customBlockNumber = this.getNodeParameter('customBlockNumber', i, '') as string;
-					
-					const blockParam = blockNumber === 'custom' ? customBlockNumber : blockNumber;
-
-					const requestBody = {
-						jsonrpc: '2.0',
-						method: 'eth_getBalance',
-						params: [address, blockParam],
-						id: 1,
+				case 'vote': {
+					const group = getAddressParameter(this, 'group', i);
+					const value = parseUnits(this.getNodeParameter('value', i) as string);
+					const neighbours = await getGroupNeighbours(this, group, BigInt(value), i);
+					if (!neighbours) {
+						throw new NodeOperationError(this.getNode(), `${group} is not an eligible validator group`, { itemIndex: i });
+					}
+					const { lesser, greater } = neighbours;
+					const transactionHash = await sendElectionTransaction(
+						this,
+						ABI_FRAGMENTS.election.vote,
+						[group, value, lesser, greater],
+						i,
+					);
+
+					result = {
+						transactionHash,
+						group,
+						value,
+						valueFormatted: formatUnits(value),
+						lesser,
+						greater,
 					};
+					break;
+				}
 
-					const options: any = {
-						method: 'POST',
-						url: baseUrl,
-						headers,
-						body: requestBody,
-						json: true,
+				case 'activate': {
+					const group = getAddressParameter(this, 'group', i);
+					const transactionHash = await sendElectionTransaction(this, ABI_FRAGMENTS.election.activate, [group], i);
+
+					result = {
+						transactionHash,
+						group,
 					};
+					break;
+				}
+
+				case 'revoke': {
+					const group = getAddressParameter(this, 'group', i);
+					const value = BigInt(parseUnits(this.getNodeParameter('value', i) as string));
+					const account = getSignerAddress(this, credentials, i);
+					const [groupsVotedFor, pendingVotes, activeVotes] = await Promise.all([
+						readContract(this, election, ABI_FRAGMENTS.election.getGroupsVotedForByAccount, [account], i),
+						readContract(this, election, ABI_FRAGMENTS.election.getPendingVotesForGroupByAccount, [group, account], i),
+						readContract(this, election, ABI_FRAGMENTS.election.getActiveVotesForGroupByAccount, [group, account], i),
+					]);
+					const pending = BigInt(pendingVotes[0] as string);
+					const active = BigInt(activeVotes[0] as string);
+					const index = (groupsVotedFor[0] as string[]).findIndex((address) => address.toLowerCase() === group.toLowerCase());
+
+					if (index === -1 || value > pending + active) {
+						throw new NodeOperationError(
+							this.getNode(),
+							`Cannot revoke ${formatUnits(value)} CELO: ${account} has ${formatUnits(pending + active)} CELO of votes for ${group}`,
+							{ itemIndex: i },
+						);
+					}
+
+					// Pending votes are revoked before active ones. The group's index among
+					// the account's groups only changes once all of its votes are revoked.
+					const revokePending = value < pending ? value : pending;
+					const revokeActive = value - revokePending;
+					const transactionHashes: string[] = [];
 
-					result = await this.helpers.httpRequest(options) as any;
+					if (revokePending > BigInt(0)) {
+						const { lesser, greater } = await getGroupNeighbours(this, group, -revokePending, i) ?? NO_NEIGHBOURS;
+						const transactionHash = await sendElectionTransaction(
+							this,
+							ABI_FRAGMENTS.election.revokePending,
+							[group, revokePending.toString(), lesser, greater, index],
+							i,
+						);
+						transactionHashes.push(transactionHash);
+						if (revokeActive > BigInt(0)) {
+							await waitForTransactionReceipt(this, transactionHash, i);
+						}
+					}
+					if (revokeActive > BigInt(0)) {
+						const { lesser, greater } = await getGroupNeighbours(this, group, -revokeActive, i) ?? NO_NEIGHBOURS;
+						transactionHashes.push(await sendElectionTransaction(
+							this,
+							ABI_FRAGMENTS.election.revokeActive,
+							[group, revokeActive.toString(), lesser, greater, index],
+							i,
+						));
+					}
+
+					result = {
+						transactionHashes,
+						group,
+						pendingRevoked: revokePending.toString(),
+						activeRevoked: revokeActive.toString(),
+						value: value.toString(),
+						valueFormatted: formatUnits(value),
+					};
 					break;
 				}
 
-				case 'getTransactionCount': {
-					const address = this.getNodeParameter('address', i) as string;
-					const blockNumber = this.getNodeParameter('blockNumber', i) as string;
-					const customBlockNumber = this.getNodeParameter('customBlockNumber', i, '') as string;
-					
-					const blockParam = blockNumber === 'custom' ? customBlockNumber : blockNumber;
-
-					const requestBody = {
-						jsonrpc: '2.0',
-						method: 'eth_getTransactionCount',
-						params: [address, blockParam],
-						id: 1,
+				case 'getVotesForGroup': {
+					const group = getAddressParameter(this, 'group', i);
+					const voter = getAddressParameter(this, 'voter', i);
+					const [active, pending] = await Promise.all(
+						[
+							ABI_FRAGMENTS.election.getActiveVotesForGroupByAccount,
+							ABI_FRAGMENTS.election.getPendingVotesForGroupByAccount,
+						].map(async (fragment) =>
+							(await readContract(this, election, fragment, [group, voter], i))[0] as string,
+						),
+					);
+
+					const votes: VoteInfo = {
+						group,
+						active,
+						pending,
+						activeFormatted: formatUnits(active),
+						pendingFormatted: formatUnits(pending),
+					};
+					result = {
+						voter,
+						...votes,
 					};
+					break;
+				}
+
+				case 'getElectedValidators': {
+					const { 0: signers } = await readContract(this, election, ABI_FRAGMENTS.election.electValidatorSigners, [], i);
+
+					(signers as string[]).forEach((signer, index) => {
+						returnData[i].push({
+							json: { index, signer },
+							pairedItem: { item: i },
+						});
+					});
+					return;
+				}
+
+				case 'getValidatorGroups': {
+					const [registered, eligible] = await Promise.all([
+						readContract(
+							this,
+							await resolveContractAddress(this, 'Validators', i),
+							ABI_FRAGMENTS.validators.getRegisteredValidatorGroups,
+							[],
+							i,
+						),
+						readContract(this, election, ABI_FRAGMENTS.election.getTotalVotesForEligibleValidatorGroups, [], i),
+					]);
+					const eligibleVotes = new Map<string, string>();
+					(eligible.groups as string[]).forEach((group, index) => {
+						eligibleVotes.set(group.toLowerCase(), (eligible.values as string[])[index]);
+					});
 
-					const options: any = {
-						method: 'POST',
-						url: baseUrl,
-						headers,
-						body: requestBody,
-						json: true,
+					const groups = await getValidatorGroupInfos(this, registered[0] as string[], i, 'latest');
+					for (const group of groups) {
+						const votes = eligibleVotes.get(group.address.toLowerCase()) ?? '0';
+						returnData[i].push({
+							json: {
+								...group,
+								eligible: eligibleVotes.has(group.address.toLowerCase()),
+								votes,
+								votesFormatted: formatUnits(votes),
+							},
+							pairedItem: { item: i },
+						});
+					}
+					return;
+				}
+
+				case 'lock': {
+					const value = parseUnits(this.getNodeParameter('value', i) as string);
+					const data = encodeFunctionCallData(ABI_FRAGMENTS.lockedGold.lock, []);
+					const transactionHash = await signAndSendTransaction(this, { to: lockedGold, data, value: toHex(value) }, i);
+
+					result = {
+						transactionHash,
+						value,
+						valueFormatted: formatUnits(value),
 					};
+					break;
+				}
+
+				case 'unlock': {
+					const value = parseUnits(this.getNodeParameter('value', i) as string);
+					const data = encodeFunctionCallData(ABI_FRAGMENTS.lockedGold.unlock, [value]);
+					const transactionHash = await signAndSendTransaction(this, { to: lockedGold, data }, i);
 
-					result = await this.helpers.httpRequest(options) as any;
+					result = {
+						transactionHash,
+						value,
+						valueFormatted: formatUnits(value),
+					};
 					break;
 				}
 
-				case 'getCode': {
-					const address = this.getNodeParameter('address', i) as string;
-					const blockNumber = this.getNodeParameter('blockNumber', i) as string;
-					const customBlockNumber = this.getNodeParameter('customBlockNumber', i, '') as string;
-					
-					const blockParam = blockNumber === 'custom' ? customBlockNumber : blockNumber;
-
-					const requestBody = {
-						jsonrpc: '2.0',
-						method: 'eth_getCode',
-						params: [address, blockParam],
-						id: 1,
+				case 'withdraw': {
+					const account = getSignerAddress(this, credentials, i);
+					const [{ pendingWithdrawals }, block] = await Promise.all([
+						getLockedBalance(this, account, i, 'latest'),
+						getBlock(this, 'latest', false, i) as Promise<IDataObject>,
+					]);
+					const now = Number(fromHex(block.timestamp as string));
+
+					// Withdrawing swaps the last entry into the withdrawn slot, so matured
+					// entries are withdrawn from the highest index down
+					const matured = pendingWithdrawals
+						.map((withdrawal, index) => ({ withdrawal, index }))
+						.filter(({ withdrawal }) => withdrawal.timestamp <= now)
+						.reverse();
+					const transactionHashes: string[] = [];
+					let total = BigInt(0);
+
+					for (const { withdrawal, index } of matured) {
+						const data = encodeFunctionCallData(ABI_FRAGMENTS.lockedGold.withdraw, [index]);
+						const transactionHash = await signAndSendTransaction(this, { to: lockedGold, data }, i);
+						await waitForTransactionReceipt(this, transactionHash, i);
+						transactionHashes.push(transactionHash);
+						total += BigInt(withdrawal.value);
+					}
+
+					result = {
+						account,
+						transactionHashes,
+						withdrawn: matured.map(({ withdrawal }) => withdrawal) as unknown as IDataObject[],
+						total: total.toString(),
+						totalFormatted: formatUnits(total),
+						stillPending: pendingWithdrawals.length - matured.length,
+					};
+					break;
+				}
+
+				default:
+					throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`);
+			}
+
+			returnData[i].push({
+				json: result,
+				pairedItem: { item: i },
+			});
+		} catch (error: any) {
+			if (this.continueOnFail()) {
+				returnData[i].push({
+					json: { error: error.message },
+					pairedItem: { item: i },
+				});
+			} else {
+				throw error;
+			}
+		}
+	});
+
+	return returnData.flat();
+}
+
+async function executeExchangeOperations(
+	this: IExecuteFunctions,
+	items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+	const returnData: INodeExecutionData[][] = items.map(() => []);
+	const operation = this.getNodeParameter('operation', 0) as string;
+
+	await forEachItem(this, items, !TRANSACTION_OPERATIONS.has(operation), async (i) => {
+		try {
+			let result: IDataObject;
+
+			switch (operation) {
+				case 'exchange': {
+					const { sellSymbol, buySymbol, sell, buy } = await getMentoPair(this, i);
+					const sellAmount = parseUnits(this.getNodeParameter('sellAmount', i) as string, sell.decimals);
+					const maxSlippage = this.getNodeParameter('maxSlippage', i, 1) as number;
+					const swap = await swapWithMento(this, sell.address, buy.address, sellAmount, maxSlippage, i);
+
+					result = {
+						...swap,
+						sellToken: sellSymbol,
+						buyToken: buySymbol,
+						amountInFormatted: formatUnits(sellAmount, sell.decimals),
+						expectedAmountOutFormatted: formatUnits(swap.expectedAmountOut as string, buy.decimals),
+						minAmountOutFormatted: formatUnits(swap.minAmountOut as string, buy.decimals),
+						maxSlippage,
 					};
+					break;
+				}
+
+				case 'getExchangeRate':
+				case 'getBuyTokenAmount': {
+					const sellAmountText = this.getNodeParameter('sellAmount', i) as string;
+					// The Broker reverts on zero amounts, so reject them before any request
+					if (operation === 'getExchangeRate' && Number(sellAmountText) === 0) {
+						throw new NodeOperationError(this.getNode(), 'Cannot quote a rate for a zero amount', { itemIndex: i });
+					}
+
+					const { sellSymbol, buySymbol, sell, buy } = await getMentoPair(this, i);
+					const sellAmount = parseUnits(sellAmountText, sell.decimals);
+					const exchange = await findMentoExchange(this, sell.address, buy.address, i);
+					const buyAmount = await getMentoAmountOut(this, exchange, sell.address, buy.address, sellAmount, i);
 
-					const options: any = {
-						method: 'POST',
-						url: baseUrl,
-						headers,
-						body: requestBody,
-						json: true,
+					if (operation === 'getBuyTokenAmount') {
+						result = {
+							sellToken: sellSymbol,
+							buyToken: buySymbol,
+							sellAmount,
+							sellAmountFormatted: formatUnits(sellAmount, sell.decimals),
+							buyAmount,
+							buyAmountFormatted: formatUnits(buyAmount, buy.decimals),
+						};
+						break;
+					}
+
+					// Quoted for the given amount, so the rate includes the spread and price impact
+					const [spread, block] = await Promise.all([
+						getMentoSpread(this, exchange, i),
+						getBlock(this, 'latest', false, i) as Promise<IDataObject>,
+					]);
+					if (BigInt(buyAmount) === BigInt(0)) {
+						throw new NodeOperationError(this.getNode(), 'Cannot quote a rate for a zero amount', { itemIndex: i });
+					}
+					const rate: ExchangeRate = {
+						pair: `${sellSymbol}/${buySymbol}`,
+						rate: formatMentoRate(buyAmount, buy.decimals, sellAmount, sell.decimals),
+						inverse: formatMentoRate(sellAmount, sell.decimals, buyAmount, buy.decimals),
+						spread: formatFixidity(spread),
+						timestamp: Number(fromHex(block.timestamp as string)),
 					};
+					result = rate as unknown as IDataObject;
+					break;
+				}
+
+				case 'getSellTokenAmount': {
+					const { sellSymbol, buySymbol, sell, buy } = await getMentoPair(this, i);
+					const buyAmount = parseUnits(this.getNodeParameter('buyAmount', i) as string, buy.decimals);
+					const exchange = await findMentoExchange(this, sell.address, buy.address, i);
+					const { amountIn } = await readContract(
+						this,
+						await resolveContractAddress(this, 'Broker', i),
+						ABI_FRAGMENTS.broker.getAmountIn,
+						[exchange.exchangeProvider, exchange.exchangeId, sell.address, buy.address, buyAmount],
+						i,
+					);
 
-					result = await this.helpers.httpRequest(options) as any;
+					result = {
+						sellToken: sellSymbol,
+						buyToken: buySymbol,
+						sellAmount: amountIn as string,
+						sellAmountFormatted: formatUnits(amountIn as string, sell.decimals),
+						buyAmount,
+						buyAmountFormatted: formatUnits(buyAmount, buy.decimals),
+					};
 					break;
 				}
 
-				case 'listAccounts': {
-					const requestBody = {
-						jsonrpc: '2.0',
-						method: 'eth_accounts',
-						params: [],
-						id: 1,
+				case 'getReserves': {
+					const { sellSymbol, buySymbol, sell, buy } = await getMentoPair(this, i);
+					const exchange = await findMentoExchange(this, sell.address, buy.address, i);
+					const pool = await readContract(
+						this,
+						exchange.exchangeProvider,
+						ABI_FRAGMENTS.exchangeProvider.getPoolExchange,
+						[exchange.exchangeId],
+						i,
+					);
+					const { asset0, bucket0, bucket1, lastBucketUpdate } = pool.exchange as Record<string, string>;
+
+					// Buckets are listed in the pool's own asset order
+					const [sellBucket, buyBucket] = asset0.toLowerCase() === sell.address.toLowerCase()
+						? [bucket0, bucket1]
+						: [bucket1, bucket0];
+					result = {
+						exchangeProvider: exchange.exchangeProvider,
+						exchangeId: exchange.exchangeId,
+						sellToken: sellSymbol,
+						buyToken: buySymbol,
+						sellTokenBucket: sellBucket,
+						sellTokenBucketFormatted: formatUnits(sellBucket, sell.decimals),
+						buyTokenBucket: buyBucket,
+						buyTokenBucketFormatted: formatUnits(buyBucket, buy.decimals),
+						lastBucketUpdate: Number(lastBucketUpdate),
 					};
+					break;
+				}
+
+				case 'getReserveRatio': {
+					const { 0: ratio } = await readContract(
+						this,
+						await resolveContractAddress(this, 'Reserve', i),
+						ABI_FRAGMENTS.reserve.getReserveRatio,
+						[],
+						i,
+					);
 
-					const options: any = {
-						method: 'POST',
-						url: baseUrl,
-						headers,
-						body: requestBody,
-						json: true,
+					result = {
+						reserveRatio: formatFixidity(ratio),
+						reserveRatioRaw: ratio as string,
 					};
+					break;
+				}
+
+				default:
+					throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`);
+			}
+
+			returnData[i].push({
+				json: result,
+				pairedItem: { item: i },
+			});
+		} catch (error: any) {
+			if (this.continueOnFail()) {
+				returnData[i].push({
+					json: { error: error.message },
+					pairedItem: { item: i },
+				});
+			} else {
+				throw error;
+			}
+		}
+	});
+
+	return returnData.flat();
+}
+
+async function executeIdentityOperations(
+	this: IExecuteFunctions,
+	items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+	const returnData: INodeExecutionData[][] = items.map(() => []);
+	const operation = this.getNodeParameter('operation', 0) as string;
+	const credentials = await this.getCredentials('celoApi') as CeloCredentials;
+
+	await forEachItem(this, items, !TRANSACTION_OPERATIONS.has(operation), async (i) => {
+		try {
+			const federatedAttestations = await resolveContractAddress(this, 'FederatedAttestations', i);
+			let result: IDataObject;
+
+			switch (operation) {
+				case 'lookupAttestations': {
+					const identifier = getIdentifierParameter(this, i);
+					const trustedIssuers = getTrustedIssuers(this, i);
+					const blockTag = toBlockTag(this.getNodeParameter('blockNumber', i, 'latest') as string);
+					const lookup = await readContract(
+						this,
+						federatedAttestations,
+						ABI_FRAGMENTS.federatedAttestations.lookupAttestations,
+						[identifier, trustedIssuers],
+						i,
+						blockTag,
+					);
 
-					result = await this.helpers.httpRequest(options) as any;
+					const accounts = lookup.accounts as string[];
+					const signers = lookup.signers as string[];
+					const issuedOns = lookup.issuedOns as string[];
+					const publishedOns = lookup.publishedOns as string[];
+					const attestations: FederatedAttestation[] = getResultIssuers(
+						trustedIssuers,
+						lookup.countsPerIssuer as string[],
+					).map((issuer, index) => ({
+						issuer,
+						account: accounts[index],
+						signer: signers[index],
+						issuedOn: Number(issuedOns[index]),
+						publishedOn: Number(publishedOns[index]),
+					}));
+
+					result = {
+						identifier,
+						trustedIssuers,
+						attestations: attestations as unknown as IDataObject[],
+					};
 					break;
 				}
 
-				case 'callContract': {
-					const transaction = this.getNodeParameter('transaction', i) as object;
-					const blockNumber = this.getNodeParameter('blockNumber', i) as string;
-					const customBlockNumber = this.getNodeParameter('customBlockNumber', i, '') as string;
-					
-					const blockParam = blockNumber === 'custom' ? customBlockNumber : blockNumber;
-
-					const requestBody = {
-						jsonrpc: '2.0',
-						method: 'eth_call',
-						params: [transaction, blockParam],
-						id: 1,
+				case 'lookupIdentifiers': {
+					const account = getAddressParameter(this, 'account', i);
+					const trustedIssuers = getTrustedIssuers(this, i);
+					const blockTag = toBlockTag(this.getNodeParameter('blockNumber', i, 'latest') as string);
+					const lookup = await readContract(
+						this,
+						federatedAttestations,
+						ABI_FRAGMENTS.federatedAttestations.lookupIdentifiers,
+						[account, trustedIssuers],
+						i,
+						blockTag,
+					);
+
+					const identifiers = lookup.identifiers as string[];
+					result = {
+						account,
+						trustedIssuers,
+						identifiers: getResultIssuers(trustedIssuers, lookup.countsPerIssuer as string[]).map(
+							(issuer, index) => ({ issuer, identifier: identifiers[index] }),
+						),
 					};
+					break;
+				}
+
+				case 'registerAttestationAsIssuer': {
+					const identifier = getIdentifierParameter(this, i);
+					const account = getAddressParameter(this, 'account', i);
+					const issuedOnParameter = this.getNodeParameter('issuedOn', i, '') as string;
+					const issuedOn = issuedOnParameter ? Date.parse(issuedOnParameter) : Date.now();
+					if (isNaN(issuedOn)) {
+						throw new NodeOperationError(this.getNode(), `Invalid Issued On date: ${issuedOnParameter}`, { itemIndex: i });
+					}
 
-					const options: any = {
-						method: 'POST',
-						url: baseUrl,
-						headers,
-						body: requestBody,
-						json: true,
+					// The contract records the sender as the issuer
+					const issuedOnSeconds = Math.floor(issuedOn / 1000);
+					const data = encodeFunctionCallData(ABI_FRAGMENTS.federatedAttestations.registerAttestationAsIssuer, [
+						identifier,
+						account,
+						issuedOnSeconds,
+					]);
+					const transactionHash = await signAndSendTransaction(this, { to: federatedAttestations, data }, i);
+
+					result = {
+						transactionHash,
+						identifier,
+						account,
+						issuer: getSignerAddress(this, credentials, i),
+						issuedOn: issuedOnSeconds,
 					};
+					break;
+				}
+
+				case 'revokeAttestation': {
+					const identifier = getIdentifierParameter(this, i);
+					const account = getAddressParameter(this, 'account', i);
+					const issuer = (this.getNodeParameter('issuer', i, '') as string).trim()
+						? getAddressParameter(this, 'issuer', i)
+						: getSignerAddress(this, credentials, i);
+
+					// Either the issuer, one of its signers or the account itself may revoke
+					const data = encodeFunctionCallData(ABI_FRAGMENTS.federatedAttestations.revokeAttestation, [
+						identifier,
+						issuer,
+						account,
+					]);
+					const transactionHash = await signAndSendTransaction(this, { to: federatedAttestations, data }, i);
+
+					result = { transactionHash, identifier, account, issuer };
+					break;
+				}
 
-					result = await this.helpers.httpRequest(options) as any;
+				case 'getAccountMetadata': {
+					const address = getAddressParameter(this, 'address', i);
+					const blockTag = toBlockTag(this.getNodeParameter('blockNumber', i, 'latest') as string);
+					const { 0: metadataURL } = await readContract(
+						this,
+						await resolveContractAddress(this, 'Accounts', i),
+						ABI_FRAGMENTS.accounts.getMetadataURL,
+						[address],
+						i,
+						blockTag,
+					);
+
+					result = { address, metadataURL: metadataURL as string };
+					break;
+				}
+
+				case 'setAccountMetadata': {
+					const metadataURL = this.getNodeParameter('metadataURL', i) as string;
+					const data = encodeFunctionCallData(ABI_FRAGMENTS.accounts.setMetadataURL, [metadataURL]);
+					const transactionHash = await signAndSendTransaction(
+						this,
+						{ to: await resolveContractAddress(this, 'Accounts', i), data },
+						i,
+					);
+
+					result = { transactionHash, address: getSignerAddress(this, credentials, i), metadataURL };
 					break;
 				}
 
@@ -1950,13 +5397,13 @@ async function executeAccountOperations(
 					throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`);
 			}
 
-			returnData.push({
+			returnData[i].push({
 				json: result,
 				pairedItem: { item: i },
 			});
 		} catch (error: any) {
 			if (this.continueOnFail()) {
-				returnData.push({
+				returnData[i].push({
 					json: { error: error.message },
 					pairedItem: { item: i },
 				});
@@ -1964,52 +5411,220 @@ async function executeAccountOperations(
 				throw error;
 			}
 		}
-	}
+	});
 
-	return returnData;
+	return returnData.flat();
 }
 
-async function executeTransactionOperations(
+async function executeRegistryOperations(
 	this: IExecuteFunctions,
 	items: INodeExecutionData[],
 ): Promise<INodeExecutionData[]> {
-	const returnData: INodeExecutionData[] = [];
+	const returnData: INodeExecutionData[][] = items.map(() => []);
 	const operation = this.getNodeParameter('operation', 0) as string;
-	const credentials = await this.getCredentials('celoApi') as any;
 
-	for (let i = 0; i < items.length; i++) {
+	await forEachItem(this, items, !TRANSACTION_OPERATIONS.has(operation), async (i) => {
 		try {
-			let result: any;
-			
+			if (operation !== 'listContracts') {
+				throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`, { itemIndex: i });
+			}
+
+			const registered = await readRegistry(this, i);
+			for (const [name, address] of registered) {
+				returnData[i].push({
+					json: { name, address },
+					pairedItem: { item: i },
+				});
+			}
+		} catch (error: any) {
+			if (this.continueOnFail()) {
+				returnData[i].push({
+					json: { error: error.message },
+					pairedItem: { item: i },
+				});
+			} else {
+				throw error;
+			}
+		}
+	});
+
+	return returnData.flat();
+}
+
+async function executeSigningOperations(
+	this: IExecuteFunctions,
+	items: INodeExecutionData[],
+): Promise<INodeExecutionData[]> {
+	const returnData: INodeExecutionData[][] = items.map(() => []);
+	const operation = this.getNodeParameter('operation', 0) as string;
+	const credentials = await this.getCredentials('celoApi') as CeloCredentials;
+
+	await forEachItem(this, items, !TRANSACTION_OPERATIONS.has(operation), async (i) => {
+		try {
+			let result: IDataObject;
+
 			switch (operation) {
-				case 'sendTransaction': {
-					const transaction = this.getNodeParameter('transaction', i) as any;
-					const requestBody = {
-						jsonrpc: '2.0',
-						method: 'eth_sendTransaction',
-						params: [transaction],
-						id: 1,
+				case 'signMessage': {
+					const privateKey = getSigningKey(credentials, this.getNodeParameter('accountIndex', i, 0) as number);
+					const message = getSigningMessage(this, i);
+
+					result = {
+						address: privateKeyToAddress(privateKey),
+						messageHash: '0x' + hashMessage(message).toString('hex'),
+						signature: signMessage(message, privateKey),
 					};
-					
-					const options: any = {
-						method: 'POST',
-						url: credentials.baseUrl || 'https://forno.celo.org',
-						headers: {
-							'Content-Type': 'application/json',
-							'Authorization': `Bearer ${credentials.apiKey}`,
-						},
-						body: requestBody,
-						json: true,
+					break;
+				}
+
+				case 'signTypedData': {
+					const privateKey = getSigningKey(credentials, this.getNodeParameter('accountIndex', i, 0) as number);
+					const typedData = getTypedDataParameter(this, i);
+
+					result = {
+						address: privateKeyToAddress(privateKey),
+						primaryType: typedData.primaryType,
+						digest: '0x' + hashTypedData(typedData).toString('hex'),
+						signature: signTypedData(typedData, privateKey),
 					};
-					
-					result = await this.helpers.httpRequest(options) as any;
 					break;
 				}
 
-				case 'sendRawTransaction': {
-					const data = this.getNodeParameter('data', i) as string;
-					const requestBody = {
-						jsonrpc: '2.0',
-						method: 'eth_sendRawTransaction',
-						params: [data],
-						id:
\ No newline at end of file
+				case 'recoverAddress':
+				case 'verifySignature': {
+					const signatureType = this.getNodeParameter('signatureType', i) as string;
+					const signature = this.getNodeParameter('signature', i) as string;
+					const digest = signatureType === 'typedData'
+						? hashTypedData(getTypedDataParameter(this, i))
+						: hashMessage(getSigningMessage(this, i));
+					const address = recoverAddress(digest, signature);
+
+					if (operation === 'recoverAddress') {
+						result = {
+							address,
+							digest: '0x' + digest.toString('hex'),
+						};
+						break;
+					}
+
+					const expectedAddress = getAddressParameter(this, 'expectedAddress', i);
+					result = {
+						valid: address === expectedAddress,
+						recoveredAddress: address,
+						expectedAddress,
+					};
+					break;
+				}
+
+				case 'buildSiweMessage': {
+					const network = this.getNodeParameter('siweNetwork', i) as keyof typeof CELO_NETWORKS;
+					const fields = this.getNodeParameter('siweFields', i, {}) as IDataObject;
+					const address = (this.getNodeParameter('siweAddress', i, '') as string).trim()
+						? getAddressParameter(this, 'siweAddress', i)
+						: privateKeyToAddress(
+							getSigningKey(credentials, this.getNodeParameter('accountIndex', i, 0) as number),
+						);
+
+					const siwe: SiweMessage = {
+						scheme: (fields.scheme as string) || undefined,
+						domain: this.getNodeParameter('siweDomain', i) as string,
+						address,
+						statement: (fields.statement as string) || undefined,
+						uri: this.getNodeParameter('siweUri', i) as string,
+						version: '1',
+						chainId: CELO_NETWORKS[network].chainId,
+						nonce: (this.getNodeParameter('siweNonce', i, '') as string) || generateSiweNonce(),
+						issuedAt: new Date().toISOString(),
+						expirationTime: getSiweDate(this, fields, 'expirationTime', i),
+						notBefore: getSiweDate(this, fields, 'notBefore', i),
+						requestId: (fields.requestId as string) || undefined,
+						resources: fields.resources
+							? (fields.resources as string).split(',').map((resource) => resource.trim()).filter(Boolean)
+							: undefined,
+					};
+
+					result = {
+						message: buildSiweMessage(siwe),
+						...(siwe as unknown as IDataObject),
+					};
+					break;
+				}
+
+				case 'verifySiweMessage': {
+					const text = this.getNodeParameter('siweMessage', i) as string;
+					const signature = this.getNodeParameter('signature', i) as string;
+					const network = this.getNodeParameter('siweNetwork', i) as keyof typeof CELO_NETWORKS;
+					// Contract wallets are checked over the credential's RPC, so it must serve the message's chain
+					const credentialChainId = await getCredentialChainId(this, credentials, i);
+					if (credentialChainId !== CELO_NETWORKS[network].chainId) {
+						throw new NodeOperationError(
+							this.getNode(),
+							`The credential is connected to chain ID ${credentialChainId}, but the message is verified for ${CELO_NETWORKS[network].name} (${CELO_NETWORKS[network].chainId})`,
+							{ itemIndex: i },
+						);
+					}
+
+					const siwe = parseSiweMessage(text);
+					const errors = validateSiweMessage(siwe, {
+						domain: this.getNodeParameter('siweDomain', i) as string,
+						nonce: this.getNodeParameter('siweExpectedNonce', i) as string,
+						chainId: CELO_NETWORKS[network].chainId,
+					});
+
+					// Externally owned accounts recover directly; anything else may be a contract wallet
+					let signerType: string | null = null;
+					let recoveredAddress: string | null = null;
+					try {
+						recoveredAddress = recoverMessageAddress(text, signature);
+					} catch {
+						recoveredAddress = null;
+					}
+
+					if (recoveredAddress === toChecksumAddress(siwe.address)) {
+						signerType = 'eoa';
+					} else if (
+						await isValidErc1271Signature(
+							this,
+							siwe.address,
+							'0x' + hashMessage(text).toString('hex'),
+							signature,
+							i,
+						)
+					) {
+						signerType = 'erc1271';
+					} else {
+						errors.push(`Signature was not produced by ${siwe.address}`);
+					}
+
+					result = {
+						valid: errors.length === 0,
+						address: siwe.address,
+						signerType,
+						recoveredAddress,
+						errors,
+						fields: siwe as unknown as IDataObject,
+					};
+					break;
+				}
+
+				default:
+					throw new NodeOperationError(this.getNode(), `Unknown operation: ${operation}`);
+			}
+
+			returnData[i].push({
+				json: result,
+				pairedItem: { item: i },
+			});
+		} catch (error: any) {
+			if (this.continueOnFail()) {
+				returnData[i].push({
+					json: { error: error.message },
+					pairedItem: { item: i },
+				});
+			} else {
+				throw error;
+			}
+		}
+	});
+
+	return returnData.flat();
+}
@@ -12,6 +12,7 @@ import type {
   INodeTypeDescription,
   IDataObject,
 } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
 
 import {
   makeRpcCall,
@@ -19,9 +20,12 @@ import {
   getBlockNumber,
   formatUnits,
   getLogs,
+  resolveContractAddress,
+  testCeloCredentials,
 } from './transport/celoClient';
-import { formatTokenAmount, toHex } from './utils/helpers';
-import { CELO_CONTRACTS, STABLECOINS } from './constants/celo.constants';
+import { checksumAddressFields, getAddress } from './utils/address';
+import { formatTokenAmount, getEventTopic, toHex } from './utils/helpers';
+import { STABLECOINS } from './constants/celo.constants';
 import type { CeloCredentials, CeloNetwork } from './utils/types';
 
 // Emit licensing notice once on module load
@@ -57,6 +61,7 @@ export class CeloTrigger implements INodeType {
       {
         name: 'celoApi',
         required: true,
+        testedBy: 'celoApiTest',
       },
     ],
     polling: true,
@@ -226,6 +231,12 @@ export class CeloTrigger implements INodeType {
     ],
   };
 
+  methods = {
+    credentialTest: {
+      celoApiTest: testCeloCredentials,
+    },
+  };
+
   async poll(this: IPollFunctions): Promise<INodeExecutionData[][] | null> {
     const webhookData = this.getWorkflowStaticData('node');
     const event = this.getNodeParameter('event') as string;
@@ -233,6 +244,18 @@ export class CeloTrigger implements INodeType {
     const network = credentials.network as CeloNetwork;
     const options = this.getNodeParameter('options', {}) as IDataObject;
     
+    // Reject mistyped addresses up front, since errors while polling are only logged
+    for (const name of ['address', 'customTokenAddress', 'filterAddress', 'validatorAddress']) {
+      const value = this.getNodeParameter(name, '') as string;
+      if (value) {
+        try {
+          getAddress(value);
+        } catch (error) {
+          throw new NodeOperationError(this.getNode(), `${(error as Error).message} (${name})`);
+        }
+      }
+    }
+    
     const returnData: INodeExecutionData[] = [];
     
     // Get current block number
@@ -320,20 +343,17 @@ export class CeloTrigger implements INodeType {
         let tokenAddress: string | undefined;
         
         if (tokenType === 'celo') {
-          tokenAddress = network === 'mainnet' || network === 'custom'
-            ? CELO_CONTRACTS.mainnet.GoldToken
-            : CELO_CONTRACTS.alfajores.GoldToken;
+          tokenAddress = await resolveContractAddress(this as unknown as IPollFunctions, 'GoldToken');
         } else if (tokenType === 'cUSD' || tokenType === 'cEUR' || tokenType === 'cREAL') {
-          const config = STABLECOINS[tokenType as keyof typeof STABLECOINS];
-          tokenAddress = network === 'mainnet' || network === 'custom'
-            ? config.mainnet
-            : config.alfajores;
+          tokenAddress = await resolveContractAddress(
+            this as unknown as IPollFunctions,
+            STABLECOINS[tokenType as keyof typeof STABLECOINS].registryId
+          );
         } else if (tokenType === 'custom') {
           tokenAddress = this.getNodeParameter('customTokenAddress') as string;
         }
         
-        // Transfer event topic: Transfer(address,address,uint256)
-        const transferTopic = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+        const transferTopic = getEventTopic('Transfer(address,address,uint256)');
         
         const filter: {
           fromBlock: string;
@@ -454,12 +474,9 @@ export class CeloTrigger implements INodeType {
       
       // ==================== GOVERNANCE PROPOSAL ====================
       if (event === 'governanceProposal') {
-        const governanceContract = network === 'mainnet' || network === 'custom'
-          ? CELO_CONTRACTS.mainnet.Governance
-          : CELO_CONTRACTS.alfajores.Governance;
+        const governanceContract = await resolveContractAddress(this as unknown as IPollFunctions, 'Governance');
         
-        // ProposalQueued event topic
-        const proposalQueuedTopic = '0x1bfe527f3548d9258c2512b6689f0acfccdd0557d80a53845db25fc57e93d8fe';
+        const proposalQueuedTopic = getEventTopic('ProposalQueued(uint256,address,uint256,uint256,uint256)');
         
         const logs = await getLogs(
           this as unknown as IPollFunctions,
@@ -500,12 +517,9 @@ export class CeloTrigger implements INodeType {
       
       // ==================== VALIDATOR ELECTION ====================
       if (event === 'validatorElection') {
-        const electionContract = network === 'mainnet' || network === 'custom'
-          ? CELO_CONTRACTS.mainnet.Election
-          : CELO_CONTRACTS.alfajores.Election;
+        const electionContract = await resolveContractAddress(this as unknown as IPollFunctions, 'Election');
         
-        // EpochRewardsDistributedToVoters event
-        const epochRewardsTopic = '0x91ba34d62474c14d6c623cd322f4256666c7a45b7fdaa3378e009d39dfcec2a7';
+        const epochRewardsTopic = getEventTopic('EpochRewardsDistributedToVoters(address,uint256)');
         
         const logs = await getLogs(
           this as unknown as IPollFunctions,
@@ -545,12 +559,9 @@ export class CeloTrigger implements INodeType {
       // ==================== STAKING REWARD ====================
       if (event === 'stakingReward') {
         const validatorAddress = this.getNodeParameter('validatorAddress', '') as string;
-        const electionContract = network === 'mainnet' || network === 'custom'
-          ? CELO_CONTRACTS.mainnet.Election
-          : CELO_CONTRACTS.alfajores.Election;
+        const electionContract = await resolveContractAddress(this as unknown as IPollFunctions, 'Election');
         
-        // ValidatorEpochPaymentDistributed event
-        const rewardTopic = '0x6f5937add2ec38a0fa4959bccd86e3fcc2aafb706cd3e6c0565f87a7b36b9975';
+        const rewardTopic = getEventTopic('ValidatorEpochPaymentDistributed(address,uint256,address,uint256)');
         
         const filter: {
           fromBlock: string;
@@ -605,31 +616,18 @@ export class CeloTrigger implements INodeType {
       if (event === 'stablecoinExchange') {
         const stablecoin = this.getNodeParameter('stablecoin') as string;
         
-        // Exchange event topic: Exchanged(address,uint256,uint256,bool)
-        const exchangeTopic = '0x402ac9185b4616422c2f9e2f5a6e6a54bd8c0db5e0fee5f0d6a1c4b7e2d0a5e8';
+        const exchangeTopic = getEventTopic('Exchanged(address,uint256,uint256,bool)');
         
         const exchangeContracts: string[] = [];
         
         if (stablecoin === 'all' || stablecoin === 'cUSD') {
-          exchangeContracts.push(
-            network === 'mainnet' || network === 'custom'
-              ? CELO_CONTRACTS.mainnet.Exchange
-              : CELO_CONTRACTS.alfajores.Exchange
-          );
+          exchangeContracts.push(await resolveContractAddress(this as unknown as IPollFunctions, 'Exchange'));
         }
         if (stablecoin === 'all' || stablecoin === 'cEUR') {
-          exchangeContracts.push(
-            network === 'mainnet' || network === 'custom'
-              ? CELO_CONTRACTS.mainnet.ExchangeEUR
-              : CELO_CONTRACTS.alfajores.ExchangeEUR
-          );
+          exchangeContracts.push(await resolveContractAddress(this as unknown as IPollFunctions, 'ExchangeEUR'));
         }
         if (stablecoin === 'all' || stablecoin === 'cREAL') {
-          exchangeContracts.push(
-            network === 'mainnet' || network === 'custom'
-              ? CELO_CONTRACTS.mainnet.ExchangeBRL
-              : CELO_CONTRACTS.alfajores.ExchangeBRL
-          );
+          exchangeContracts.push(await resolveContractAddress(this as unknown as IPollFunctions, 'ExchangeBRL'));
         }
         
         for (const exchangeContract of exchangeContracts) {
@@ -682,6 +680,6 @@ export class CeloTrigger implements INodeType {
       return null;
     }
     
-    return [returnData];
+    return [returnData.map((item) => ({ ...item, json: checksumAddressFields(item.json) }))];
   }
 }
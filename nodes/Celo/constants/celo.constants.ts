@@ -5,6 +5,8 @@
  * See LICENSE file for details.
  */
 
+import type { IdentifierType } from '../utils/types';
+
 /**
  * Celo network configurations
  */
@@ -33,7 +35,8 @@ export const CELO_NETWORKS = {
 } as const;
 
 /**
- * Celo core contract addresses (Mainnet)
+ * Celo core contract addresses, used when the Registry cannot be read. Baklava
+ * and custom networks have none and always resolve through the Registry.
  */
 export const CELO_CONTRACTS = {
   mainnet: {
@@ -44,6 +47,7 @@ export const CELO_CONTRACTS = {
     StableTokenBRL: '0xe8537a3d056DA446677B9E9d6c5dB704EaAb4787', // cREAL
     
     // Identity
+    Accounts: '0x7d21685C17607338b313a7174bAb6620baD0aaB7',
     Attestations: '0xdC553892cdeeeD9f575aa0FBA099e5847fd88D20',
     FederatedAttestations: '0x0aD5b1d0C25ecF6266Dd951403723B2687d6aff2',
     OdisPayments: '0x9E78E2E49F7B82c6D3cC8A1d4c4e3cdE0A5b2E06',
@@ -61,6 +65,7 @@ export const CELO_CONTRACTS = {
     Exchange: '0x67316300f17f063085Ca8bCa4bd3f7a5a3C66275', // cUSD Exchange
     ExchangeEUR: '0xE383394B913d7302c49F794C7d3243c429d53D1d', // cEUR Exchange
     ExchangeBRL: '0x8f2cf9855C919AFAC8Bd2E7acEc0205ed568a4EA', // cREAL Exchange
+    Broker: '0x777A8255cA72412f0d706dc03C9D1987306B4CaD', // Mento v2
     
     // Registry
     Registry: '0x000000000000000000000000000000000000ce10',
@@ -70,6 +75,7 @@ export const CELO_CONTRACTS = {
     StableToken: '0x874069Fa1Eb16D44d622F2e0Ca25eeA172369bC1',
     StableTokenEUR: '0x10c892A6EC43a53E45D0B916B4b7D383B1b78C0F',
     StableTokenBRL: '0xE4D517785D091D3c54818832dB6094bcc2744545',
+    Accounts: '0xed7f51A34B4e71fbE69B3091FcF879cD14bD73A9',
     Attestations: '0xAD5E5722427d79DFf28a4Ab30249729d1F8B4cc0',
     FederatedAttestations: '0x70F9314aF173c246669cFb0EEe79F9Cfd9C34ee3',
     OdisPayments: '0x645170cdB6B5c1bc80847bb728dBa56C50a20a49',
@@ -81,6 +87,7 @@ export const CELO_CONTRACTS = {
     Exchange: '0x17bc3C8798BC1e0718f83EB032DfED2Ee2a6F0a8',
     ExchangeEUR: '0x997B494F17D3c49E66Fafb50F37b5d9Ba693F5dC',
     ExchangeBRL: '0xf391DcaA77B9d5cc28F4815E022B7E95e91A4E16',
+    Broker: '0xD3Dff18E465bCa6241A244144765b4421Ac14D09',
     Registry: '0x000000000000000000000000000000000000ce10',
   },
 } as const;
@@ -91,6 +98,7 @@ export const CELO_CONTRACTS = {
 export const STABLECOINS = {
   cUSD: {
     symbol: 'cUSD',
+    registryId: 'StableToken',
     name: 'Celo Dollar',
     decimals: 18,
     mainnet: '0x765DE816845861e75A25fCA122bb6898B8B1282a',
@@ -98,6 +106,7 @@ export const STABLECOINS = {
   },
   cEUR: {
     symbol: 'cEUR',
+    registryId: 'StableTokenEUR',
     name: 'Celo Euro',
     decimals: 18,
     mainnet: '0xD8763CBa276a3738E6DE85b4b3bF5FDed6D6cA73',
@@ -105,6 +114,7 @@ export const STABLECOINS = {
   },
   cREAL: {
     symbol: 'cREAL',
+    registryId: 'StableTokenBRL',
     name: 'Celo Brazilian Real',
     decimals: 18,
     mainnet: '0xe8537a3d056DA446677B9E9d6c5dB704EaAb4787',
@@ -112,6 +122,16 @@ export const STABLECOINS = {
   },
 } as const;
 
+/**
+ * SocialConnect identifier prefixes, prepended as `prefix://` before hashing
+ */
+export const IDENTIFIER_PREFIXES: Record<IdentifierType, string> = {
+  phoneNumber: 'tel',
+  email: 'mailto',
+  twitter: 'twit',
+  discord: 'discord',
+};
+
 /**
  * Common ABI fragments for Celo contracts
  */
@@ -194,6 +214,13 @@ export const ABI_FRAGMENTS = {
       stateMutability: 'view',
       type: 'function',
     },
+    getAccountNonvotingLockedGold: {
+      inputs: [{ name: 'account', type: 'address' }],
+      name: 'getAccountNonvotingLockedGold',
+      outputs: [{ name: '', type: 'uint256' }],
+      stateMutability: 'view',
+      type: 'function',
+    },
     lock: {
       inputs: [],
       name: 'lock',
@@ -219,14 +246,53 @@ export const ABI_FRAGMENTS = {
       inputs: [{ name: 'account', type: 'address' }],
       name: 'getPendingWithdrawals',
       outputs: [
-        { name: '', type: 'uint256[]' },
-        { name: '', type: 'uint256[]' },
+        { name: 'values', type: 'uint256[]' },
+        { name: 'timestamps', type: 'uint256[]' },
       ],
       stateMutability: 'view',
       type: 'function',
     },
   },
   
+  // Accounts
+  accounts: {
+    createAccount: {
+      inputs: [],
+      name: 'createAccount',
+      outputs: [{ name: '', type: 'bool' }],
+      stateMutability: 'nonpayable',
+      type: 'function',
+    },
+    isAccount: {
+      inputs: [{ name: 'account', type: 'address' }],
+      name: 'isAccount',
+      outputs: [{ name: '', type: 'bool' }],
+      stateMutability: 'view',
+      type: 'function',
+    },
+    getName: {
+      inputs: [{ name: 'account', type: 'address' }],
+      name: 'getName',
+      outputs: [{ name: '', type: 'string' }],
+      stateMutability: 'view',
+      type: 'function',
+    },
+    getMetadataURL: {
+      inputs: [{ name: 'account', type: 'address' }],
+      name: 'getMetadataURL',
+      outputs: [{ name: '', type: 'string' }],
+      stateMutability: 'view',
+      type: 'function',
+    },
+    setMetadataURL: {
+      inputs: [{ name: 'metadataURL', type: 'string' }],
+      name: 'setMetadataURL',
+      outputs: [],
+      stateMutability: 'nonpayable',
+      type: 'function',
+    },
+  },
+  
   // Election
   election: {
     getActiveVotesForGroup: {
@@ -236,6 +302,64 @@ export const ABI_FRAGMENTS = {
       stateMutability: 'view',
       type: 'function',
     },
+    getPendingVotesForGroup: {
+      inputs: [{ name: 'group', type: 'address' }],
+      name: 'getPendingVotesForGroup',
+      outputs: [{ name: '', type: 'uint256' }],
+      stateMutability: 'view',
+      type: 'function',
+    },
+    getTotalVotesForGroup: {
+      inputs: [{ name: 'group', type: 'address' }],
+      name: 'getTotalVotesForGroup',
+      outputs: [{ name: '', type: 'uint256' }],
+      stateMutability: 'view',
+      type: 'function',
+    },
+    getTotalVotesForEligibleValidatorGroups: {
+      inputs: [],
+      name: 'getTotalVotesForEligibleValidatorGroups',
+      outputs: [
+        { name: 'groups', type: 'address[]' },
+        { name: 'values', type: 'uint256[]' },
+      ],
+      stateMutability: 'view',
+      type: 'function',
+    },
+    getTotalVotesByAccount: {
+      inputs: [{ name: 'account', type: 'address' }],
+      name: 'getTotalVotesByAccount',
+      outputs: [{ name: '', type: 'uint256' }],
+      stateMutability: 'view',
+      type: 'function',
+    },
+    getGroupsVotedForByAccount: {
+      inputs: [{ name: 'account', type: 'address' }],
+      name: 'getGroupsVotedForByAccount',
+      outputs: [{ name: '', type: 'address[]' }],
+      stateMutability: 'view',
+      type: 'function',
+    },
+    getActiveVotesForGroupByAccount: {
+      inputs: [
+        { name: 'group', type: 'address' },
+        { name: 'account', type: 'address' },
+      ],
+      name: 'getActiveVotesForGroupByAccount',
+      outputs: [{ name: '', type: 'uint256' }],
+      stateMutability: 'view',
+      type: 'function',
+    },
+    getPendingVotesForGroupByAccount: {
+      inputs: [
+        { name: 'group', type: 'address' },
+        { name: 'account', type: 'address' },
+      ],
+      name: 'getPendingVotesForGroupByAccount',
+      outputs: [{ name: '', type: 'uint256' }],
+      stateMutability: 'view',
+      type: 'function',
+    },
     vote: {
       inputs: [
         { name: 'group', type: 'address' },
@@ -285,8 +409,8 @@ export const ABI_FRAGMENTS = {
       inputs: [],
       name: 'getElectableValidators',
       outputs: [
-        { name: '', type: 'uint256' },
-        { name: '', type: 'uint256' },
+        { name: 'min', type: 'uint256' },
+        { name: 'max', type: 'uint256' },
       ],
       stateMutability: 'view',
       type: 'function',
@@ -300,6 +424,108 @@ export const ABI_FRAGMENTS = {
     },
   },
   
+  // Mento v2 Broker, which routes swaps to the exchange providers
+  broker: {
+    getExchangeProviders: {
+      inputs: [],
+      name: 'getExchangeProviders',
+      outputs: [{ name: '', type: 'address[]' }],
+      stateMutability: 'view',
+      type: 'function',
+    },
+    getAmountOut: {
+      inputs: [
+        { name: 'exchangeProvider', type: 'address' },
+        { name: 'exchangeId', type: 'bytes32' },
+        { name: 'tokenIn', type: 'address' },
+        { name: 'tokenOut', type: 'address' },
+        { name: 'amountIn', type: 'uint256' },
+      ],
+      name: 'getAmountOut',
+      outputs: [{ name: 'amountOut', type: 'uint256' }],
+      stateMutability: 'view',
+      type: 'function',
+    },
+    getAmountIn: {
+      inputs: [
+        { name: 'exchangeProvider', type: 'address' },
+        { name: 'exchangeId', type: 'bytes32' },
+        { name: 'tokenIn', type: 'address' },
+        { name: 'tokenOut', type: 'address' },
+        { name: 'amountOut', type: 'uint256' },
+      ],
+      name: 'getAmountIn',
+      outputs: [{ name: 'amountIn', type: 'uint256' }],
+      stateMutability: 'view',
+      type: 'function',
+    },
+    swapIn: {
+      inputs: [
+        { name: 'exchangeProvider', type: 'address' },
+        { name: 'exchangeId', type: 'bytes32' },
+        { name: 'tokenIn', type: 'address' },
+        { name: 'tokenOut', type: 'address' },
+        { name: 'amountIn', type: 'uint256' },
+        { name: 'amountOutMin', type: 'uint256' },
+      ],
+      name: 'swapIn',
+      outputs: [{ name: 'amountOut', type: 'uint256' }],
+      stateMutability: 'nonpayable',
+      type: 'function',
+    },
+  },
+  
+  // Mento v2 exchange provider (BiPoolManager)
+  exchangeProvider: {
+    getExchanges: {
+      inputs: [],
+      name: 'getExchanges',
+      outputs: [
+        {
+          name: 'exchanges',
+          type: 'tuple[]',
+          components: [
+            { name: 'exchangeId', type: 'bytes32' },
+            { name: 'assets', type: 'address[]' },
+          ],
+        },
+      ],
+      stateMutability: 'view',
+      type: 'function',
+    },
+    getPoolExchange: {
+      inputs: [{ name: 'exchangeId', type: 'bytes32' }],
+      name: 'getPoolExchange',
+      outputs: [
+        {
+          name: 'exchange',
+          type: 'tuple',
+          components: [
+            { name: 'asset0', type: 'address' },
+            { name: 'asset1', type: 'address' },
+            { name: 'pricingModule', type: 'address' },
+            { name: 'bucket0', type: 'uint256' },
+            { name: 'bucket1', type: 'uint256' },
+            { name: 'lastBucketUpdate', type: 'uint256' },
+            {
+              name: 'config',
+              type: 'tuple',
+              components: [
+                { name: 'spread', type: 'tuple', components: [{ name: 'value', type: 'uint256' }] },
+                { name: 'referenceRateFeedID', type: 'address' },
+                { name: 'referenceRateResetFrequency', type: 'uint256' },
+                { name: 'minimumReports', type: 'uint256' },
+                { name: 'stablePoolResetSize', type: 'uint256' },
+              ],
+            },
+          ],
+        },
+      ],
+      stateMutability: 'view',
+      type: 'function',
+    },
+  },
+  
   // Exchange (Mento)
   exchange: {
     getBuyTokenAmount: {
@@ -351,8 +577,8 @@ export const ABI_FRAGMENTS = {
       inputs: [{ name: 'sellGold', type: 'bool' }],
       name: 'getBuyAndSellBuckets',
       outputs: [
-        { name: '', type: 'uint256' },
-        { name: '', type: 'uint256' },
+        { name: 'buyTokenBucket', type: 'uint256' },
+        { name: 'sellTokenBucket', type: 'uint256' },
       ],
       stateMutability: 'view',
       type: 'function',
@@ -399,14 +625,117 @@ export const ABI_FRAGMENTS = {
       ],
       name: 'getVoteRecord',
       outputs: [
-        { name: '', type: 'uint256' },
-        { name: '', type: 'uint256' },
-        { name: '', type: 'uint256' },
-        { name: '', type: 'uint256' },
+        { name: 'proposalId', type: 'uint256' },
+        { name: 'value', type: 'uint256' },
+        { name: 'weight', type: 'uint256' },
+        { name: 'yesVotes', type: 'uint256' },
+        { name: 'noVotes', type: 'uint256' },
+        { name: 'abstainVotes', type: 'uint256' },
       ],
       stateMutability: 'view',
       type: 'function',
     },
+    getVoteTotals: {
+      inputs: [{ name: 'proposalId', type: 'uint256' }],
+      name: 'getVoteTotals',
+      outputs: [
+        { name: 'yes', type: 'uint256' },
+        { name: 'no', type: 'uint256' },
+        { name: 'abstain', type: 'uint256' },
+      ],
+      stateMutability: 'view',
+      type: 'function',
+    },
+    getQueue: {
+      inputs: [],
+      name: 'getQueue',
+      outputs: [
+        { name: 'proposalIds', type: 'uint256[]' },
+        { name: 'upvotes', type: 'uint256[]' },
+      ],
+      stateMutability: 'view',
+      type: 'function',
+    },
+    getDequeue: {
+      inputs: [],
+      name: 'getDequeue',
+      outputs: [{ name: '', type: 'uint256[]' }],
+      stateMutability: 'view',
+      type: 'function',
+    },
+    isQueued: {
+      inputs: [{ name: 'proposalId', type: 'uint256' }],
+      name: 'isQueued',
+      outputs: [{ name: '', type: 'bool' }],
+      stateMutability: 'view',
+      type: 'function',
+    },
+    isVoting: {
+      inputs: [{ name: 'account', type: 'address' }],
+      name: 'isVoting',
+      outputs: [{ name: '', type: 'bool' }],
+      stateMutability: 'view',
+      type: 'function',
+    },
+    queueExpiry: {
+      inputs: [],
+      name: 'queueExpiry',
+      outputs: [{ name: '', type: 'uint256' }],
+      stateMutability: 'view',
+      type: 'function',
+    },
+    stageDurations: {
+      inputs: [],
+      name: 'stageDurations',
+      outputs: [
+        { name: 'approval', type: 'uint256' },
+        { name: 'referendum', type: 'uint256' },
+        { name: 'execution', type: 'uint256' },
+      ],
+      stateMutability: 'view',
+      type: 'function',
+    },
+    minDeposit: {
+      inputs: [],
+      name: 'minDeposit',
+      outputs: [{ name: '', type: 'uint256' }],
+      stateMutability: 'view',
+      type: 'function',
+    },
+    upvote: {
+      inputs: [
+        { name: 'proposalId', type: 'uint256' },
+        { name: 'lesser', type: 'uint256' },
+        { name: 'greater', type: 'uint256' },
+      ],
+      name: 'upvote',
+      outputs: [{ name: '', type: 'bool' }],
+      stateMutability: 'nonpayable',
+      type: 'function',
+    },
+    propose: {
+      inputs: [
+        { name: 'values', type: 'uint256[]' },
+        { name: 'destinations', type: 'address[]' },
+        { name: 'data', type: 'bytes' },
+        { name: 'dataLengths', type: 'uint256[]' },
+        { name: 'descriptionUrl', type: 'string' },
+      ],
+      name: 'propose',
+      outputs: [{ name: '', type: 'uint256' }],
+      stateMutability: 'payable',
+      type: 'function',
+    },
+    execute: {
+      inputs: [
+        { name: 'proposalId', type: 'uint256' },
+        { name: 'index', type: 'uint256' },
+      ],
+      name: 'execute',
+      outputs: [{ name: '', type: 'bool' }],
+      stateMutability: 'nonpayable',
+      type: 'function',
+    },
   },
   
   // Reserve
@@ -460,19 +789,220 @@ export const ABI_FRAGMENTS = {
       inputs: [{ name: 'account', type: 'address' }],
       name: 'getValidatorGroup',
       outputs: [
-        { name: '', type: 'address[]' },
-        { name: '', type: 'uint256' },
-        { name: '', type: 'uint256' },
-        { name: '', type: 'uint256[]' },
-        { name: '', type: 'uint256' },
-        { name: '', type: 'uint256' },
+        { name: 'members', type: 'address[]' },
+        { name: 'commission', type: 'uint256' },
+        { name: 'nextCommission', type: 'uint256' },
+        { name: 'nextCommissionBlock', type: 'uint256' },
+        { name: 'sizeHistory', type: 'uint256[]' },
+        { name: 'slashingMultiplier', type: 'uint256' },
+        { name: 'lastSlashed', type: 'uint256' },
+      ],
+      stateMutability: 'view',
+      type: 'function',
+    },
+    isValidator: {
+      inputs: [{ name: 'account', type: 'address' }],
+      name: 'isValidator',
+      outputs: [{ name: '', type: 'bool' }],
+      stateMutability: 'view',
+      type: 'function',
+    },
+    isValidatorGroup: {
+      inputs: [{ name: 'account', type: 'address' }],
+      name: 'isValidatorGroup',
+      outputs: [{ name: '', type: 'bool' }],
+      stateMutability: 'view',
+      type: 'function',
+    },
+  },
+  
+  // FederatedAttestations (SocialConnect)
+  federatedAttestations: {
+    lookupAttestations: {
+      inputs: [
+        { name: 'identifier', type: 'bytes32' },
+        { name: 'trustedIssuers', type: 'address[]' },
+      ],
+      name: 'lookupAttestations',
+      outputs: [
+        { name: 'countsPerIssuer', type: 'uint256[]' },
+        { name: 'accounts', type: 'address[]' },
+        { name: 'signers', type: 'address[]' },
+        { name: 'issuedOns', type: 'uint64[]' },
+        { name: 'publishedOns', type: 'uint64[]' },
+      ],
+      stateMutability: 'view',
+      type: 'function',
+    },
+    lookupIdentifiers: {
+      inputs: [
+        { name: 'account', type: 'address' },
+        { name: 'trustedIssuers', type: 'address[]' },
+      ],
+      name: 'lookupIdentifiers',
+      outputs: [
+        { name: 'countsPerIssuer', type: 'uint256[]' },
+        { name: 'identifiers', type: 'bytes32[]' },
+      ],
+      stateMutability: 'view',
+      type: 'function',
+    },
+    registerAttestationAsIssuer: {
+      inputs: [
+        { name: 'identifier', type: 'bytes32' },
+        { name: 'account', type: 'address' },
+        { name: 'issuedOn', type: 'uint64' },
+      ],
+      name: 'registerAttestationAsIssuer',
+      outputs: [],
+      stateMutability: 'nonpayable',
+      type: 'function',
+    },
+    revokeAttestation: {
+      inputs: [
+        { name: 'identifier', type: 'bytes32' },
+        { name: 'issuer', type: 'address' },
+        { name: 'account', type: 'address' },
+      ],
+      name: 'revokeAttestation',
+      outputs: [],
+      stateMutability: 'nonpayable',
+      type: 'function',
+    },
+  },
+  
+  // Registry
+  registry: {
+    getAddressForString: {
+      inputs: [{ name: 'identifier', type: 'string' }],
+      name: 'getAddressForString',
+      outputs: [{ name: '', type: 'address' }],
+      stateMutability: 'view',
+      type: 'function',
+    },
+  },
+  
+  // Multicall3
+  multicall3: {
+    aggregate3: {
+      inputs: [
+        {
+          name: 'calls',
+          type: 'tuple[]',
+          components: [
+            { name: 'target', type: 'address' },
+            { name: 'allowFailure', type: 'bool' },
+            { name: 'callData', type: 'bytes' },
+          ],
+        },
+      ],
+      name: 'aggregate3',
+      outputs: [
+        {
+          name: 'returnData',
+          type: 'tuple[]',
+          components: [
+            { name: 'success', type: 'bool' },
+            { name: 'returnData', type: 'bytes' },
+          ],
+        },
       ],
+      stateMutability: 'payable',
+      type: 'function',
+    },
+    getEthBalance: {
+      inputs: [{ name: 'addr', type: 'address' }],
+      name: 'getEthBalance',
+      outputs: [{ name: 'balance', type: 'uint256' }],
+      stateMutability: 'view',
+      type: 'function',
+    },
+  },
+  
+  // ERC-1271 contract wallets
+  erc1271: {
+    isValidSignature: {
+      inputs: [
+        { name: 'hash', type: 'bytes32' },
+        { name: 'signature', type: 'bytes' },
+      ],
+      name: 'isValidSignature',
+      outputs: [{ name: 'magicValue', type: 'bytes4' }],
       stateMutability: 'view',
       type: 'function',
     },
   },
 } as const;
 
+/**
+ * Return value of isValidSignature for a valid ERC-1271 signature
+ */
+export const ERC1271_MAGIC_VALUE = '0x1626ba7e';
+
+/**
+ * Registry of core contract addresses, at the same address on every Celo network
+ */
+export const REGISTRY_ADDRESS = '0x000000000000000000000000000000000000ce10';
+
+/**
+ * Identifiers of the core contracts registered in the Registry
+ */
+export const REGISTRY_CONTRACT_NAMES = [
+  'Accounts',
+  'Attestations',
+  'BlockchainParameters',
+  'CeloUnreleasedTreasury',
+  'DoubleSigningSlasher',
+  'DowntimeSlasher',
+  'Election',
+  'EpochManager',
+  'EpochManagerEnabler',
+  'EpochRewards',
+  'Escrow',
+  'Exchange',
+  'ExchangeBRL',
+  'ExchangeEUR',
+  'FederatedAttestations',
+  'FeeCurrencyDirectory',
+  'FeeCurrencyWhitelist',
+  'FeeHandler',
+  'Freezer',
+  'GasPriceMinimum',
+  'GoldToken',
+  'Governance',
+  'GovernanceSlasher',
+  'GrandaMento',
+  'LockedGold',
+  'MentoFeeHandlerSeller',
+  'OdisPayments',
+  'Random',
+  'Reserve',
+  'ScoreManager',
+  'SortedOracles',
+  'StableToken',
+  'StableTokenBRL',
+  'StableTokenEUR',
+  'TransferWhitelist',
+  'UniswapFeeHandlerSeller',
+  'Validators',
+] as const;
+
+/**
+ * Canonical Multicall3 deployment, at the same address on mainnet and the testnets
+ */
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+/**
+ * Zero address, used by sorted-list contract calls for a missing neighbour
+ */
+export const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+/**
+ * Fixed-point precision of Celo's FixidityLib (1.0 = 10^24), used for
+ * validator scores, group commissions and slashing multipliers
+ */
+export const FIXIDITY_DECIMALS = 24;
+
 /**
  * Default gas limits for different operation types
  */
@@ -519,3 +1049,11 @@ export const ODIS = {
     publicKey: 'kPoRxWdEdZ/Nd3uQnp3FJFs54zuiS+ksqvOm9x8vY6KHPG8jrfqysvIRU0wtqYsBKA7SoAsICMBv8C/Fb2ZpDOqhSqvr/sZbZoHmQfvbqrzQ2XX0nF3XKGm+F3tgp+qB',
   },
 } as const;
+
+/**
+ * BIP-44 derivation paths (the address index is appended)
+ */
+export const DERIVATION_PATHS = {
+  celo: "m/44'/52752'/0'/0",
+  ethereum: "m/44'/60'/0'/0",
+} as const;
@@ -5,22 +5,65 @@
  * See LICENSE file for details.
  */
 
-import type { IExecuteFunctions, IHttpRequestMethods, ILoadOptionsFunctions, IPollFunctions } from 'n8n-workflow';
-import * as crypto from 'crypto';
-import { CELO_NETWORKS, CELO_CONTRACTS, ABI_FRAGMENTS } from '../constants/celo.constants';
-import type { CeloNetwork, JsonRpcResponse, CeloCredentials } from '../utils/types';
+import type {
+  ICredentialsDecrypted,
+  IDataObject,
+  ICredentialTestFunctions,
+  IExecuteFunctions,
+  IHttpRequestMethods,
+  ILoadOptionsFunctions,
+  INodeCredentialTestResult,
+  IPollFunctions,
+  JsonObject,
+} from 'n8n-workflow';
+import { NodeApiError } from 'n8n-workflow';
+import {
+  CELO_NETWORKS,
+  CELO_CONTRACTS,
+  ABI_FRAGMENTS,
+  ERC1271_MAGIC_VALUE,
+  MULTICALL3_ADDRESS,
+  REGISTRY_ADDRESS,
+  REGISTRY_CONTRACT_NAMES,
+} from '../constants/celo.constants';
+import { hasValidChecksum } from '../utils/address';
+import { decodeAbiParameters, decodeFunctionResult, encodeFunctionCallData, toAbiParameter } from '../utils/abi';
+import { retryWithBackoff, sleep } from '../utils/helpers';
+import { createRequestLimiter, parseRetryAfter } from '../utils/rateLimiter';
+import type { RequestLimiter, RequestLimits } from '../utils/rateLimiter';
+import { deriveAccount } from '../utils/hdWallet';
+import { privateKeyToAddress } from '../utils/secp256k1';
+import { signTransactionWithKey } from '../utils/transaction';
+import type {
+  AbiFunctionFragment,
+  CeloNetwork,
+  ContractRead,
+  ContractReadResult,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  CeloCredentials,
+  RpcBatchCall,
+  RpcBatchResult,
+  RpcCallRecord,
+  TransactionReceipt,
+  TransactionRequest,
+  UnsignedTransaction,
+} from '../utils/types';
 
 /**
- * Get the RPC URL for a network
+ * Get the RPC URLs for a network in order of preference. The RPC URLs
+ * credential is a comma or newline separated list that overrides the public
+ * Forno endpoint of a named network.
  */
-export function getRpcUrl(credentials: CeloCredentials): string {
+export function getRpcUrls(credentials: CeloCredentials): string[] {
   const network = credentials.network;
+  const configured = (credentials.rpcEndpoint || '').split(/[\s,]+/).filter(Boolean);
   
   if (network === 'custom') {
-    if (!credentials.rpcEndpoint) {
+    if (!configured.length) {
       throw new Error('Custom network requires an RPC endpoint');
     }
-    return credentials.rpcEndpoint;
+    return configured;
   }
   
   const networkConfig = CELO_NETWORKS[network as keyof typeof CELO_NETWORKS];
@@ -28,7 +71,55 @@ export function getRpcUrl(credentials: CeloCredentials): string {
     throw new Error(`Unknown network: ${network}`);
   }
   
-  return networkConfig.rpcUrl;
+  return configured.length ? configured : [networkConfig.rpcUrl];
+}
+
+/**
+ * Get the primary RPC URL for a network
+ */
+export function getRpcUrl(credentials: CeloCredentials): string {
+  return getRpcUrls(credentials)[0];
+}
+
+/**
+ * Get the headers for JSON-RPC requests, including the optional auth header
+ */
+export function getRpcHeaders(credentials: CeloCredentials): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  
+  if (credentials.authHeaderName && credentials.authHeaderValue) {
+    headers[credentials.authHeaderName] = credentials.authHeaderValue;
+  }
+  
+  return headers;
+}
+
+/**
+ * Get the private key used to sign transactions. Mnemonic credentials derive
+ * the key for the given account index.
+ */
+export function getSigningKey(credentials: CeloCredentials, accountIndex: number = 0): string {
+  const keyType = credentials.signingKeyType || (credentials.privateKey ? 'privateKey' : 'none');
+  
+  if (keyType === 'mnemonic') {
+    if (!credentials.mnemonic) {
+      throw new Error('Mnemonic is required for signing transactions');
+    }
+    return deriveAccount(
+      credentials.mnemonic,
+      accountIndex,
+      credentials.derivationPath || 'celo',
+      credentials.mnemonicPassphrase || ''
+    ).privateKey;
+  }
+  
+  if (keyType !== 'privateKey' || !credentials.privateKey) {
+    throw new Error('Private key is required for signing transactions');
+  }
+  
+  return credentials.privateKey;
 }
 
 /**
@@ -52,17 +143,20 @@ export function getExplorerApiUrl(credentials: CeloCredentials): string {
 }
 
 /**
- * Get contract address for a network
+ * Core contract name, as registered in the Registry
  */
-export function getContractAddress(
-  network: CeloNetwork,
-  contractName: keyof typeof CELO_CONTRACTS.mainnet
-): string {
-  const contracts = network === 'mainnet' || network === 'custom' 
-    ? CELO_CONTRACTS.mainnet 
-    : CELO_CONTRACTS.alfajores;
+export type CoreContractName = keyof typeof CELO_CONTRACTS.mainnet;
+
+/**
+ * Get the offline address of a core contract, for when the Registry cannot be
+ * read. Only mainnet and Alfajores have offline addresses.
+ */
+export function getContractAddress(network: CeloNetwork, contractName: CoreContractName): string {
+  if (network !== 'mainnet' && network !== 'alfajores') {
+    throw new Error(`No offline address of ${contractName} for the ${network} network`);
+  }
   
-  const address = contracts[contractName];
+  const address = CELO_CONTRACTS[network][contractName];
   if (!address) {
     throw new Error(`Contract ${contractName} not found for network ${network}`);
   }
@@ -71,7 +165,205 @@ export function getContractAddress(
 }
 
 /**
- * Make a JSON-RPC call to the Celo network
+ * Default maximum number of calls sent in one JSON-RPC batch request
+ */
+export const DEFAULT_RPC_BATCH_SIZE = 50;
+
+/**
+ * Default maximum number of RPC, and of explorer, requests in flight at once,
+ * as the items of read-only operations are processed concurrently
+ */
+export const DEFAULT_MAX_CONCURRENT_REQUESTS = 10;
+
+let nextRpcId = 1;
+
+function createRpcRequest(method: string, params: unknown[]): JsonRpcRequest {
+  return { jsonrpc: '2.0', method, params, id: nextRpcId++ };
+}
+
+function toRpcError(
+  context: IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
+  method: string,
+  response: JsonRpcResponse,
+  itemIndex: number
+): NodeApiError {
+  const { code, message, data } = response.error!;
+  return new NodeApiError(context.getNode(), response as unknown as JsonObject, {
+    message: `RPC Error: ${message} (code: ${code})`,
+    description: data !== undefined ? `${method} failed with data: ${JSON.stringify(data)}` : `${method} failed`,
+    itemIndex,
+  });
+}
+
+/**
+ * Rounds through the RPC URLs before a retryable failure is thrown, and the
+ * delay before the second round, doubling for each round after it
+ */
+const RPC_RETRY_ROUNDS = 3;
+const RPC_RETRY_BASE_DELAY = 250;
+
+/**
+ * Blocks an endpoint may trail the highest probed height before it is skipped,
+ * and how long a probe of the heights is trusted
+ */
+const DEFAULT_MAX_BLOCK_LAG = 10;
+const BLOCK_HEIGHT_TTL = 15000;
+
+const blockHeightProbes = new Map<string, { checkedAt: number; heights: Promise<Array<number | undefined>> }>();
+const rpcCallLogs = new WeakMap<object, RpcCallRecord[]>();
+const requestLimiters = new WeakMap<object, Record<'rpc' | 'explorer', RequestLimiter>>();
+const sentTransactions = new WeakMap<object, string[]>();
+
+/**
+ * Limit the concurrency and rate of the RPC and explorer requests made through
+ * a context. Each service gets its own limiter, as providers limit separately.
+ */
+export function setRequestLimits(context: object, limits: RequestLimits): void {
+  if ((limits.maxConcurrent ?? 0) <= 0 && (limits.requestsPerSecond ?? 0) <= 0) {
+    requestLimiters.delete(context);
+    return;
+  }
+  requestLimiters.set(context, {
+    rpc: createRequestLimiter(limits),
+    explorer: createRequestLimiter(limits),
+  });
+}
+
+async function limitRequest<T>(context: object, service: 'rpc' | 'explorer', request: () => Promise<T>): Promise<T> {
+  const limiter = requestLimiters.get(context)?.[service];
+  return limiter ? await limiter.run(request) : await request();
+}
+
+/**
+ * Whether a failed request may succeed on another endpoint or in a later
+ * round: network errors without a response, rate limits and server errors
+ */
+export function isRetryableRpcError(error: unknown): boolean {
+  const { response, statusCode } = (error || {}) as { response?: { status?: number }; statusCode?: number };
+  const status = response?.status ?? statusCode;
+  return status === undefined || status === 429 || status >= 500;
+}
+
+/**
+ * RPC URLs to try for a request, in order. When there are several, their block
+ * heights are probed with eth_blockNumber at most every BLOCK_HEIGHT_TTL, and
+ * URLs trailing the highest by more than the Max Block Lag are skipped. A URL
+ * whose probe failed is kept, since the request fails over from it anyway.
+ */
+async function getLiveRpcUrls(
+  context: IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
+  credentials: CeloCredentials
+): Promise<string[]> {
+  const urls = getRpcUrls(credentials);
+  const maxBlockLag = credentials.maxBlockLag ?? DEFAULT_MAX_BLOCK_LAG;
+  if (urls.length < 2 || maxBlockLag <= 0) {
+    return urls;
+  }
+  
+  const key = urls.join('\n');
+  let probe = blockHeightProbes.get(key);
+  if (!probe || Date.now() - probe.checkedAt > BLOCK_HEIGHT_TTL) {
+    probe = {
+      checkedAt: Date.now(),
+      heights: Promise.all(
+        urls.map(async (url) => {
+          try {
+            const response = await limitRequest(context, 'rpc', () => context.helpers.httpRequest({
+              method: 'POST' as IHttpRequestMethods,
+              url,
+              headers: getRpcHeaders(credentials),
+              body: createRpcRequest('eth_blockNumber', []),
+              json: true,
+            })) as JsonRpcResponse<string>;
+            return response.result ? parseInt(response.result, 16) : undefined;
+          } catch {
+            return undefined;
+          }
+        })
+      ),
+    };
+    blockHeightProbes.set(key, probe);
+  }
+  
+  const heights = await probe.heights;
+  const highest = Math.max(...heights.map((height) => height ?? 0));
+  return urls.filter((_url, index) => {
+    const height = heights[index];
+    return height === undefined || highest - height <= maxBlockLag;
+  });
+}
+
+/**
+ * POST a JSON-RPC request, failing over through the RPC URLs in order on
+ * retryable errors. When every URL fails, the round is retried with backoff.
+ */
+async function postRpcRequest<R>(
+  context: IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
+  credentials: CeloCredentials,
+  body: JsonRpcRequest | JsonRpcRequest[]
+): Promise<{ response: R; url: string }> {
+  const urls = await getLiveRpcUrls(context, credentials);
+  
+  return await retryWithBackoff(
+    async () => {
+      let lastError: unknown;
+      for (const url of urls) {
+        try {
+          const response = await limitRequest(context, 'rpc', () => context.helpers.httpRequest({
+            method: 'POST' as IHttpRequestMethods,
+            url,
+            headers: getRpcHeaders(credentials),
+            body,
+            json: true,
+          })) as R;
+          return { response, url };
+        } catch (error) {
+          if (!isRetryableRpcError(error)) {
+            throw error;
+          }
+          lastError = error;
+        }
+      }
+      throw lastError;
+    },
+    RPC_RETRY_ROUNDS,
+    RPC_RETRY_BASE_DELAY,
+    isRetryableRpcError
+  );
+}
+
+function recordRpcCalls(
+  context: object,
+  credentials: CeloCredentials,
+  url: string,
+  calls: Array<{ method: string; itemIndex: number }>
+): void {
+  let endpoint = url;
+  try {
+    endpoint = new URL(url).origin;
+  } catch {
+    // Keep URLs that do not parse as they are
+  }
+  const endpointIndex = getRpcUrls(credentials).indexOf(url);
+  
+  const log = rpcCallLogs.get(context) || [];
+  log.push(...calls.map(({ method, itemIndex }) => ({ method, endpoint, endpointIndex, itemIndex })));
+  rpcCallLogs.set(context, log);
+}
+
+/**
+ * Take the record of which endpoint served each RPC call made through a
+ * context, clearing it
+ */
+export function takeRpcCallLog(context: object): RpcCallRecord[] {
+  const log = rpcCallLogs.get(context) || [];
+  rpcCallLogs.delete(context);
+  return log;
+}
+
+/**
+ * Make a JSON-RPC call to the Celo network. Transport failures and JSON-RPC
+ * errors are thrown as NodeApiErrors tagged with the item index.
  */
 export async function makeRpcCall<T = unknown>(
   context: IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
@@ -80,36 +372,110 @@ export async function makeRpcCall<T = unknown>(
   itemIndex: number = 0
 ): Promise<T> {
   const credentials = await context.getCredentials('celoApi') as CeloCredentials;
-  const rpcUrl = getRpcUrl(credentials);
-  
-  const body = {
-    jsonrpc: '2.0',
-    method,
-    params,
-    id: Date.now(),
-  };
   
-  const response = await context.helpers.httpRequest({
-    method: 'POST' as IHttpRequestMethods,
-    url: rpcUrl,
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body,
-    json: true,
-  });
-  
-  const rpcResponse = response as JsonRpcResponse<T>;
+  let rpcResponse: JsonRpcResponse<T>;
+  try {
+    const { response, url } = await postRpcRequest<JsonRpcResponse<T>>(
+      context,
+      credentials,
+      createRpcRequest(method, params)
+    );
+    rpcResponse = response;
+    recordRpcCalls(context, credentials, url, [{ method, itemIndex }]);
+  } catch (error) {
+    throw new NodeApiError(context.getNode(), error as JsonObject, { itemIndex });
+  }
   
   if (rpcResponse.error) {
-    throw new Error(`RPC Error: ${rpcResponse.error.message} (code: ${rpcResponse.error.code})`);
+    throw toRpcError(context, method, rpcResponse, itemIndex);
   }
   
   return rpcResponse.result as T;
 }
 
 /**
- * Make a call to the Celoscan API
+ * Send JSON-RPC calls as batch requests of at most maxBatchSize calls.
+ * Responses are matched back to their calls by ID, and each call settles on
+ * its own so that one failing call does not fail the rest of its batch.
+ */
+export async function makeRpcBatch<T = unknown>(
+  context: IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
+  calls: RpcBatchCall[],
+  maxBatchSize: number = DEFAULT_RPC_BATCH_SIZE
+): Promise<Array<RpcBatchResult<T>>> {
+  if (!Number.isInteger(maxBatchSize) || maxBatchSize < 1) {
+    throw new Error(`RPC batch size must be a positive integer: ${maxBatchSize}`);
+  }
+  
+  const credentials = await context.getCredentials('celoApi') as CeloCredentials;
+  const results: Array<RpcBatchResult<T>> = [];
+  
+  for (let start = 0; start < calls.length; start += maxBatchSize) {
+    const batch = calls.slice(start, start + maxBatchSize);
+    const requests = batch.map(({ method, params }) => createRpcRequest(method, params));
+    
+    let responses: JsonRpcResponse<T> | Array<JsonRpcResponse<T>>;
+    try {
+      const { response, url } = await postRpcRequest<JsonRpcResponse<T> | Array<JsonRpcResponse<T>>>(
+        context,
+        credentials,
+        requests
+      );
+      responses = response;
+      recordRpcCalls(context, credentials, url, batch);
+    } catch (error) {
+      for (const { itemIndex } of batch) {
+        results.push({ error: new NodeApiError(context.getNode(), error as JsonObject, { itemIndex }) });
+      }
+      continue;
+    }
+    
+    // Endpoints that reject the whole batch answer with a single response object
+    const responsesById = new Map(
+      (Array.isArray(responses) ? responses : []).map((response) => [response.id, response])
+    );
+    
+    batch.forEach(({ method, itemIndex }, index) => {
+      const response = Array.isArray(responses) ? responsesById.get(requests[index].id) : responses;
+      if (response?.error) {
+        results.push({ error: toRpcError(context, method, response, itemIndex) });
+      } else if (!response || !Array.isArray(responses)) {
+        results.push({
+          error: new NodeApiError(context.getNode(), (response || {}) as unknown as JsonObject, {
+            message: `No response to ${method} in the RPC batch`,
+            itemIndex,
+          }),
+        });
+      } else {
+        results.push({ result: response.result as T });
+      }
+    });
+  }
+  
+  return results;
+}
+
+/**
+ * Times an explorer request is retried after a response with Retry-After, and
+ * the longest wait honoured
+ */
+const EXPLORER_MAX_RETRIES = 3;
+const MAX_RETRY_AFTER = 60000;
+
+/**
+ * Milliseconds a rate-limited or unavailable response asks to wait, if any
+ */
+function getRetryAfter(error: unknown): number | undefined {
+  const { response } = (error || {}) as { response?: { status?: number; headers?: Record<string, unknown> } };
+  if (response?.status !== 429 && response?.status !== 503) {
+    return undefined;
+  }
+  return parseRetryAfter(response.headers?.['retry-after']);
+}
+
+/**
+ * Make a call to the Celoscan API. Responses with a Retry-After header are
+ * retried once the requested time has passed.
  */
 export async function makeExplorerCall<T = unknown>(
   context: IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
@@ -129,15 +495,32 @@ export async function makeExplorerCall<T = unknown>(
     queryParams.apikey = credentials.celoscanApiKey;
   }
   
-  const response = await context.helpers.httpRequest({
-    method: 'GET' as IHttpRequestMethods,
-    url: explorerUrl,
-    qs: queryParams,
-    json: true,
-  });
+  let response: IDataObject;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      response = await limitRequest(context, 'explorer', () => context.helpers.httpRequest({
+        method: 'GET' as IHttpRequestMethods,
+        url: explorerUrl,
+        qs: queryParams,
+        json: true,
+      })) as IDataObject;
+      break;
+    } catch (error) {
+      const delay = getRetryAfter(error);
+      if (delay === undefined || delay > MAX_RETRY_AFTER || attempt >= EXPLORER_MAX_RETRIES) {
+        throw new NodeApiError(context.getNode(), error as JsonObject, { itemIndex });
+      }
+      // Hold back the context's other explorer requests for the same time
+      requestLimiters.get(context)?.explorer.pauseUntil(Date.now() + delay);
+      await sleep(delay);
+    }
+  }
   
   if (response.status === '0' && response.message !== 'No transactions found') {
-    throw new Error(`Explorer API Error: ${response.message || response.result}`);
+    throw new NodeApiError(context.getNode(), response as JsonObject, {
+      message: `Explorer API Error: ${response.message || response.result}`,
+      itemIndex,
+    });
   }
   
   return response.result as T;
@@ -151,93 +534,17 @@ export function encodeFunctionCall(
   types: string[],
   values: unknown[]
 ): string {
-  // Simple ABI encoding for common cases
-  const functionSelector = getFunctionSelector(functionName, types);
-  const encodedParams = encodeParameters(types, values);
-  return functionSelector + encodedParams;
-}
-
-/**
- * Get the function selector (first 4 bytes of keccak256 hash)
- */
-function getFunctionSelector(functionName: string, paramTypes: string[]): string {
-  const signature = `${functionName}(${paramTypes.join(',')})`;
-  return keccak256(signature).slice(0, 10);
-}
-
-/**
- * Simple keccak256 implementation using built-in crypto
- */
-function keccak256(input: string): string {
-  // Note: Node.js crypto doesn't have keccak256, so we use a workaround
-  // In production, you'd use a proper keccak256 library
-  // For now, we'll use the web3-style function signature hashing
-  const hash = crypto.createHash('sha3-256').update(input).digest('hex');
-  return '0x' + hash;
-}
-
-/**
- * Encode parameters for a contract call
- */
-function encodeParameters(types: string[], values: unknown[]): string {
-  let encoded = '';
-  
-  for (let i = 0; i < types.length; i++) {
-    const type = types[i];
-    const value = values[i];
-    
-    if (type === 'address') {
-      encoded += padLeft(String(value).toLowerCase().replace('0x', ''), 64);
-    } else if (type === 'uint256' || type === 'uint') {
-      const hex = BigInt(value as string | number).toString(16);
-      encoded += padLeft(hex, 64);
-    } else if (type === 'bool') {
-      encoded += padLeft(value ? '1' : '0', 64);
-    } else if (type === 'bytes32') {
-      encoded += padLeft(String(value).replace('0x', ''), 64);
-    } else if (type === 'string' || type === 'bytes') {
-      const hexValue = Buffer.from(String(value)).toString('hex');
-      const offset = types.length * 32;
-      encoded += padLeft(offset.toString(16), 64);
-      // Dynamic data would be appended at the end
-    }
-  }
-  
-  return encoded;
+  return encodeFunctionCallData(
+    { name: functionName, inputs: types.map(toAbiParameter) },
+    values
+  );
 }
 
 /**
  * Decode a hex result from a contract call
  */
 export function decodeResult(hexResult: string, types: string[]): unknown[] {
-  const data = hexResult.replace('0x', '');
-  const results: unknown[] = [];
-  
-  let offset = 0;
-  for (const type of types) {
-    if (type === 'address') {
-      results.push('0x' + data.slice(offset + 24, offset + 64));
-      offset += 64;
-    } else if (type === 'uint256' || type === 'uint') {
-      results.push(BigInt('0x' + data.slice(offset, offset + 64)).toString());
-      offset += 64;
-    } else if (type === 'bool') {
-      results.push(data.slice(offset + 63, offset + 64) === '1');
-      offset += 64;
-    } else if (type === 'bytes32') {
-      results.push('0x' + data.slice(offset, offset + 64));
-      offset += 64;
-    }
-  }
-  
-  return results;
-}
-
-/**
- * Pad a hex string to the left with zeros
- */
-function padLeft(hex: string, length: number): string {
-  return hex.padStart(length, '0');
+  return decodeAbiParameters(types, hexResult);
 }
 
 /**
@@ -251,7 +558,8 @@ export function formatUnits(value: string | bigint, decimals: number = 18): stri
     return '0';
   }
   
-  const divisor = BigInt(10 ** decimals);
+  // Number powers of ten lose precision beyond 10^22, e.g. for FixidityLib values
+  const divisor = BigInt(10) ** BigInt(decimals);
   const integerPart = valueBigInt / divisor;
   const fractionalPart = valueBigInt % divisor;
   
@@ -269,17 +577,24 @@ export function formatUnits(value: string | bigint, decimals: number = 18): stri
  * Parse CELO/token amount to Wei
  */
 export function parseUnits(value: string, decimals: number = 18): string {
+  if (!/^\d*\.?\d*$/.test(value) || !/\d/.test(value)) {
+    throw new Error(`Invalid amount: ${value}`);
+  }
+  
   const [integerPart, fractionalPart = ''] = value.split('.');
+  if (fractionalPart.replace(/0+$/, '').length > decimals) {
+    throw new Error(`Amount ${value} has more than ${decimals} decimal places`);
+  }
   const paddedFractional = fractionalPart.padEnd(decimals, '0').slice(0, decimals);
   const combined = integerPart + paddedFractional;
   return BigInt(combined).toString();
 }
 
 /**
- * Validate Ethereum/Celo address
+ * Validate an Ethereum/Celo address, including the EIP-55 checksum of mixed-case input
  */
 export function isValidAddress(address: string): boolean {
-  return /^0x[a-fA-F0-9]{40}$/.test(address);
+  return hasValidChecksum(address);
 }
 
 /**
@@ -300,39 +615,162 @@ export function getChainId(network: CeloNetwork): number {
 }
 
 /**
- * Sign a transaction (simplified - for production use proper signing)
+ * Fill in nonce, gas and fees for a transaction and sign it with the
+ * credential's key (derived for the node's Account Index when the
+ * credential holds a mnemonic). Transactions with a fee currency are sent as
+ * CIP-64, an explicit gasPrice selects a legacy transaction, and everything
+ * else uses EIP-1559.
  */
 export async function signTransaction(
   context: IExecuteFunctions,
-  transaction: {
-    to: string;
-    value?: string;
-    data?: string;
-    gas?: string;
-    gasPrice?: string;
-    nonce?: string;
-    feeCurrency?: string;
-  },
+  transaction: TransactionRequest,
   itemIndex: number = 0
 ): Promise<string> {
   const credentials = await context.getCredentials('celoApi') as CeloCredentials;
+  const accountIndex = context.getNodeParameter('accountIndex', itemIndex, 0) as number;
+  const privateKey = getSigningKey(credentials, accountIndex);
+  const from = privateKeyToAddress(privateKey);
+  const type = transaction.type
+    || (transaction.feeCurrency ? 'cip64' : transaction.gasPrice ? 'legacy' : 'eip1559');
   
-  if (!credentials.privateKey) {
-    throw new Error('Private key is required for signing transactions');
-  }
+  const chainId = credentials.network === 'custom'
+    ? await makeRpcCall<string>(context, 'eth_chainId', [], itemIndex)
+    : getChainId(credentials.network);
   
-  // In a production implementation, you would:
-  // 1. Build the transaction with proper RLP encoding
-  // 2. Sign with the private key
-  // 3. Return the signed transaction hex
+  const nonce = transaction.nonce ?? await getNonce(context, from, itemIndex, 'pending');
   
-  // For now, we'll use eth_sendTransaction which requires an unlocked account
-  // or implement proper signing with a library
+  const gas = transaction.gas ?? await estimateGas(
+    context,
+    {
+      from,
+      to: transaction.to,
+      value: transaction.value,
+      data: transaction.data,
+      feeCurrency: transaction.feeCurrency,
+    },
+    itemIndex
+  );
+  
+  const unsigned: UnsignedTransaction = {
+    type,
+    chainId,
+    nonce,
+    gas,
+    to: transaction.to,
+    value: transaction.value || '0',
+    data: transaction.data || '0x',
+    feeCurrency: transaction.feeCurrency,
+  };
+  
+  if (type === 'legacy') {
+    unsigned.gasPrice = transaction.gasPrice ?? await getGasPrice(context, itemIndex);
+  } else {
+    // Fee estimates are quoted in the fee currency when one is given
+    const maxPriorityFeePerGas = transaction.maxPriorityFeePerGas ?? await makeRpcCall<string>(
+      context,
+      'eth_maxPriorityFeePerGas',
+      transaction.feeCurrency ? [transaction.feeCurrency] : [],
+      itemIndex
+    );
+    
+    // Leave room for the base fee to double before the transaction is mined
+    const maxFeePerGas = transaction.maxFeePerGas ?? '0x' + (
+      BigInt(await getGasPrice(context, itemIndex, transaction.feeCurrency)) * BigInt(2) +
+      BigInt(maxPriorityFeePerGas)
+    ).toString(16);
+    
+    unsigned.maxPriorityFeePerGas = maxPriorityFeePerGas;
+    unsigned.maxFeePerGas = maxFeePerGas;
+  }
+  
+  return signTransactionWithKey(unsigned, privateKey).rawTransaction;
+}
+
+/**
+ * Sign a transaction locally and broadcast it with eth_sendRawTransaction
+ */
+export async function signAndSendTransaction(
+  context: IExecuteFunctions,
+  transaction: TransactionRequest,
+  itemIndex: number = 0
+): Promise<string> {
+  const signedTransaction = await signTransaction(context, transaction, itemIndex);
   
-  throw new Error(
-    'Transaction signing requires additional setup. ' +
-    'Please use a signing service or implement proper transaction signing.'
+  const transactionHash = await makeRpcCall<string>(
+    context,
+    'eth_sendRawTransaction',
+    [signedTransaction],
+    itemIndex
   );
+  sentTransactions.set(context, [...(sentTransactions.get(context) || []), transactionHash]);
+  return transactionHash;
+}
+
+/**
+ * Take the hashes of the transactions sent through a context, clearing them
+ */
+export function takeSentTransactions(context: object): string[] {
+  const hashes = sentTransactions.get(context) || [];
+  sentTransactions.delete(context);
+  return hashes;
+}
+
+/**
+ * Poll for a transaction receipt, for transactions that a following
+ * transaction depends on (such as an approval before a swap)
+ */
+export async function waitForTransactionReceipt(
+  context: IExecuteFunctions,
+  transactionHash: string,
+  itemIndex: number = 0,
+  timeoutMs: number = 60000,
+  pollIntervalMs: number = 1000
+): Promise<TransactionReceipt> {
+  const receipt = await pollTransactionReceipt(context, transactionHash, itemIndex, timeoutMs, pollIntervalMs);
+  if (receipt.status !== '0x1') {
+    throw new Error(`Transaction ${transactionHash} reverted`);
+  }
+  return receipt;
+}
+
+/**
+ * Wait until transactions are mined, whether or not they succeeded
+ */
+export async function waitForTransactionsMined(
+  context: IExecuteFunctions,
+  transactionHashes: string[],
+  itemIndex: number = 0
+): Promise<void> {
+  for (const transactionHash of transactionHashes) {
+    await pollTransactionReceipt(context, transactionHash, itemIndex, 60000, 1000);
+  }
+}
+
+async function pollTransactionReceipt(
+  context: IExecuteFunctions,
+  transactionHash: string,
+  itemIndex: number,
+  timeoutMs: number,
+  pollIntervalMs: number
+): Promise<TransactionReceipt> {
+  const deadline = Date.now() + timeoutMs;
+  
+  for (;;) {
+    const receipt = await makeRpcCall<TransactionReceipt | null>(
+      context,
+      'eth_getTransactionReceipt',
+      [transactionHash],
+      itemIndex
+    );
+    
+    if (receipt) {
+      return receipt;
+    }
+    if (Date.now() >= deadline) {
+      throw new Error(`Timed out waiting for transaction ${transactionHash}`);
+    }
+    await sleep(pollIntervalMs);
+  }
 }
 
 /**
@@ -342,7 +780,7 @@ export async function estimateGas(
   context: IExecuteFunctions,
   transaction: {
     from?: string;
-    to: string;
+    to?: string;
     value?: string;
     data?: string;
     feeCurrency?: string;
@@ -363,27 +801,29 @@ export async function estimateGas(
 export async function getNonce(
   context: IExecuteFunctions,
   address: string,
-  itemIndex: number = 0
+  itemIndex: number = 0,
+  blockTag: string = 'latest'
 ): Promise<string> {
   return await makeRpcCall<string>(
     context,
     'eth_getTransactionCount',
-    [address, 'latest'],
+    [address, blockTag],
     itemIndex
   );
 }
 
 /**
- * Get current gas price
+ * Get current gas price, optionally quoted in a fee currency
  */
 export async function getGasPrice(
   context: IExecuteFunctions,
-  itemIndex: number = 0
+  itemIndex: number = 0,
+  feeCurrency?: string
 ): Promise<string> {
   return await makeRpcCall<string>(
     context,
     'eth_gasPrice',
-    [],
+    feeCurrency ? [feeCurrency] : [],
     itemIndex
   );
 }
@@ -424,6 +864,23 @@ export async function getBlock(
   );
 }
 
+/**
+ * Get block by hash
+ */
+export async function getBlockByHash(
+  context: IExecuteFunctions,
+  blockHash: string,
+  includeTransactions: boolean = false,
+  itemIndex: number = 0
+): Promise<unknown> {
+  return await makeRpcCall(
+    context,
+    'eth_getBlockByHash',
+    [blockHash, includeTransactions],
+    itemIndex
+  );
+}
+
 /**
  * Call a contract function (read-only)
  */
@@ -431,16 +888,246 @@ export async function callContract(
   context: IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
   to: string,
   data: string,
-  itemIndex: number = 0
+  itemIndex: number = 0,
+  blockTag: string = 'latest'
 ): Promise<string> {
   return await makeRpcCall<string>(
     context,
     'eth_call',
-    [{ to, data }, 'latest'],
+    [{ to, data }, blockTag],
     itemIndex
   );
 }
 
+/**
+ * Call a read-only contract function and decode its outputs by name
+ * (unnamed outputs are keyed by position)
+ */
+export async function readContract(
+  context: IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
+  to: string,
+  fragment: AbiFunctionFragment,
+  args: unknown[] = [],
+  itemIndex: number = 0,
+  blockTag: string = 'latest'
+): Promise<Record<string, unknown>> {
+  const result = await callContract(context, to, encodeFunctionCallData(fragment, args), itemIndex, blockTag);
+  return decodeFunctionResult(fragment, result);
+}
+
+/**
+ * Maximum number of reads aggregated into one Multicall3 call
+ */
+const MULTICALL_PAGE_SIZE = 100;
+
+/**
+ * Read several contract functions through Multicall3 aggregate3, one eth_call
+ * per page of reads. Each read succeeds or fails on its own; a revert or an
+ * undecodable result is reported in its result instead of failing the rest.
+ * Custom networks may lack Multicall3, so their reads are made one by one.
+ */
+export async function readContracts(
+  context: IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
+  reads: ContractRead[],
+  itemIndex: number = 0,
+  blockTag: string = 'latest'
+): Promise<ContractReadResult[]> {
+  const credentials = await context.getCredentials('celoApi') as CeloCredentials;
+  
+  if (credentials.network === 'custom') {
+    return await Promise.all(
+      reads.map(async ({ target, fragment, args = [] }): Promise<ContractReadResult> => {
+        try {
+          return { success: true, result: await readContract(context, target, fragment, args, itemIndex, blockTag) };
+        } catch (error) {
+          return { success: false, error: (error as Error).message };
+        }
+      })
+    );
+  }
+  
+  const results: ContractReadResult[] = [];
+  for (let start = 0; start < reads.length; start += MULTICALL_PAGE_SIZE) {
+    const page = reads.slice(start, start + MULTICALL_PAGE_SIZE);
+    const { returnData } = await readContract(
+      context,
+      MULTICALL3_ADDRESS,
+      ABI_FRAGMENTS.multicall3.aggregate3,
+      [page.map(({ target, fragment, args = [] }) => [target, true, encodeFunctionCallData(fragment, args)])],
+      itemIndex,
+      blockTag
+    );
+    
+    (returnData as Array<{ success: boolean; returnData: string }>).forEach((call, index) => {
+      const { fragment } = page[index];
+      if (!call.success) {
+        results.push({ success: false, error: `${fragment.name} reverted` });
+        return;
+      }
+      try {
+        results.push({ success: true, result: decodeFunctionResult(fragment, call.returnData) });
+      } catch (error) {
+        // Calls to addresses without code succeed with empty return data
+        results.push({ success: false, error: `${fragment.name} returned invalid data: ${(error as Error).message}` });
+      }
+    });
+  }
+  
+  return results;
+}
+
+/**
+ * How long addresses read from the Registry are trusted
+ */
+const REGISTRY_CACHE_TTL = 3600000;
+
+const registryCaches = new Map<number, { readAt: number; addresses: Promise<Map<string, string>> }>();
+const customChainIds = new Map<string, Promise<number>>();
+
+/**
+ * Chain ID of the credential's network, queried once per RPC URL list for
+ * custom networks
+ */
+export async function getCredentialChainId(
+  context: IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
+  credentials: CeloCredentials,
+  itemIndex: number
+): Promise<number> {
+  if (credentials.network !== 'custom') {
+    return getChainId(credentials.network);
+  }
+  
+  const key = getRpcUrls(credentials).join('\n');
+  let chainId = customChainIds.get(key);
+  if (!chainId) {
+    chainId = makeRpcCall<string>(context, 'eth_chainId', [], itemIndex).then((result) => parseInt(result, 16));
+    customChainIds.set(key, chainId);
+    chainId.catch(() => customChainIds.delete(key));
+  }
+  return await chainId;
+}
+
+/**
+ * Start reading the Registry for a chain and cache the pending read at once,
+ * so that concurrent lookups share it. A failed read is not cached.
+ */
+function loadRegistry(
+  context: IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
+  chainId: number,
+  itemIndex: number
+): Promise<Map<string, string>> {
+  const addresses = readContracts(
+    context,
+    REGISTRY_CONTRACT_NAMES.map((name) => ({
+      target: REGISTRY_ADDRESS,
+      fragment: ABI_FRAGMENTS.registry.getAddressForString,
+      args: [name],
+    })),
+    itemIndex
+  ).then((reads) => {
+    const registered = new Map<string, string>();
+    reads.forEach((read, index) => {
+      if (read.success && BigInt(read.result[0] as string) !== BigInt(0)) {
+        registered.set(REGISTRY_CONTRACT_NAMES[index], read.result[0] as string);
+      }
+    });
+    return registered;
+  });
+  
+  const entry = { readAt: Date.now(), addresses };
+  registryCaches.set(chainId, entry);
+  addresses.catch(() => {
+    if (registryCaches.get(chainId) === entry) {
+      registryCaches.delete(chainId);
+    }
+  });
+  return addresses;
+}
+
+/**
+ * Read the address of every core contract from the Registry in one multicall,
+ * refreshing the cache for the chain. Unregistered contracts are left out.
+ */
+export async function readRegistry(
+  context: IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
+  itemIndex: number = 0
+): Promise<Map<string, string>> {
+  const credentials = await context.getCredentials('celoApi') as CeloCredentials;
+  const chainId = await getCredentialChainId(context, credentials, itemIndex);
+  return await loadRegistry(context, chainId, itemIndex);
+}
+
+/**
+ * Resolve a core contract address through the Registry, cached per chain ID.
+ * Contracts the Registry does not hold, such as the Mento Broker, and every
+ * contract when the Registry cannot be read, fall back to the offline
+ * addresses of mainnet and Alfajores.
+ */
+export async function resolveContractAddress(
+  context: IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
+  contractName: CoreContractName,
+  itemIndex: number = 0
+): Promise<string> {
+  if (contractName === 'Registry') {
+    return REGISTRY_ADDRESS;
+  }
+  
+  const credentials = await context.getCredentials('celoApi') as CeloCredentials;
+  const hasOfflineAddresses = credentials.network === 'mainnet' || credentials.network === 'alfajores';
+  
+  let registered: Map<string, string> | undefined;
+  try {
+    const chainId = await getCredentialChainId(context, credentials, itemIndex);
+    const cached = registryCaches.get(chainId);
+    registered = await (cached && Date.now() - cached.readAt <= REGISTRY_CACHE_TTL
+      ? cached.addresses
+      : loadRegistry(context, chainId, itemIndex));
+  } catch (error) {
+    if (!hasOfflineAddresses) {
+      throw error;
+    }
+  }
+  
+  const address = registered?.get(contractName);
+  if (address) {
+    return address;
+  }
+  if (registered && !hasOfflineAddresses) {
+    throw new Error(`${contractName} is not registered in the Registry of the ${credentials.network} network`);
+  }
+  return getContractAddress(credentials.network, contractName);
+}
+
+/**
+ * Check a signature against a contract wallet with ERC-1271 isValidSignature.
+ * Accounts without code, and contracts that revert, are treated as invalid.
+ */
+export async function isValidErc1271Signature(
+  context: IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
+  address: string,
+  digest: string,
+  signature: string,
+  itemIndex: number = 0
+): Promise<boolean> {
+  const code = await makeRpcCall<string>(context, 'eth_getCode', [address, 'latest'], itemIndex);
+  if (!code || code === '0x') {
+    return false;
+  }
+
+  const data = encodeFunctionCallData(ABI_FRAGMENTS.erc1271.isValidSignature, [digest, signature]);
+  let result: string;
+  try {
+    result = await callContract(context, address, data, itemIndex);
+  } catch (error) {
+    if ((error as Error).message.startsWith('RPC Error:')) {
+      return false;
+    }
+    throw error;
+  }
+
+  return result.slice(0, 10).toLowerCase() === ERC1271_MAGIC_VALUE;
+}
+
 /**
  * Get logs/events
  */
@@ -461,3 +1148,94 @@ export async function getLogs(
     itemIndex
   );
 }
+
+/**
+ * Fetch the verified ABI of a contract from the explorer
+ */
+export async function getVerifiedContractAbi(
+  context: IExecuteFunctions | ILoadOptionsFunctions,
+  address: string,
+  itemIndex: number = 0
+): Promise<unknown[]> {
+  const abi = await makeExplorerCall<string>(
+    context,
+    {
+      module: 'contract',
+      action: 'getabi',
+      address,
+    },
+    itemIndex
+  );
+  
+  try {
+    return JSON.parse(abi) as unknown[];
+  } catch {
+    throw new Error(`Contract ${address} is not verified on the explorer`);
+  }
+}
+
+/**
+ * Credential test: query eth_chainId on every RPC URL and check it matches the
+ * selected network
+ */
+export async function testCeloCredentials(
+  this: ICredentialTestFunctions,
+  credential: ICredentialsDecrypted
+): Promise<INodeCredentialTestResult> {
+  const credentials = credential.data as unknown as CeloCredentials;
+  
+  try {
+    const urls = getRpcUrls(credentials);
+    const chainIds: number[] = [];
+    
+    for (let index = 0; index < urls.length; index++) {
+      // Name the failing URL by position only when there are several
+      const label = urls.length > 1 ? `RPC URL ${index + 1}: ` : '';
+      const response = await this.helpers.request({
+        method: 'POST',
+        uri: urls[index],
+        headers: getRpcHeaders(credentials),
+        body: {
+          jsonrpc: '2.0',
+          method: 'eth_chainId',
+          params: [],
+          id: 1,
+        },
+        json: true,
+      }) as JsonRpcResponse<string>;
+      
+      if (response.error || !response.result) {
+        return {
+          status: 'Error',
+          message: `${label}RPC Error: ${response.error?.message || 'no chain ID returned'}`,
+        };
+      }
+      
+      const chainId = parseInt(response.result, 16);
+      
+      if (credentials.network !== 'custom' && chainId !== getChainId(credentials.network)) {
+        return {
+          status: 'Error',
+          message: `${label}RPC endpoint is on chain ${chainId}, but ${CELO_NETWORKS[credentials.network].name} is chain ${getChainId(credentials.network)}`,
+        };
+      }
+      if (chainIds.length && chainId !== chainIds[0]) {
+        return {
+          status: 'Error',
+          message: `${label}RPC endpoint is on chain ${chainId}, but RPC URL 1 is on chain ${chainIds[0]}`,
+        };
+      }
+      chainIds.push(chainId);
+    }
+    
+    return {
+      status: 'OK',
+      message: `Connected to chain ${chainIds[0]}`,
+    };
+  } catch (error) {
+    return {
+      status: 'Error',
+      message: (error as Error).message,
+    };
+  }
+}
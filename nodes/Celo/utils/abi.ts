@@ -0,0 +1,622 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { hasValidChecksum, toChecksumAddress } from './address';
+import { keccak256 } from './keccak';
+import type { AbiParameter, AbiFunctionFragment } from './types';
+
+/**
+ * Size of an ABI word in bytes
+ */
+const WORD_SIZE = 32;
+
+const ARRAY_TYPE = /^(.*)\[(\d*)\]$/;
+const INTEGER_TYPE = /^(u?)int(\d*)$/;
+const FIXED_BYTES_TYPE = /^bytes(\d+)$/;
+
+/**
+ * Split a comma-separated list of types at the top level only,
+ * leaving commas inside tuple parentheses untouched
+ */
+function splitTopLevel(list: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of list) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  if (current.trim() !== '') {
+    parts.push(current.trim());
+  }
+
+  return parts;
+}
+
+/**
+ * Split text into whitespace-separated tokens, ignoring whitespace inside parentheses
+ */
+function splitTokens(text: string): string[] {
+  const tokens: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of text) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+
+    if (/\s/.test(char) && depth === 0) {
+      if (current !== '') tokens.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  if (current !== '') {
+    tokens.push(current);
+  }
+
+  return tokens;
+}
+
+/**
+ * Turn a type string such as `uint256`, `(address,uint256)[]`,
+ * `tuple(bool,bytes)` or `address to` into an ABI parameter
+ * with parsed tuple components and optional name
+ */
+export function toAbiParameter(param: string | AbiParameter): AbiParameter {
+  if (typeof param !== 'string') {
+    return param;
+  }
+
+  const tokens = splitTokens(param.trim());
+  if (tokens.length === 0) {
+    throw new Error('Empty ABI type');
+  }
+
+  let type = tokens[0];
+  const lastToken = tokens[tokens.length - 1];
+  const name = tokens.length > 1 && !/^(memory|calldata|storage|indexed|payable)$/.test(lastToken)
+    ? lastToken
+    : undefined;
+
+  if (type.startsWith('tuple(')) {
+    type = type.slice('tuple'.length);
+  }
+
+  if (type.startsWith('(')) {
+    let depth = 0;
+    let close = -1;
+    for (let i = 0; i < type.length; i++) {
+      if (type[i] === '(') depth++;
+      if (type[i] === ')') depth--;
+      if (depth === 0) {
+        close = i;
+        break;
+      }
+    }
+
+    if (close === -1) {
+      throw new Error(`Unbalanced parentheses in ABI type: ${param}`);
+    }
+
+    return {
+      name,
+      type: 'tuple' + type.slice(close + 1),
+      components: splitTopLevel(type.slice(1, close)).map(toAbiParameter),
+    };
+  }
+
+  return name === undefined ? { type } : { name, type };
+}
+
+/**
+ * Get the element parameter of an array parameter, or null if not an array
+ */
+function getArrayInfo(param: AbiParameter): { element: AbiParameter; length: number | null } | null {
+  const match = ARRAY_TYPE.exec(param.type);
+  if (!match) {
+    return null;
+  }
+
+  return {
+    element: { ...param, type: match[1] },
+    length: match[2] === '' ? null : parseInt(match[2], 10),
+  };
+}
+
+/**
+ * Get the canonical type used in signatures, e.g. `uint` becomes `uint256`
+ * and tuples are expanded to their component types
+ */
+export function getCanonicalType(param: string | AbiParameter): string {
+  const parameter = toAbiParameter(param);
+
+  if (parameter.type.startsWith('tuple')) {
+    const suffix = parameter.type.slice('tuple'.length);
+    const components = (parameter.components || []).map(getCanonicalType).join(',');
+    return `(${components})${suffix}`;
+  }
+
+  return parameter.type
+    .replace(/^uint(?=$|\[)/, 'uint256')
+    .replace(/^int(?=$|\[)/, 'int256');
+}
+
+/**
+ * Build the canonical signature of a function, e.g. `transfer(address,uint256)`
+ */
+export function getFunctionSignature(fragment: AbiFunctionFragment): string {
+  return `${fragment.name}(${fragment.inputs.map(getCanonicalType).join(',')})`;
+}
+
+/**
+ * Compute the 4-byte selector of a function fragment
+ */
+export function getFunctionSelector(fragment: AbiFunctionFragment): string {
+  return keccak256(getFunctionSignature(fragment)).slice(0, 10);
+}
+
+/**
+ * Parse a human-readable signature such as `vote(address,uint256,address,address)`
+ */
+export function parseFunctionSignature(signature: string): AbiFunctionFragment {
+  const match = /^\s*(?:function\s+)?([A-Za-z_$][\w$]*)\s*\((.*)\)\s*$/.exec(signature);
+  if (!match) {
+    throw new Error(`Invalid function signature: ${signature}`);
+  }
+
+  return {
+    name: match[1],
+    inputs: splitTopLevel(match[2]).map(toAbiParameter),
+    type: 'function',
+  };
+}
+
+/**
+ * Check whether a parameter is dynamically sized
+ */
+export function isDynamicType(param: AbiParameter): boolean {
+  if (param.type === 'string' || param.type === 'bytes') {
+    return true;
+  }
+
+  const array = getArrayInfo(param);
+  if (array) {
+    return array.length === null || isDynamicType(array.element);
+  }
+
+  if (param.type === 'tuple') {
+    return (param.components || []).some(isDynamicType);
+  }
+
+  return false;
+}
+
+/**
+ * Convert a hex string to bytes, validating its format
+ */
+export function hexToBytes(hex: string): Buffer {
+  const clean = hex.startsWith('0x') || hex.startsWith('0X') ? hex.slice(2) : hex;
+  if (!/^[0-9a-fA-F]*$/.test(clean) || clean.length % 2 !== 0) {
+    throw new Error(`Invalid hex value: ${hex}`);
+  }
+  return Buffer.from(clean, 'hex');
+}
+
+/**
+ * Coerce a numeric input (number, bigint, decimal or hex string) to bigint
+ */
+function toBigInt(value: unknown, type: string): bigint {
+  if (typeof value === 'bigint') {
+    return value;
+  }
+  if (typeof value === 'number' && Number.isInteger(value)) {
+    return BigInt(value);
+  }
+  if (typeof value === 'string' && /^-?(0x[0-9a-fA-F]+|\d+)$/.test(value.trim())) {
+    const trimmed = value.trim();
+    return trimmed.startsWith('-') ? -BigInt(trimmed.slice(1)) : BigInt(trimmed);
+  }
+  throw new Error(`Invalid ${type} value: ${String(value)}`);
+}
+
+/**
+ * Encode a bigint into a single 32-byte word (two's complement for negatives)
+ */
+function encodeWord(value: bigint): Buffer {
+  const modulus = BigInt(1) << BigInt(256);
+  const unsigned = value < BigInt(0) ? modulus + value : value;
+  return Buffer.from(unsigned.toString(16).padStart(64, '0'), 'hex');
+}
+
+/**
+ * Right-pad bytes to a multiple of the word size
+ */
+function padRight(data: Buffer): Buffer {
+  const paddedLength = Math.ceil(data.length / WORD_SIZE) * WORD_SIZE;
+  return Buffer.concat([data, Buffer.alloc(paddedLength - data.length)]);
+}
+
+/**
+ * Encode an integer type with range checking
+ */
+function encodeInteger(param: AbiParameter, value: unknown): Buffer {
+  const match = INTEGER_TYPE.exec(param.type) as RegExpExecArray;
+  const signed = match[1] === '';
+  const bits = match[2] === '' ? 256 : parseInt(match[2], 10);
+
+  if (bits === 0 || bits > 256 || bits % 8 !== 0) {
+    throw new Error(`Invalid ABI type: ${param.type}`);
+  }
+
+  const number = toBigInt(value, param.type);
+  const min = signed ? -(BigInt(1) << BigInt(bits - 1)) : BigInt(0);
+  const max = signed ? (BigInt(1) << BigInt(bits - 1)) - BigInt(1) : (BigInt(1) << BigInt(bits)) - BigInt(1);
+
+  if (number < min || number > max) {
+    throw new Error(`Value ${number.toString()} is out of range for ${param.type}`);
+  }
+
+  return encodeWord(number);
+}
+
+/**
+ * Order tuple values by component, accepting a positional array or an object keyed by name
+ */
+function getTupleValues(param: AbiParameter, value: unknown): unknown[] {
+  const components = param.components || [];
+
+  if (Array.isArray(value)) {
+    return value;
+  }
+
+  if (value !== null && typeof value === 'object') {
+    return components.map((component, index) => {
+      const record = value as Record<string, unknown>;
+      if (component.name && component.name in record) {
+        return record[component.name];
+      }
+      return record[index];
+    });
+  }
+
+  throw new Error(`Invalid tuple value: ${String(value)}`);
+}
+
+/**
+ * Encode a single value of the given parameter type
+ */
+function encodeValue(param: AbiParameter, value: unknown): Buffer {
+  const array = getArrayInfo(param);
+  if (array) {
+    if (!Array.isArray(value)) {
+      throw new Error(`Expected an array for ${param.type}`);
+    }
+    if (array.length !== null && value.length !== array.length) {
+      throw new Error(`Expected ${array.length} elements for ${param.type}, got ${value.length}`);
+    }
+
+    const encoded = encodeSequence(value.map(() => array.element), value);
+    return array.length === null
+      ? Buffer.concat([encodeWord(BigInt(value.length)), encoded])
+      : encoded;
+  }
+
+  if (param.type === 'tuple') {
+    const components = param.components || [];
+    const values = getTupleValues(param, value);
+    if (values.length !== components.length) {
+      throw new Error(`Expected ${components.length} tuple values, got ${values.length}`);
+    }
+    return encodeSequence(components, values);
+  }
+
+  if (param.type === 'address') {
+    const address = String(value);
+    if (!/^0x[0-9a-fA-F]{40}$/.test(address)) {
+      throw new Error(`Invalid address: ${address}`);
+    }
+    if (!hasValidChecksum(address)) {
+      throw new Error(`Invalid address checksum: ${address}`);
+    }
+    return encodeWord(BigInt(address));
+  }
+
+  if (param.type === 'bool') {
+    if (value === true || value === 'true' || value === 1 || value === '1') {
+      return encodeWord(BigInt(1));
+    }
+    if (value === false || value === 'false' || value === 0 || value === '0') {
+      return encodeWord(BigInt(0));
+    }
+    throw new Error(`Invalid bool value: ${String(value)}`);
+  }
+
+  if (param.type === 'string') {
+    const data = Buffer.from(String(value), 'utf8');
+    return Buffer.concat([encodeWord(BigInt(data.length)), padRight(data)]);
+  }
+
+  if (param.type === 'bytes') {
+    const data = Buffer.isBuffer(value) || value instanceof Uint8Array
+      ? Buffer.from(value)
+      : hexToBytes(String(value));
+    return Buffer.concat([encodeWord(BigInt(data.length)), padRight(data)]);
+  }
+
+  const fixedBytes = FIXED_BYTES_TYPE.exec(param.type);
+  if (fixedBytes) {
+    const size = parseInt(fixedBytes[1], 10);
+    if (size === 0 || size > 32) {
+      throw new Error(`Invalid ABI type: ${param.type}`);
+    }
+    const data = hexToBytes(String(value));
+    if (data.length > size) {
+      throw new Error(`Value is too long for ${param.type}`);
+    }
+    return padRight(Buffer.concat([data, Buffer.alloc(size - data.length)]));
+  }
+
+  if (INTEGER_TYPE.test(param.type)) {
+    return encodeInteger(param, value);
+  }
+
+  throw new Error(`Unsupported ABI type: ${param.type}`);
+}
+
+/**
+ * Encode a sequence of values using the head/tail layout shared by
+ * function arguments, tuples and arrays
+ */
+function encodeSequence(params: readonly AbiParameter[], values: unknown[]): Buffer {
+  const encoded = params.map((param, index) => encodeValue(param, values[index]));
+  const dynamic = params.map(isDynamicType);
+
+  const headSize = encoded.reduce(
+    (size, part, index) => size + (dynamic[index] ? WORD_SIZE : part.length),
+    0
+  );
+
+  const heads: Buffer[] = [];
+  const tails: Buffer[] = [];
+  let tailOffset = headSize;
+
+  encoded.forEach((part, index) => {
+    if (dynamic[index]) {
+      heads.push(encodeWord(BigInt(tailOffset)));
+      tails.push(part);
+      tailOffset += part.length;
+    } else {
+      heads.push(part);
+    }
+  });
+
+  return Buffer.concat([...heads, ...tails]);
+}
+
+/**
+ * ABI-encode values for the given parameter types.
+ * Returns unprefixed hex, ready to append to a function selector.
+ */
+export function encodeAbiParameters(
+  params: ReadonlyArray<string | AbiParameter>,
+  values: unknown[]
+): string {
+  if (params.length !== values.length) {
+    throw new Error(`Expected ${params.length} values, got ${values.length}`);
+  }
+
+  return encodeSequence(params.map(toAbiParameter), values).toString('hex');
+}
+
+/**
+ * Encode a full function call: selector followed by the encoded arguments
+ */
+export function encodeFunctionCallData(fragment: AbiFunctionFragment, values: unknown[]): string {
+  return getFunctionSelector(fragment) + encodeAbiParameters(fragment.inputs, values);
+}
+
+/**
+ * Get the encoded size in bytes of a static parameter
+ */
+function getStaticSize(param: AbiParameter): number {
+  const array = getArrayInfo(param);
+  if (array && array.length !== null) {
+    return array.length * getStaticSize(array.element);
+  }
+
+  if (param.type === 'tuple') {
+    return (param.components || []).reduce((size, component) => size + getStaticSize(component), 0);
+  }
+
+  return WORD_SIZE;
+}
+
+/**
+ * Read a 32-byte word at the given position as an unsigned bigint
+ */
+function readWord(data: Buffer, position: number): bigint {
+  if (position + WORD_SIZE > data.length) {
+    throw new Error(`ABI data too short: expected a word at byte ${position}, got ${data.length} bytes`);
+  }
+  return BigInt('0x' + data.subarray(position, position + WORD_SIZE).toString('hex'));
+}
+
+/**
+ * Read a word that is used as an offset or length
+ */
+function readSize(data: Buffer, position: number): number {
+  const size = readWord(data, position);
+  if (size > BigInt(data.length)) {
+    throw new Error(`ABI offset or length ${size.toString()} exceeds data size ${data.length}`);
+  }
+  return Number(size);
+}
+
+/**
+ * Read a length-prefixed byte string starting at the given position
+ */
+function readDynamicBytes(data: Buffer, position: number): Buffer {
+  const length = readSize(data, position);
+  const start = position + WORD_SIZE;
+  if (start + length > data.length) {
+    throw new Error(`ABI data too short: expected ${length} bytes at byte ${start}`);
+  }
+  return data.subarray(start, start + length);
+}
+
+/**
+ * Key decoded values by parameter name, falling back to the position for unnamed parameters
+ */
+function toNamedResult(params: readonly AbiParameter[], values: unknown[]): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  params.forEach((param, index) => {
+    result[param.name || String(index)] = values[index];
+  });
+  return result;
+}
+
+/**
+ * Decode a single value whose encoding starts at the given position
+ */
+function decodeValue(param: AbiParameter, data: Buffer, position: number): unknown {
+  const array = getArrayInfo(param);
+  if (array) {
+    const length = array.length === null ? readSize(data, position) : array.length;
+    const base = array.length === null ? position + WORD_SIZE : position;
+    const elements = new Array<AbiParameter>(length).fill(array.element);
+    return decodeSequence(elements, data, base);
+  }
+
+  if (param.type === 'tuple') {
+    const components = param.components || [];
+    return toNamedResult(components, decodeSequence(components, data, position));
+  }
+
+  if (param.type === 'string') {
+    return readDynamicBytes(data, position).toString('utf8');
+  }
+
+  if (param.type === 'bytes') {
+    return '0x' + readDynamicBytes(data, position).toString('hex');
+  }
+
+  const word = readWord(data, position);
+
+  if (param.type === 'address') {
+    return toChecksumAddress('0x' + word.toString(16).padStart(64, '0').slice(-40));
+  }
+
+  if (param.type === 'bool') {
+    return word !== BigInt(0);
+  }
+
+  const fixedBytes = FIXED_BYTES_TYPE.exec(param.type);
+  if (fixedBytes) {
+    const size = parseInt(fixedBytes[1], 10);
+    return '0x' + data.subarray(position, position + size).toString('hex');
+  }
+
+  const integer = INTEGER_TYPE.exec(param.type);
+  if (integer) {
+    const bits = integer[2] === '' ? 256 : parseInt(integer[2], 10);
+    const signBit = BigInt(1) << BigInt(bits - 1);
+    const modulus = BigInt(1) << BigInt(256);
+    const isNegative = integer[1] === '' && word >= modulus - signBit;
+    return (isNegative ? word - modulus : word).toString();
+  }
+
+  throw new Error(`Unsupported ABI type: ${param.type}`);
+}
+
+/**
+ * Decode a head/tail encoded sequence that starts at the given base position
+ */
+function decodeSequence(params: readonly AbiParameter[], data: Buffer, base: number): unknown[] {
+  const values: unknown[] = [];
+  let cursor = base;
+
+  for (const param of params) {
+    if (isDynamicType(param)) {
+      values.push(decodeValue(param, data, base + readSize(data, cursor)));
+      cursor += WORD_SIZE;
+    } else {
+      values.push(decodeValue(param, data, cursor));
+      cursor += getStaticSize(param);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Decode ABI-encoded data into positional values.
+ * Integers are returned as decimal strings, bytes as hex, and tuples
+ * as objects keyed by component name.
+ */
+export function decodeAbiParameters(
+  params: ReadonlyArray<string | AbiParameter>,
+  hex: string
+): unknown[] {
+  return decodeSequence(params.map(toAbiParameter), hexToBytes(hex), 0);
+}
+
+/**
+ * Decode the return data of a function call into an object keyed by output name
+ */
+export function decodeFunctionResult(fragment: AbiFunctionFragment, hex: string): Record<string, unknown> {
+  const outputs = (fragment.outputs || []).map(toAbiParameter);
+  return toNamedResult(outputs, decodeAbiParameters(outputs, hex));
+}
+
+/**
+ * Extract the function fragments from a JSON ABI, given either as a string or as parsed JSON
+ */
+export function parseAbiFunctions(abi: unknown): AbiFunctionFragment[] {
+  let parsed = abi;
+
+  if (typeof abi === 'string') {
+    try {
+      parsed = JSON.parse(abi);
+    } catch (error) {
+      throw new Error(`Invalid ABI JSON: ${(error as Error).message}`);
+    }
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new Error('ABI must be a JSON array of fragments');
+  }
+
+  return (parsed as Array<Partial<AbiFunctionFragment>>)
+    .filter((fragment) => fragment && fragment.type === 'function' && typeof fragment.name === 'string')
+    .map((fragment) => ({
+      ...fragment,
+      name: fragment.name as string,
+      inputs: fragment.inputs || [],
+      outputs: fragment.outputs || [],
+    }));
+}
+
+/**
+ * Check whether a function only reads state and can be executed with eth_call
+ */
+export function isReadOnlyFunction(fragment: AbiFunctionFragment & { constant?: boolean }): boolean {
+  return fragment.stateMutability === 'view'
+    || fragment.stateMutability === 'pure'
+    || fragment.constant === true;
+}
@@ -0,0 +1,120 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { keccak256Bytes } from './keccak';
+
+/**
+ * EIP-55 checksum addresses.
+ *
+ * The case of each hex letter encodes one bit of the Keccak-256 hash of the
+ * lowercase address, so most typos in a mixed-case address are detectable.
+ * All-lowercase and all-uppercase addresses carry no checksum.
+ */
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+/**
+ * Encode an address with its EIP-55 checksum
+ */
+export function toChecksumAddress(address: string): string {
+  if (!ADDRESS_PATTERN.test(address)) {
+    throw new Error(`Invalid address format: ${address}`);
+  }
+
+  const lower = address.slice(2).toLowerCase();
+  const hash = keccak256Bytes(Buffer.from(lower, 'utf8')).toString('hex');
+
+  let checksummed = '0x';
+  for (let i = 0; i < lower.length; i++) {
+    checksummed += parseInt(hash[i], 16) >= 8 ? lower[i].toUpperCase() : lower[i];
+  }
+  return checksummed;
+}
+
+/**
+ * Whether an address is well-formed and, if mixed-case, correctly checksummed
+ */
+export function hasValidChecksum(address: string): boolean {
+  if (!ADDRESS_PATTERN.test(address)) {
+    return false;
+  }
+
+  const hex = address.slice(2);
+  if (hex === hex.toLowerCase() || hex === hex.toUpperCase()) {
+    return true;
+  }
+  return toChecksumAddress(address) === address;
+}
+
+/**
+ * Validate an address and return it checksummed
+ */
+export function getAddress(address: string): string {
+  const checksummed = toChecksumAddress(address);
+  if (!hasValidChecksum(address)) {
+    throw new Error(`Invalid address checksum: ${address}`);
+  }
+  return checksummed;
+}
+
+/**
+ * Fields that hold addresses in RPC results, explorer records and node
+ * outputs. Keys ending in `Address` or `Addresses` are addresses as well.
+ */
+const ADDRESS_KEYS = new Set([
+  'account',
+  'address',
+  'beneficiary',
+  'contract',
+  'feeCurrency',
+  'from',
+  'gatewayFeeRecipient',
+  'group',
+  'issuer',
+  'miner',
+  'owner',
+  'proposer',
+  'recipient',
+  'signer',
+  'spender',
+  'to',
+  'validator',
+]);
+
+function isAddressKey(key: string): boolean {
+  return ADDRESS_KEYS.has(key) || /Address(es)?$/.test(key);
+}
+
+function checksumAddressField(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return ADDRESS_PATTERN.test(value) ? toChecksumAddress(value) : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(checksumAddressField);
+  }
+  return checksumAddressFields(value);
+}
+
+/**
+ * Checksum the address fields of a JSON value, such as a raw RPC result.
+ * Other strings are left as they are, even when they look like an address,
+ * since a bytes20 value or passthrough data is not one.
+ */
+export function checksumAddressFields<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map((item) => checksumAddressFields(item)) as unknown as T;
+  }
+  // Only plain objects are walked, leaving values such as Buffers and Dates intact
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = isAddressKey(key) ? checksumAddressField(item) : checksumAddressFields(item);
+    }
+    return result as T;
+  }
+  return value;
+}
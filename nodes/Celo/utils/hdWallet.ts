@@ -0,0 +1,171 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { createHash, createHmac, pbkdf2Sync } from 'crypto';
+import { BIP39_ENGLISH_WORDLIST } from '../constants/bip39.wordlist';
+import { DERIVATION_PATHS } from '../constants/celo.constants';
+import { getPublicKey, privateKeyToAddress, privateKeyTweakAdd } from './secp256k1';
+
+/**
+ * HD wallets: BIP-39 mnemonics, BIP-32 key derivation and BIP-44 paths.
+ *
+ * Valora and the Celo CLI derive accounts on coin type 52752, while
+ * MetaMask and other Ethereum wallets use coin type 60.
+ */
+
+const HARDENED_OFFSET = 0x80000000;
+
+export type DerivationPathType = keyof typeof DERIVATION_PATHS;
+
+export interface DerivedAccount {
+  address: string;
+  privateKey: string;
+  path: string;
+  index: number;
+}
+
+interface ExtendedKey {
+  privateKey: Buffer;
+  chainCode: Buffer;
+}
+
+/**
+ * Normalize a mnemonic as BIP-39 specifies for the seed: NFKD, with words
+ * separated by single spaces. Case is kept, since it changes the seed.
+ */
+function normalizeMnemonic(mnemonic: string): string {
+  return mnemonic.normalize('NFKD').trim().split(/\s+/).join(' ');
+}
+
+/**
+ * Check the word count, the words and the checksum of an English mnemonic
+ */
+export function validateMnemonic(mnemonic: string): void {
+  const words = normalizeMnemonic(mnemonic).split(' ');
+
+  if (![12, 15, 18, 21, 24].includes(words.length)) {
+    throw new Error(`Mnemonic must have 12, 15, 18, 21 or 24 words, got ${words.length}`);
+  }
+
+  const bits = words
+    .map((word) => {
+      // Another case would validate here yet derive a different seed than wallets do
+      if (word !== word.toLowerCase()) {
+        throw new Error(`Mnemonic words must be lowercase, got ${word}`);
+      }
+      const index = BIP39_ENGLISH_WORDLIST.indexOf(word);
+      if (index === -1) {
+        throw new Error(`Unknown mnemonic word: ${word}`);
+      }
+      return index.toString(2).padStart(11, '0');
+    })
+    .join('');
+
+  const checksumLength = words.length / 3;
+  const entropyBits = bits.slice(0, bits.length - checksumLength);
+  const entropy = Buffer.from(entropyBits.match(/.{8}/g)!.map((byte) => parseInt(byte, 2)));
+  const expected = createHash('sha256')
+    .update(entropy)
+    .digest()[0]
+    .toString(2)
+    .padStart(8, '0')
+    .slice(0, checksumLength);
+
+  if (bits.slice(-checksumLength) !== expected) {
+    throw new Error('Invalid mnemonic checksum');
+  }
+}
+
+/**
+ * Derive the 64-byte BIP-39 seed for a mnemonic
+ */
+export function mnemonicToSeed(mnemonic: string, passphrase = ''): Buffer {
+  validateMnemonic(mnemonic);
+  return pbkdf2Sync(
+    Buffer.from(normalizeMnemonic(mnemonic), 'utf8'),
+    Buffer.from('mnemonic' + passphrase.normalize('NFKD'), 'utf8'),
+    2048,
+    64,
+    'sha512'
+  );
+}
+
+/**
+ * Parse a path such as m/44'/52752'/0'/0/3 into child indexes
+ */
+export function parseDerivationPath(path: string): number[] {
+  const segments = path.trim().split('/');
+  if (segments.shift() !== 'm') {
+    throw new Error(`Invalid derivation path: ${path}`);
+  }
+
+  return segments.map((segment) => {
+    const hardened = /['hH]$/.test(segment);
+    const value = hardened ? segment.slice(0, -1) : segment;
+    if (!/^\d+$/.test(value) || Number(value) >= HARDENED_OFFSET) {
+      throw new Error(`Invalid derivation path: ${path}`);
+    }
+    return Number(value) + (hardened ? HARDENED_OFFSET : 0);
+  });
+}
+
+function deriveChild(parent: ExtendedKey, index: number): ExtendedKey {
+  const indexBytes = Buffer.alloc(4);
+  indexBytes.writeUInt32BE(index >>> 0);
+
+  const data = index >= HARDENED_OFFSET
+    ? Buffer.concat([Buffer.from([0x00]), parent.privateKey, indexBytes])
+    : Buffer.concat([getPublicKey(parent.privateKey, true), indexBytes]);
+
+  const digest = createHmac('sha512', parent.chainCode).update(data).digest();
+
+  return {
+    privateKey: privateKeyTweakAdd(parent.privateKey, digest.subarray(0, 32)),
+    chainCode: digest.subarray(32),
+  };
+}
+
+/**
+ * Derive the private key at a BIP-32 path from a seed
+ */
+export function derivePrivateKey(seed: Uint8Array, path: string): Buffer {
+  const digest = createHmac('sha512', 'Bitcoin seed').update(seed).digest();
+  let key: ExtendedKey = {
+    privateKey: digest.subarray(0, 32),
+    chainCode: digest.subarray(32),
+  };
+
+  for (const index of parseDerivationPath(path)) {
+    key = deriveChild(key, index);
+  }
+
+  return key.privateKey;
+}
+
+/**
+ * Derive the account at an address index on the Celo or Ethereum path
+ */
+export function deriveAccount(
+  mnemonic: string,
+  index: number,
+  pathType: DerivationPathType = 'celo',
+  passphrase = ''
+): DerivedAccount {
+  if (!Number.isInteger(index) || index < 0 || index >= HARDENED_OFFSET) {
+    throw new Error(`Invalid account index: ${index}`);
+  }
+
+  const path = `${DERIVATION_PATHS[pathType]}/${index}`;
+  const privateKey = derivePrivateKey(mnemonicToSeed(mnemonic, passphrase), path);
+
+  return {
+    address: privateKeyToAddress(privateKey),
+    privateKey: '0x' + privateKey.toString('hex'),
+    path,
+    index,
+  };
+}
@@ -5,9 +5,28 @@
  * See LICENSE file for details.
  */
 
-import * as crypto from 'crypto';
-import { STABLECOINS, FEE_CURRENCIES, CELO_CONTRACTS } from '../constants/celo.constants';
-import type { CeloNetwork, StablecoinSymbol, FeeCurrencyOption, UnitConversion, HashedIdentifier } from './types';
+import {
+  STABLECOINS,
+  FEE_CURRENCIES,
+  CELO_CONTRACTS,
+  ABI_FRAGMENTS,
+  IDENTIFIER_PREFIXES,
+  ZERO_ADDRESS,
+} from '../constants/celo.constants';
+import { getAddress, toChecksumAddress } from './address';
+import { keccak256 } from './keccak';
+import { encodeFunctionCallData, parseFunctionSignature } from './abi';
+import type {
+  CeloNetwork,
+  StablecoinSymbol,
+  FeeCurrencyOption,
+  UnitConversion,
+  HashedIdentifier,
+  HexVariants,
+  IdentifierType,
+  AbiFunctionFragment,
+  ProposalStage,
+} from './types';
 
 /**
  * Hash a phone number identifier for ODIS lookup
@@ -18,9 +37,9 @@ export function hashPhoneNumber(phoneNumber: string, pepper?: string): HashedIde
   // Normalize phone number
   const normalized = normalizePhoneNumber(phoneNumber);
   
-  // Create hash (simplified - real implementation uses ODIS)
-  const data = pepper ? `${normalized}${pepper}` : normalized;
-  const hash = crypto.createHash('sha256').update(data).digest('hex');
+  // Celo joins the identifier and pepper with a double underscore before hashing
+  const data = pepper ? `${normalized}__${pepper}` : normalized;
+  const hash = keccak256(data).slice(2);
   
   return {
     original: phoneNumber,
@@ -49,6 +68,27 @@ export function normalizePhoneNumber(phoneNumber: string): string {
   return normalized;
 }
 
+/**
+ * Derive a SocialConnect obfuscated identifier, the key FederatedAttestations
+ * stores attestations under, from a plaintext identifier and its ODIS pepper
+ */
+export function getObfuscatedIdentifier(
+  identifier: string,
+  type: IdentifierType,
+  pepper: string
+): HashedIdentifier {
+  if (!pepper) {
+    throw new Error('A pepper is required to obfuscate an identifier');
+  }
+
+  const plaintext = type === 'phoneNumber' ? normalizePhoneNumber(identifier) : identifier.trim();
+  return {
+    original: identifier,
+    hash: keccak256(`${IDENTIFIER_PREFIXES[type]}://${plaintext}__${pepper}`),
+    pepper,
+  };
+}
+
 /**
  * Get stablecoin contract address
  */
@@ -173,14 +213,24 @@ export function calculatePercentage(part: string, total: string): string {
   return percentageNum.toFixed(2);
 }
 
+/**
+ * Lowest acceptable output of a swap quote, given a maximum slippage
+ * percentage with up to two decimal places
+ */
+export function applySlippage(amount: string, slippagePercent: number): string {
+  if (!(slippagePercent >= 0 && slippagePercent <= 100)) {
+    throw new Error(`Slippage must be between 0 and 100 percent: ${slippagePercent}`);
+  }
+  
+  const basisPoints = BigInt(Math.round(slippagePercent * 100));
+  return (BigInt(amount) * (BigInt(10000) - basisPoints) / BigInt(10000)).toString();
+}
+
 /**
  * Validate and format an address
  */
 export function formatAddress(address: string): string {
-  if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
-    throw new Error(`Invalid address format: ${address}`);
-  }
-  return address.toLowerCase();
+  return getAddress(address);
 }
 
 /**
@@ -235,54 +285,96 @@ export function getEpochBoundaries(epochNumber: number): { firstBlock: number; l
 }
 
 /**
- * Create a function selector from function signature
+ * Find the neighbours a validator group will have in Election's list of
+ * eligible groups, which is sorted by total votes from greatest to least,
+ * once its total changes to the given value. The zero address stands for
+ * no neighbour at either end.
  */
-export function createFunctionSelector(signature: string): string {
-  const hash = crypto.createHash('sha3-256').update(signature).digest('hex');
-  return '0x' + hash.slice(0, 8);
+export function findLesserAndGreaterGroups(
+  groups: ReadonlyArray<{ group: string; votes: bigint }>,
+  group: string,
+  newTotal: bigint
+): { lesser: string; greater: string } {
+  let lesser = ZERO_ADDRESS;
+  let greater = ZERO_ADDRESS;
+  
+  for (const entry of groups) {
+    if (entry.group.toLowerCase() === group.toLowerCase()) {
+      continue;
+    }
+    if (entry.votes <= newTotal) {
+      lesser = entry.group;
+      break;
+    }
+    greater = entry.group;
+  }
+  
+  return { lesser, greater };
 }
 
 /**
- * Encode function data for common operations
- */
-export function encodeFunctionData(functionName: string, params: unknown[]): string {
-  // Common function signatures
-  const signatures: Record<string, { sig: string; types: string[] }> = {
-    balanceOf: { sig: 'balanceOf(address)', types: ['address'] },
-    transfer: { sig: 'transfer(address,uint256)', types: ['address', 'uint256'] },
-    approve: { sig: 'approve(address,uint256)', types: ['address', 'uint256'] },
-    allowance: { sig: 'allowance(address,address)', types: ['address', 'address'] },
-    totalSupply: { sig: 'totalSupply()', types: [] },
-    decimals: { sig: 'decimals()', types: [] },
-    name: { sig: 'name()', types: [] },
-    symbol: { sig: 'symbol()', types: [] },
-  };
-  
-  const funcInfo = signatures[functionName];
-  if (!funcInfo) {
-    throw new Error(`Unknown function: ${functionName}`);
+ * Derive a governance proposal's stage from its timestamp.
+ * Queued proposals expire after the queue expiry. Once dequeued, the
+ * timestamp is reset and the proposal moves through Referendum and
+ * Execution before expiring; approval runs alongside the referendum.
+ */
+export function getProposalStage(
+  proposal: { timestamp: number; queued: boolean },
+  now: number,
+  durations: { queueExpiry: number; referendum: number; execution: number }
+): ProposalStage {
+  if (!proposal.timestamp) {
+    return 'None';
   }
   
-  const selector = createFunctionSelector(funcInfo.sig);
-  
-  if (funcInfo.types.length === 0) {
-    return selector;
+  if (proposal.queued) {
+    return now >= proposal.timestamp + durations.queueExpiry ? 'Expiration' : 'Queued';
   }
   
-  let encodedParams = '';
-  for (let i = 0; i < funcInfo.types.length; i++) {
-    const type = funcInfo.types[i];
-    const value = params[i];
-    
-    if (type === 'address') {
-      encodedParams += String(value).toLowerCase().replace('0x', '').padStart(64, '0');
-    } else if (type === 'uint256') {
-      const hex = BigInt(value as string | number).toString(16);
-      encodedParams += hex.padStart(64, '0');
-    }
+  const referendumEnd = proposal.timestamp + durations.referendum;
+  if (now < referendumEnd) {
+    return 'Referendum';
   }
-  
-  return selector + encodedParams;
+  if (now < referendumEnd + durations.execution) {
+    return 'Execution';
+  }
+  return 'Expiration';
+}
+
+/**
+ * Create a function selector from function signature
+ */
+export function createFunctionSelector(signature: string): string {
+  return keccak256(signature).slice(0, 10);
+}
+
+/**
+ * Create an event topic from event signature
+ */
+export function getEventTopic(signature: string): string {
+  return keccak256(signature);
+}
+
+/**
+ * Encode function data from an ERC-20 function name, a signature
+ * such as `vote(address,uint256,address,address)` or an ABI fragment
+ */
+export function encodeFunctionData(fn: string | AbiFunctionFragment, params: unknown[]): string {
+  let fragment: AbiFunctionFragment | undefined;
+
+  if (typeof fn !== 'string') {
+    fragment = fn;
+  } else if (fn.includes('(')) {
+    fragment = parseFunctionSignature(fn);
+  } else {
+    fragment = ABI_FRAGMENTS.erc20[fn as keyof typeof ABI_FRAGMENTS.erc20];
+  }
+
+  if (!fragment) {
+    throw new Error(`Unknown function: ${fn}`);
+  }
+
+  return encodeFunctionCallData(fragment, params);
 }
 
 /**
@@ -317,7 +409,7 @@ export function decodeUint256(hex: string): string {
 export function decodeAddress(hex: string): string {
   const cleanHex = hex.replace('0x', '');
   // Address is in the last 40 characters of a 64-char hex (32 bytes)
-  return '0x' + cleanHex.slice(-40).toLowerCase();
+  return toChecksumAddress('0x' + cleanHex.slice(-40));
 }
 
 /**
@@ -336,12 +428,14 @@ export function sleep(ms: number): Promise<void> {
 }
 
 /**
- * Retry with exponential backoff
+ * Retry with exponential backoff. Errors that shouldRetry rejects are thrown
+ * without further attempts.
  */
 export async function retryWithBackoff<T>(
   fn: () => Promise<T>,
   maxRetries: number = 3,
-  baseDelay: number = 1000
+  baseDelay: number = 1000,
+  shouldRetry: (error: unknown) => boolean = () => true
 ): Promise<T> {
   let lastError: Error | undefined;
   
@@ -349,6 +443,9 @@ export async function retryWithBackoff<T>(
     try {
       return await fn();
     } catch (error) {
+      if (!shouldRetry(error)) {
+        throw error;
+      }
       lastError = error as Error;
       if (i < maxRetries - 1) {
         await sleep(baseDelay * Math.pow(2, i));
@@ -382,3 +479,22 @@ export function toHex(value: number | string | bigint): string {
 export function fromHex(hex: string): bigint {
   return BigInt(hex);
 }
+
+/**
+ * Decode hex quantities of an RPC object to decimal strings, keeping each
+ * original under `<field>Hex`. Missing and null fields are left untouched.
+ */
+export function decodeQuantities<T extends object, K extends string>(
+  value: T,
+  fields: readonly K[]
+): T & HexVariants<K> {
+  const decoded = { ...value } as Record<string, unknown>;
+  for (const field of fields) {
+    const quantity = decoded[field];
+    if (typeof quantity === 'string' && quantity.length > 2 && isHex(quantity)) {
+      decoded[field] = fromHex(quantity).toString();
+      decoded[`${field}Hex`] = quantity;
+    }
+  }
+  return decoded as T & HexVariants<K>;
+}
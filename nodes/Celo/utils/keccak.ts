@@ -0,0 +1,124 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Keccak-256 as used by Ethereum and Celo.
+ *
+ * Node's built-in `sha3-256` is the finalised NIST SHA3 standard, which uses
+ * a different padding byte and therefore produces different digests. Every
+ * selector, event topic and address derivation needs the original Keccak.
+ */
+
+const MASK_64 = BigInt('0xffffffffffffffff');
+
+/**
+ * Round constants for the iota step
+ */
+const ROUND_CONSTANTS = [
+  '0x0000000000000001', '0x0000000000008082', '0x800000000000808a', '0x8000000080008000',
+  '0x000000000000808b', '0x0000000080000001', '0x8000000080008081', '0x8000000000008009',
+  '0x000000000000008a', '0x0000000000000088', '0x0000000080008009', '0x000000008000000a',
+  '0x000000008000808b', '0x800000000000008b', '0x8000000000008089', '0x8000000000008003',
+  '0x8000000000008002', '0x8000000000000080', '0x000000000000800a', '0x800000008000000a',
+  '0x8000000080008081', '0x8000000000008080', '0x0000000080000001', '0x8000000080008008',
+].map((constant) => BigInt(constant));
+
+/**
+ * Rotation offsets for the rho step, in pi traversal order
+ */
+const ROTATIONS = [1, 3, 6, 10, 15, 21, 28, 36, 45, 55, 2, 14, 27, 41, 56, 8, 25, 43, 62, 18, 39, 61, 20, 44];
+
+/**
+ * Lane permutation for the pi step
+ */
+const PI_LANES = [10, 7, 11, 17, 18, 3, 5, 16, 8, 21, 24, 4, 15, 23, 19, 13, 12, 2, 20, 14, 22, 9, 6, 1];
+
+/**
+ * Rate in bytes for a 256-bit output (1600 - 2 * 256 bits)
+ */
+const RATE = 136;
+
+function rotl(value: bigint, shift: number): bigint {
+  return ((value << BigInt(shift)) | (value >> BigInt(64 - shift))) & MASK_64;
+}
+
+/**
+ * Apply the Keccak-f[1600] permutation to the state in place
+ */
+function keccakF1600(state: bigint[]): void {
+  const c: bigint[] = new Array(5);
+
+  for (let round = 0; round < 24; round++) {
+    // Theta
+    for (let x = 0; x < 5; x++) {
+      c[x] = state[x] ^ state[x + 5] ^ state[x + 10] ^ state[x + 15] ^ state[x + 20];
+    }
+    for (let x = 0; x < 5; x++) {
+      const d = c[(x + 4) % 5] ^ rotl(c[(x + 1) % 5], 1);
+      for (let y = 0; y < 25; y += 5) {
+        state[y + x] ^= d;
+      }
+    }
+
+    // Rho and pi
+    let last = state[1];
+    for (let i = 0; i < 24; i++) {
+      const lane = PI_LANES[i];
+      const current = state[lane];
+      state[lane] = rotl(last, ROTATIONS[i]);
+      last = current;
+    }
+
+    // Chi
+    for (let y = 0; y < 25; y += 5) {
+      const row = state.slice(y, y + 5);
+      for (let x = 0; x < 5; x++) {
+        state[y + x] = row[x] ^ (~row[(x + 1) % 5] & MASK_64 & row[(x + 2) % 5]);
+      }
+    }
+
+    // Iota
+    state[0] ^= ROUND_CONSTANTS[round];
+  }
+}
+
+/**
+ * Compute the raw Keccak-256 digest of a byte array
+ */
+export function keccak256Bytes(data: Uint8Array): Buffer {
+  // Keccak padding: 0x01 after the message, 0x80 on the last byte of the block
+  const paddedLength = (Math.floor(data.length / RATE) + 1) * RATE;
+  const padded = Buffer.alloc(paddedLength);
+  padded.set(data);
+  padded[data.length] ^= 0x01;
+  padded[paddedLength - 1] ^= 0x80;
+
+  const state: bigint[] = new Array(25).fill(BigInt(0));
+
+  for (let offset = 0; offset < paddedLength; offset += RATE) {
+    for (let lane = 0; lane < RATE / 8; lane++) {
+      state[lane] ^= padded.readBigUInt64LE(offset + lane * 8);
+    }
+    keccakF1600(state);
+  }
+
+  const output = Buffer.alloc(32);
+  for (let lane = 0; lane < 4; lane++) {
+    output.writeBigUInt64LE(state[lane], lane * 8);
+  }
+
+  return output;
+}
+
+/**
+ * Compute the Keccak-256 hash as a 0x-prefixed hex string.
+ * String input is hashed as UTF-8 text, e.g. a function signature.
+ */
+export function keccak256(data: string | Uint8Array): string {
+  const bytes = typeof data === 'string' ? Buffer.from(data, 'utf8') : data;
+  return '0x' + keccak256Bytes(bytes).toString('hex');
+}
@@ -0,0 +1,121 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Request limiting with a concurrency cap and a token bucket.
+ *
+ * The bucket holds up to one second's worth of tokens, and never less than
+ * one, and refills continuously, so requests may burst to the per-second rate
+ * and then proceed evenly. Requests start in the order they were made.
+ */
+
+export interface RequestLimits {
+  maxConcurrent?: number;
+  requestsPerSecond?: number;
+}
+
+export interface RequestLimiter {
+  /**
+   * Run a request once a concurrency slot and a token are free
+   */
+  run<T>(request: () => Promise<T>): Promise<T>;
+  /**
+   * Hold back requests that have not started until a time, e.g. from a Retry-After header
+   */
+  pauseUntil(time: number): void;
+}
+
+/**
+ * Create a limiter. A limit of 0 or less leaves that dimension unlimited.
+ */
+export function createRequestLimiter({ maxConcurrent = 0, requestsPerSecond = 0 }: RequestLimits): RequestLimiter {
+  const waiting: Array<() => void> = [];
+  // A rate below one per second still needs room for a whole token
+  const capacity = Math.max(1, requestsPerSecond);
+  let active = 0;
+  let tokens = capacity;
+  let refilledAt = Date.now();
+  let pausedUntil = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  function refill(now: number): void {
+    tokens = Math.min(capacity, tokens + ((now - refilledAt) / 1000) * requestsPerSecond);
+    refilledAt = now;
+  }
+
+  function wakeAfter(delay: number): void {
+    if (!timer) {
+      timer = setTimeout(() => {
+        timer = undefined;
+        startWaiting();
+      }, Math.ceil(delay));
+    }
+  }
+
+  function startWaiting(): void {
+    while (waiting.length) {
+      // A finishing request frees the slot and calls back in
+      if (maxConcurrent > 0 && active >= maxConcurrent) {
+        return;
+      }
+
+      const now = Date.now();
+      if (now < pausedUntil) {
+        wakeAfter(pausedUntil - now);
+        return;
+      }
+      if (requestsPerSecond > 0) {
+        refill(now);
+        if (tokens < 1) {
+          wakeAfter(((1 - tokens) / requestsPerSecond) * 1000);
+          return;
+        }
+        tokens -= 1;
+      }
+
+      active++;
+      waiting.shift()!();
+    }
+  }
+
+  return {
+    async run<T>(request: () => Promise<T>): Promise<T> {
+      await new Promise<void>((resolve) => {
+        waiting.push(resolve);
+        startWaiting();
+      });
+      try {
+        return await request();
+      } finally {
+        active--;
+        startWaiting();
+      }
+    },
+
+    pauseUntil(time: number): void {
+      pausedUntil = Math.max(pausedUntil, time);
+    },
+  };
+}
+
+/**
+ * Milliseconds to wait from a Retry-After header, given as seconds or an HTTP
+ * date, or undefined when the header is missing or malformed
+ */
+export function parseRetryAfter(value: unknown, now: number = Date.now()): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+
+  const text = String(value).trim();
+  if (/^\d+$/.test(text)) {
+    return Number(text) * 1000;
+  }
+
+  const date = Date.parse(text);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
@@ -0,0 +1,68 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+/**
+ * Recursive Length Prefix encoding used to serialise transactions.
+ */
+
+export type RlpInput = Uint8Array | RlpInput[];
+
+function encodeLength(length: number, offset: number): Buffer {
+  if (length < 56) {
+    return Buffer.from([offset + length]);
+  }
+  let hex = length.toString(16);
+  if (hex.length % 2) hex = '0' + hex;
+  const lengthBytes = Buffer.from(hex, 'hex');
+  return Buffer.concat([Buffer.from([offset + 55 + lengthBytes.length]), lengthBytes]);
+}
+
+/**
+ * RLP-encode a byte string or a (nested) list of byte strings
+ */
+export function rlpEncode(input: RlpInput): Buffer {
+  if (Array.isArray(input)) {
+    const payload = Buffer.concat(input.map((item) => rlpEncode(item)));
+    return Buffer.concat([encodeLength(payload.length, 0xc0), payload]);
+  }
+
+  const bytes = Buffer.from(input);
+  if (bytes.length === 1 && bytes[0] < 0x80) {
+    return bytes;
+  }
+  return Buffer.concat([encodeLength(bytes.length, 0x80), bytes]);
+}
+
+/**
+ * Convert a quantity to its minimal big-endian byte form (zero is empty)
+ */
+export function toRlpQuantity(value: bigint | number | string): Buffer {
+  const number = BigInt(value);
+  if (number < BigInt(0)) {
+    throw new Error(`RLP quantities cannot be negative: ${value}`);
+  }
+  if (number === BigInt(0)) {
+    return Buffer.alloc(0);
+  }
+  let hex = number.toString(16);
+  if (hex.length % 2) hex = '0' + hex;
+  return Buffer.from(hex, 'hex');
+}
+
+/**
+ * Convert a 0x-prefixed hex string to bytes (empty for '0x' or undefined)
+ */
+export function toRlpBytes(value: string | undefined | null): Buffer {
+  if (!value) {
+    return Buffer.alloc(0);
+  }
+  const hex = value.startsWith('0x') ? value.slice(2) : value;
+  if (hex.length % 2 || !/^[0-9a-fA-F]*$/.test(hex)) {
+    throw new Error(`Invalid hex data: ${value}`);
+  }
+  return Buffer.from(hex, 'hex');
+}
@@ -0,0 +1,368 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { createHmac } from 'crypto';
+import { toChecksumAddress } from './address';
+import { keccak256Bytes } from './keccak';
+
+/**
+ * secp256k1 signing and public key recovery.
+ *
+ * Nonces are derived deterministically (RFC 6979, HMAC-SHA256) so the same
+ * key and digest always produce the same signature, and signatures are
+ * normalised to low-s form as required by EIP-2.
+ */
+
+const P = BigInt('0xfffffffffffffffffffffffffffffffffffffffffffffffffffffffefffffc2f');
+const N = BigInt('0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141');
+const HALF_N = N >> BigInt(1);
+const G: AffinePoint = {
+  x: BigInt('0x79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798'),
+  y: BigInt('0x483ada7726a3c4655da4fbfc0e1108a8fd17b448a68554199c47d08ffb10d4b8'),
+};
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+const THREE = BigInt(3);
+const FOUR = BigInt(4);
+const SEVEN = BigInt(7);
+const EIGHT = BigInt(8);
+
+interface AffinePoint {
+  x: bigint;
+  y: bigint;
+}
+
+/**
+ * Point in Jacobian coordinates (X/Z², Y/Z³); Z = 0 is the point at infinity
+ */
+interface JacobianPoint {
+  x: bigint;
+  y: bigint;
+  z: bigint;
+}
+
+export interface EcdsaSignature {
+  r: bigint;
+  s: bigint;
+  recovery: number;
+}
+
+const INFINITY: JacobianPoint = { x: ZERO, y: ONE, z: ZERO };
+
+function mod(value: bigint, modulus: bigint = P): bigint {
+  const result = value % modulus;
+  return result >= ZERO ? result : result + modulus;
+}
+
+function invert(value: bigint, modulus: bigint = P): bigint {
+  let a = mod(value, modulus);
+  let b = modulus;
+  let x = ONE;
+  let y = ZERO;
+
+  while (a !== ZERO) {
+    const quotient = b / a;
+    [a, b] = [b - quotient * a, a];
+    [x, y] = [y - quotient * x, x];
+  }
+
+  if (b !== ONE) {
+    throw new Error('Value has no modular inverse');
+  }
+
+  return mod(y, modulus);
+}
+
+function powMod(base: bigint, exponent: bigint, modulus: bigint = P): bigint {
+  let result = ONE;
+  let b = mod(base, modulus);
+  let e = exponent;
+
+  while (e > ZERO) {
+    if ((e & ONE) === ONE) {
+      result = (result * b) % modulus;
+    }
+    b = (b * b) % modulus;
+    e >>= ONE;
+  }
+
+  return result;
+}
+
+function pointDouble(point: JacobianPoint): JacobianPoint {
+  if (point.z === ZERO || point.y === ZERO) {
+    return INFINITY;
+  }
+
+  const ysq = mod(point.y * point.y);
+  const s = mod(FOUR * point.x * ysq);
+  const m = mod(THREE * point.x * point.x);
+  const x = mod(m * m - TWO * s);
+  const y = mod(m * (s - x) - EIGHT * ysq * ysq);
+  const z = mod(TWO * point.y * point.z);
+
+  return { x, y, z };
+}
+
+function pointAdd(p1: JacobianPoint, p2: JacobianPoint): JacobianPoint {
+  if (p1.z === ZERO) return p2;
+  if (p2.z === ZERO) return p1;
+
+  const z1z1 = mod(p1.z * p1.z);
+  const z2z2 = mod(p2.z * p2.z);
+  const u1 = mod(p1.x * z2z2);
+  const u2 = mod(p2.x * z1z1);
+  const s1 = mod(p1.y * p2.z * z2z2);
+  const s2 = mod(p2.y * p1.z * z1z1);
+
+  if (u1 === u2) {
+    return s1 === s2 ? pointDouble(p1) : INFINITY;
+  }
+
+  const h = mod(u2 - u1);
+  const r = mod(s2 - s1);
+  const hh = mod(h * h);
+  const hhh = mod(h * hh);
+  const v = mod(u1 * hh);
+  const x = mod(r * r - hhh - TWO * v);
+  const y = mod(r * (v - x) - s1 * hhh);
+  const z = mod(h * p1.z * p2.z);
+
+  return { x, y, z };
+}
+
+function multiplyJacobian(point: AffinePoint, scalar: bigint): JacobianPoint {
+  let result = INFINITY;
+  let addend: JacobianPoint = { x: point.x, y: point.y, z: ONE };
+  let k = scalar;
+
+  while (k > ZERO) {
+    if ((k & ONE) === ONE) {
+      result = pointAdd(result, addend);
+    }
+    addend = pointDouble(addend);
+    k >>= ONE;
+  }
+
+  return result;
+}
+
+function toAffine(point: JacobianPoint): AffinePoint | null {
+  if (point.z === ZERO) {
+    return null;
+  }
+  const zInv = invert(point.z);
+  const zInv2 = mod(zInv * zInv);
+  return {
+    x: mod(point.x * zInv2),
+    y: mod(point.y * zInv2 * zInv),
+  };
+}
+
+function bytesToBigInt(bytes: Uint8Array): bigint {
+  const hex = Buffer.from(bytes).toString('hex');
+  return hex ? BigInt('0x' + hex) : ZERO;
+}
+
+function bigIntToBytes(value: bigint, length = 32): Buffer {
+  return Buffer.from(value.toString(16).padStart(length * 2, '0'), 'hex');
+}
+
+function encodePoint(point: AffinePoint, compressed: boolean): Buffer {
+  if (compressed) {
+    const prefix = (point.y & ONE) === ONE ? 0x03 : 0x02;
+    return Buffer.concat([Buffer.from([prefix]), bigIntToBytes(point.x)]);
+  }
+  return Buffer.concat([Buffer.from([0x04]), bigIntToBytes(point.x), bigIntToBytes(point.y)]);
+}
+
+function toPrivateScalar(privateKey: Uint8Array): bigint {
+  if (privateKey.length !== 32) {
+    throw new Error('Private key must be 32 bytes');
+  }
+  const d = bytesToBigInt(privateKey);
+  if (d <= ZERO || d >= N) {
+    throw new Error('Private key is outside the secp256k1 curve order');
+  }
+  return d;
+}
+
+/**
+ * Check that a 32-byte value is a usable private key
+ */
+export function isValidPrivateKey(privateKey: Uint8Array): boolean {
+  try {
+    toPrivateScalar(privateKey);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Derive the public key for a private key (65-byte uncompressed by default)
+ */
+export function getPublicKey(privateKey: Uint8Array, compressed = false): Buffer {
+  const point = toAffine(multiplyJacobian(G, toPrivateScalar(privateKey)));
+  if (!point) {
+    throw new Error('Invalid private key');
+  }
+  return encodePoint(point, compressed);
+}
+
+/**
+ * Add a tweak to a private key modulo the curve order (BIP-32 child keys)
+ */
+export function privateKeyTweakAdd(privateKey: Uint8Array, tweak: Uint8Array): Buffer {
+  const t = bytesToBigInt(tweak);
+  if (t >= N) {
+    throw new Error('Tweak is outside the secp256k1 curve order');
+  }
+  const result = mod(toPrivateScalar(privateKey) + t, N);
+  if (result === ZERO) {
+    throw new Error('Tweaked private key is zero');
+  }
+  return bigIntToBytes(result);
+}
+
+/**
+ * Generate the RFC 6979 nonce candidates for a key and digest
+ */
+function* deterministicNonces(d: bigint, digest: Uint8Array): Generator<bigint> {
+  const hmac = (key: Buffer, ...data: Buffer[]): Buffer =>
+    createHmac('sha256', key).update(Buffer.concat(data)).digest();
+
+  const x = bigIntToBytes(d);
+  const h1 = bigIntToBytes(mod(bytesToBigInt(digest), N));
+  let v: Buffer = Buffer.alloc(32, 0x01);
+  let k: Buffer = Buffer.alloc(32, 0x00);
+
+  k = hmac(k, v, Buffer.from([0x00]), x, h1);
+  v = hmac(k, v);
+  k = hmac(k, v, Buffer.from([0x01]), x, h1);
+  v = hmac(k, v);
+
+  for (;;) {
+    v = hmac(k, v);
+    const candidate = bytesToBigInt(v);
+    if (candidate > ZERO && candidate < N) {
+      yield candidate;
+    }
+    k = hmac(k, v, Buffer.from([0x00]));
+    v = hmac(k, v);
+  }
+}
+
+/**
+ * Sign a 32-byte digest. The recovery id identifies which of the candidate
+ * public keys produced the signature.
+ */
+export function sign(digest: Uint8Array, privateKey: Uint8Array): EcdsaSignature {
+  if (digest.length !== 32) {
+    throw new Error('Message digest must be 32 bytes');
+  }
+
+  const d = toPrivateScalar(privateKey);
+  const e = mod(bytesToBigInt(digest), N);
+
+  for (const k of deterministicNonces(d, digest)) {
+    const point = toAffine(multiplyJacobian(G, k));
+    if (!point) continue;
+
+    const r = mod(point.x, N);
+    if (r === ZERO) continue;
+
+    let s = mod(invert(k, N) * (e + r * d), N);
+    if (s === ZERO) continue;
+
+    let recovery = ((point.y & ONE) === ONE ? 1 : 0) | (point.x >= N ? 2 : 0);
+    if (s > HALF_N) {
+      s = N - s;
+      recovery ^= 1;
+    }
+
+    return { r, s, recovery };
+  }
+
+  throw new Error('Unable to produce a signature');
+}
+
+/**
+ * Recover the uncompressed public key that produced a signature over a digest
+ */
+export function recoverPublicKey(digest: Uint8Array, signature: EcdsaSignature): Buffer {
+  const { r, s, recovery } = signature;
+
+  if (digest.length !== 32) {
+    throw new Error('Message digest must be 32 bytes');
+  }
+  if (r <= ZERO || r >= N || s <= ZERO || s >= N) {
+    throw new Error('Invalid signature');
+  }
+  if (recovery < 0 || recovery > 3) {
+    throw new Error(`Invalid recovery id: ${recovery}`);
+  }
+
+  const x = recovery & 2 ? r + N : r;
+  if (x >= P) {
+    throw new Error('Invalid signature');
+  }
+
+  const alpha = mod(x * x * x + SEVEN);
+  let y = powMod(alpha, (P + ONE) / FOUR);
+  if (mod(y * y) !== alpha) {
+    throw new Error('Invalid signature');
+  }
+  if (Number(y & ONE) !== (recovery & 1)) {
+    y = P - y;
+  }
+
+  const e = mod(bytesToBigInt(digest), N);
+  const rInv = invert(r, N);
+  const u1 = mod(-e * rInv, N);
+  const u2 = mod(s * rInv, N);
+
+  const point = toAffine(pointAdd(multiplyJacobian(G, u1), multiplyJacobian({ x, y }, u2)));
+  if (!point) {
+    throw new Error('Invalid signature');
+  }
+
+  return encodePoint(point, false);
+}
+
+/**
+ * Parse a 0x-prefixed or bare hex private key
+ */
+export function parsePrivateKey(privateKey: string): Buffer {
+  const hex = privateKey.trim().replace(/^0x/i, '');
+  if (!/^[0-9a-fA-F]{64}$/.test(hex)) {
+    throw new Error('Private key must be 32 bytes of hex');
+  }
+  const bytes = Buffer.from(hex, 'hex');
+  toPrivateScalar(bytes);
+  return bytes;
+}
+
+/**
+ * Derive the checksummed address for an uncompressed public key
+ */
+export function publicKeyToAddress(publicKey: Uint8Array): string {
+  if (publicKey.length !== 65 || publicKey[0] !== 0x04) {
+    throw new Error('Expected a 65-byte uncompressed public key');
+  }
+  return toChecksumAddress('0x' + keccak256Bytes(publicKey.subarray(1)).subarray(12).toString('hex'));
+}
+
+/**
+ * Derive the checksummed address for a private key
+ */
+export function privateKeyToAddress(privateKey: string | Uint8Array): string {
+  const bytes = typeof privateKey === 'string' ? parsePrivateKey(privateKey) : privateKey;
+  return publicKeyToAddress(getPublicKey(bytes));
+}
@@ -0,0 +1,246 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { encodeAbiParameters, hexToBytes } from './abi';
+import { keccak256Bytes } from './keccak';
+import { parsePrivateKey, publicKeyToAddress, recoverPublicKey, sign } from './secp256k1';
+import type { EcdsaSignature } from './secp256k1';
+import type { TypedData, TypedDataDomain, TypedDataField } from './types';
+
+/**
+ * Off-chain message signing: personal_sign (EIP-191) and typed data (EIP-712).
+ *
+ * Signatures are 65 bytes, r || s || v, with v = 27 or 28 as produced by
+ * wallets such as MetaMask and Valora.
+ */
+
+const EIP712_DOMAIN_FIELDS: TypedDataField[] = [
+  { name: 'name', type: 'string' },
+  { name: 'version', type: 'string' },
+  { name: 'chainId', type: 'uint256' },
+  { name: 'verifyingContract', type: 'address' },
+  { name: 'salt', type: 'bytes32' },
+];
+
+function toMessageBytes(message: string | Uint8Array): Buffer {
+  return typeof message === 'string' ? Buffer.from(message, 'utf8') : Buffer.from(message);
+}
+
+/**
+ * EIP-191 hash of a message as signed by personal_sign
+ */
+export function hashMessage(message: string | Uint8Array): Buffer {
+  const bytes = toMessageBytes(message);
+  const prefix = Buffer.from(`\x19Ethereum Signed Message:\n${bytes.length}`, 'utf8');
+  return keccak256Bytes(Buffer.concat([prefix, bytes]));
+}
+
+/**
+ * Serialise a signature as 0x r || s || v
+ */
+export function joinSignature(signature: EcdsaSignature): string {
+  return '0x' +
+    signature.r.toString(16).padStart(64, '0') +
+    signature.s.toString(16).padStart(64, '0') +
+    (27 + signature.recovery).toString(16);
+}
+
+/**
+ * Parse a 65-byte signature; v may be 27/28 or 0/1
+ */
+export function splitSignature(signature: string): EcdsaSignature {
+  const bytes = hexToBytes(signature);
+  if (bytes.length !== 65) {
+    throw new Error(`Signature must be 65 bytes, got ${bytes.length}`);
+  }
+
+  const v = bytes[64];
+  const recovery = v >= 27 ? v - 27 : v;
+  if (recovery !== 0 && recovery !== 1) {
+    throw new Error(`Invalid signature v value: ${v}`);
+  }
+
+  return {
+    r: BigInt('0x' + bytes.subarray(0, 32).toString('hex')),
+    s: BigInt('0x' + bytes.subarray(32, 64).toString('hex')),
+    recovery,
+  };
+}
+
+/**
+ * Recover the checksummed address that signed a 32-byte digest
+ */
+export function recoverAddress(digest: Uint8Array, signature: string): string {
+  return publicKeyToAddress(recoverPublicKey(digest, splitSignature(signature)));
+}
+
+/**
+ * Sign a message with personal_sign semantics
+ */
+export function signMessage(message: string | Uint8Array, privateKey: string): string {
+  return joinSignature(sign(hashMessage(message), parsePrivateKey(privateKey)));
+}
+
+/**
+ * Recover the signer of a personal_sign message
+ */
+export function recoverMessageAddress(message: string | Uint8Array, signature: string): string {
+  return recoverAddress(hashMessage(message), signature);
+}
+
+// ============================================================
+// EIP-712
+// ============================================================
+
+/**
+ * The EIP712Domain fields implied by the values present in a domain
+ */
+function getDomainFields(domain: TypedDataDomain): TypedDataField[] {
+  return EIP712_DOMAIN_FIELDS.filter(
+    (field) => domain[field.name as keyof TypedDataDomain] !== undefined
+  );
+}
+
+function getBaseType(type: string): string {
+  const index = type.indexOf('[');
+  return index === -1 ? type : type.slice(0, index);
+}
+
+/**
+ * Collect a struct type and every struct type it references
+ */
+function findTypeDependencies(
+  primaryType: string,
+  types: Record<string, TypedDataField[]>,
+  found: Set<string> = new Set()
+): Set<string> {
+  const baseType = getBaseType(primaryType);
+  if (found.has(baseType) || !types[baseType]) {
+    return found;
+  }
+
+  found.add(baseType);
+  for (const field of types[baseType]) {
+    findTypeDependencies(field.type, types, found);
+  }
+  return found;
+}
+
+/**
+ * Encode a struct type as Name(type field,...) followed by its sorted dependencies
+ */
+export function encodeType(primaryType: string, types: Record<string, TypedDataField[]>): string {
+  const dependencies = [...findTypeDependencies(primaryType, types)]
+    .filter((type) => type !== primaryType)
+    .sort();
+
+  return [primaryType, ...dependencies]
+    .map((type) => {
+      if (!types[type]) {
+        throw new Error(`Unknown EIP-712 type: ${type}`);
+      }
+      return `${type}(${types[type].map((field) => `${field.type} ${field.name}`).join(',')})`;
+    })
+    .join('');
+}
+
+function encodeField(type: string, value: unknown, types: Record<string, TypedDataField[]>): Buffer {
+  if (types[type]) {
+    return hashStruct(type, value as Record<string, unknown>, types);
+  }
+
+  const arrayMatch = type.match(/^(.*)\[(\d*)\]$/);
+  if (arrayMatch) {
+    if (!Array.isArray(value)) {
+      throw new Error(`Expected an array for EIP-712 type ${type}`);
+    }
+    if (arrayMatch[2] && value.length !== Number(arrayMatch[2])) {
+      throw new Error(`Expected ${arrayMatch[2]} items for EIP-712 type ${type}`);
+    }
+    return keccak256Bytes(Buffer.concat(value.map((item) => encodeField(arrayMatch[1], item, types))));
+  }
+
+  if (type === 'string') {
+    return keccak256Bytes(Buffer.from(String(value), 'utf8'));
+  }
+
+  if (type === 'bytes') {
+    return keccak256Bytes(hexToBytes(String(value)));
+  }
+
+  return Buffer.from(encodeAbiParameters([type], [value]), 'hex');
+}
+
+/**
+ * hashStruct(s) = keccak256(typeHash || encodeData(s))
+ */
+export function hashStruct(
+  primaryType: string,
+  data: Record<string, unknown>,
+  types: Record<string, TypedDataField[]>
+): Buffer {
+  const fields = types[primaryType];
+  if (!fields) {
+    throw new Error(`Unknown EIP-712 type: ${primaryType}`);
+  }
+  if (!data || typeof data !== 'object') {
+    throw new Error(`Expected an object for EIP-712 type ${primaryType}`);
+  }
+
+  const encoded = fields.map((field) => {
+    if (data[field.name] === undefined) {
+      throw new Error(`Missing value for ${primaryType}.${field.name}`);
+    }
+    return encodeField(field.type, data[field.name], types);
+  });
+
+  return keccak256Bytes(
+    Buffer.concat([keccak256Bytes(Buffer.from(encodeType(primaryType, types), 'utf8')), ...encoded])
+  );
+}
+
+/**
+ * Digest signed for EIP-712 typed data
+ */
+export function hashTypedData(typedData: TypedData): Buffer {
+  const { domain = {}, message, primaryType } = typedData;
+
+  if (!primaryType || !typedData.types?.[primaryType]) {
+    throw new Error(`Typed data must define the primary type ${primaryType || ''}`.trim());
+  }
+
+  const types = {
+    ...typedData.types,
+    EIP712Domain: typedData.types.EIP712Domain || getDomainFields(domain),
+  };
+
+  const parts = [
+    Buffer.from([0x19, 0x01]),
+    hashStruct('EIP712Domain', domain as Record<string, unknown>, types),
+  ];
+
+  // Signing the domain itself has no message struct
+  if (primaryType !== 'EIP712Domain') {
+    parts.push(hashStruct(primaryType, message, types));
+  }
+
+  return keccak256Bytes(Buffer.concat(parts));
+}
+
+/**
+ * Sign EIP-712 typed data
+ */
+export function signTypedData(typedData: TypedData, privateKey: string): string {
+  return joinSignature(sign(hashTypedData(typedData), parsePrivateKey(privateKey)));
+}
+
+/**
+ * Recover the signer of EIP-712 typed data
+ */
+export function recoverTypedDataAddress(typedData: TypedData, signature: string): string {
+  return recoverAddress(hashTypedData(typedData), signature);
+}
@@ -0,0 +1,211 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { randomBytes } from 'crypto';
+import { hasValidChecksum, toChecksumAddress } from './address';
+import type { SiweMessage } from './types';
+
+/**
+ * Sign-In with Ethereum (EIP-4361) messages.
+ *
+ * The message is plain text signed with personal_sign; these helpers build
+ * it from fields, parse it back and check the fields a server must verify.
+ */
+
+const HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:';
+const NONCE_PATTERN = /^[a-zA-Z0-9]{8,}$/;
+const NONCE_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+export interface SiweVerificationOptions {
+  domain?: string;
+  /** Nonce the server issued; a message without it could be replayed */
+  nonce: string;
+  chainId?: number;
+  time?: Date;
+}
+
+/**
+ * Generate a random alphanumeric nonce. Bytes at or above the largest
+ * multiple of the alphabet size are drawn again, so every character is
+ * equally likely.
+ */
+export function generateSiweNonce(length = 17): string {
+  const limit = 256 - (256 % NONCE_ALPHABET.length);
+  let nonce = '';
+  while (nonce.length < length) {
+    for (const byte of randomBytes(length - nonce.length)) {
+      if (byte < limit) {
+        nonce += NONCE_ALPHABET[byte % NONCE_ALPHABET.length];
+      }
+    }
+  }
+  return nonce;
+}
+
+function assertTimestamp(value: string | undefined, field: string): void {
+  if (value !== undefined && isNaN(Date.parse(value))) {
+    throw new Error(`SIWE ${field} must be an ISO 8601 timestamp: ${value}`);
+  }
+}
+
+function assertValidFields(message: SiweMessage): void {
+  if (!message.domain || /\s/.test(message.domain)) {
+    throw new Error(`Invalid SIWE domain: ${message.domain}`);
+  }
+  if (!hasValidChecksum(message.address)) {
+    throw new Error(`Invalid SIWE address: ${message.address}`);
+  }
+  if (message.statement?.includes('\n')) {
+    throw new Error('SIWE statement must not contain line breaks');
+  }
+  if (!message.uri) {
+    throw new Error('SIWE URI is required');
+  }
+  if (message.version !== '1') {
+    throw new Error(`Unsupported SIWE version: ${message.version}`);
+  }
+  if (!Number.isInteger(message.chainId) || message.chainId <= 0) {
+    throw new Error(`Invalid SIWE chain ID: ${message.chainId}`);
+  }
+  if (!NONCE_PATTERN.test(message.nonce)) {
+    throw new Error('SIWE nonce must be at least 8 alphanumeric characters');
+  }
+  assertTimestamp(message.issuedAt, 'Issued At');
+  assertTimestamp(message.expirationTime, 'Expiration Time');
+  assertTimestamp(message.notBefore, 'Not Before');
+}
+
+/**
+ * Render the EIP-4361 message text
+ */
+export function buildSiweMessage(message: SiweMessage): string {
+  assertValidFields(message);
+
+  const origin = message.scheme ? `${message.scheme}://${message.domain}` : message.domain;
+  const lines = [
+    `${origin}${HEADER_SUFFIX}`,
+    toChecksumAddress(message.address),
+    '',
+    ...(message.statement ? [message.statement] : []),
+    '',
+    `URI: ${message.uri}`,
+    `Version: ${message.version}`,
+    `Chain ID: ${message.chainId}`,
+    `Nonce: ${message.nonce}`,
+    `Issued At: ${message.issuedAt}`,
+  ];
+
+  if (message.expirationTime) lines.push(`Expiration Time: ${message.expirationTime}`);
+  if (message.notBefore) lines.push(`Not Before: ${message.notBefore}`);
+  if (message.requestId !== undefined) lines.push(`Request ID: ${message.requestId}`);
+  if (message.resources?.length) {
+    lines.push('Resources:', ...message.resources.map((resource) => `- ${resource}`));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Parse EIP-4361 message text into its fields
+ */
+export function parseSiweMessage(text: string): SiweMessage {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  let index = 0;
+
+  const header = lines[index++] || '';
+  if (!header.endsWith(HEADER_SUFFIX)) {
+    throw new Error('Not a SIWE message: missing the sign-in header');
+  }
+  const origin = header.slice(0, -HEADER_SUFFIX.length);
+  const schemeMatch = origin.match(/^([a-zA-Z][a-zA-Z0-9+.-]*):\/\/(.+)$/);
+
+  const address = lines[index++] || '';
+  if (lines[index++] !== '') {
+    throw new Error('Invalid SIWE message: expected a blank line after the address');
+  }
+
+  let statement: string | undefined;
+  if (lines[index] !== '') {
+    statement = lines[index++];
+  }
+  if (lines[index++] !== '') {
+    throw new Error('Invalid SIWE message: expected a blank line before the fields');
+  }
+
+  const fields: Record<string, string> = {};
+  const resources: string[] = [];
+  for (; index < lines.length; index++) {
+    const line = lines[index];
+    if (line === 'Resources:') {
+      for (index++; index < lines.length; index++) {
+        if (!lines[index].startsWith('- ')) {
+          throw new Error(`Invalid SIWE resource line: ${lines[index]}`);
+        }
+        resources.push(lines[index].slice(2));
+      }
+      break;
+    }
+    const separator = line.indexOf(': ');
+    if (separator === -1) {
+      throw new Error(`Invalid SIWE field line: ${line}`);
+    }
+    fields[line.slice(0, separator)] = line.slice(separator + 2);
+  }
+
+  for (const required of ['URI', 'Version', 'Chain ID', 'Nonce', 'Issued At']) {
+    if (fields[required] === undefined) {
+      throw new Error(`Invalid SIWE message: missing ${required}`);
+    }
+  }
+
+  const message: SiweMessage = {
+    scheme: schemeMatch ? schemeMatch[1] : undefined,
+    domain: schemeMatch ? schemeMatch[2] : origin,
+    address,
+    statement,
+    uri: fields['URI'],
+    version: fields['Version'],
+    chainId: Number(fields['Chain ID']),
+    nonce: fields['Nonce'],
+    issuedAt: fields['Issued At'],
+    expirationTime: fields['Expiration Time'],
+    notBefore: fields['Not Before'],
+    requestId: fields['Request ID'],
+    resources: resources.length ? resources : undefined,
+  };
+
+  assertValidFields(message);
+  return message;
+}
+
+/**
+ * Check the fields a server must verify, returning every problem found
+ */
+export function validateSiweMessage(message: SiweMessage, options: SiweVerificationOptions): string[] {
+  const errors: string[] = [];
+  const now = (options.time || new Date()).getTime();
+
+  if (options.domain && message.domain !== options.domain) {
+    errors.push(`Domain mismatch: expected ${options.domain}, got ${message.domain}`);
+  }
+  if (!options.nonce) {
+    errors.push('No expected nonce was given to check the message against');
+  } else if (message.nonce !== options.nonce) {
+    errors.push(`Nonce mismatch: expected ${options.nonce}, got ${message.nonce}`);
+  }
+  if (options.chainId !== undefined && message.chainId !== options.chainId) {
+    errors.push(`Chain ID mismatch: expected ${options.chainId}, got ${message.chainId}`);
+  }
+  if (message.expirationTime && Date.parse(message.expirationTime) <= now) {
+    errors.push(`Message expired at ${message.expirationTime}`);
+  }
+  if (message.notBefore && Date.parse(message.notBefore) > now) {
+    errors.push(`Message is not valid before ${message.notBefore}`);
+  }
+
+  return errors;
+}
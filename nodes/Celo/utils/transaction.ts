@@ -0,0 +1,149 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { hasValidChecksum } from './address';
+import { keccak256Bytes } from './keccak';
+import { rlpEncode, toRlpBytes, toRlpQuantity } from './rlp';
+import type { RlpInput } from './rlp';
+import { parsePrivateKey, privateKeyToAddress, sign } from './secp256k1';
+import type { EcdsaSignature } from './secp256k1';
+import type { AccessListItem, Quantity, UnsignedTransaction } from './types';
+
+/**
+ * Transaction serialisation and signing.
+ *
+ * - legacy:  rlp([nonce, gasPrice, gas, to, value, data, v, r, s]) with EIP-155 replay protection
+ * - eip1559: 0x02 || rlp([chainId, nonce, maxPriorityFeePerGas, maxFeePerGas, gas, to, value, data, accessList, yParity, r, s])
+ * - cip64:   0x7b || rlp([chainId, nonce, maxPriorityFeePerGas, maxFeePerGas, gas, to, value, data, accessList, feeCurrency, yParity, r, s])
+ *
+ * CIP-64 transactions pay gas in an allowlisted ERC-20 fee currency such as cUSD.
+ */
+
+export const TRANSACTION_TYPE_PREFIX = {
+  eip1559: 0x02,
+  cip64: 0x7b,
+} as const;
+
+export interface SignedTransaction {
+  rawTransaction: string;
+  transactionHash: string;
+  from: string;
+}
+
+function requireQuantity(value: Quantity | undefined, field: string): Buffer {
+  if (value === undefined || value === null || value === '') {
+    throw new Error(`Transaction field "${field}" is required`);
+  }
+  return toRlpQuantity(value);
+}
+
+function encodeAddress(address: string | null | undefined, field: string): Buffer {
+  if (!address) {
+    return Buffer.alloc(0);
+  }
+  if (!/^0x[0-9a-fA-F]{40}$/.test(address)) {
+    throw new Error(`Invalid address in transaction field "${field}": ${address}`);
+  }
+  if (!hasValidChecksum(address)) {
+    throw new Error(`Invalid address checksum in transaction field "${field}": ${address}`);
+  }
+  return toRlpBytes(address);
+}
+
+function encodeAccessList(accessList: AccessListItem[] = []): RlpInput[] {
+  return accessList.map((item) => [
+    encodeAddress(item.address, 'accessList'),
+    item.storageKeys.map((key) => toRlpBytes(key)),
+  ]);
+}
+
+/**
+ * Build the RLP fields of a transaction, excluding the signature
+ */
+function getTransactionFields(tx: UnsignedTransaction): RlpInput[] {
+  const common = [
+    requireQuantity(tx.gas, 'gas'),
+    encodeAddress(tx.to, 'to'),
+    toRlpQuantity(tx.value ?? 0),
+    toRlpBytes(tx.data),
+  ];
+
+  switch (tx.type) {
+    case 'legacy':
+      return [requireQuantity(tx.nonce, 'nonce'), requireQuantity(tx.gasPrice, 'gasPrice'), ...common];
+
+    case 'eip1559':
+    case 'cip64': {
+      const fields: RlpInput[] = [
+        requireQuantity(tx.chainId, 'chainId'),
+        requireQuantity(tx.nonce, 'nonce'),
+        requireQuantity(tx.maxPriorityFeePerGas, 'maxPriorityFeePerGas'),
+        requireQuantity(tx.maxFeePerGas, 'maxFeePerGas'),
+        ...common,
+        encodeAccessList(tx.accessList),
+      ];
+      if (tx.type === 'cip64') {
+        if (!tx.feeCurrency) {
+          throw new Error('CIP-64 transactions require a fee currency');
+        }
+        fields.push(encodeAddress(tx.feeCurrency, 'feeCurrency'));
+      }
+      return fields;
+    }
+
+    default:
+      throw new Error(`Unsupported transaction type: ${(tx as UnsignedTransaction).type}`);
+  }
+}
+
+/**
+ * Serialise a transaction, unsigned (the signing payload) or with a signature
+ */
+export function serializeTransaction(tx: UnsignedTransaction, signature?: EcdsaSignature): string {
+  const fields = getTransactionFields(tx);
+
+  if (tx.type === 'legacy') {
+    requireQuantity(tx.chainId, 'chainId');
+    const chainId = BigInt(tx.chainId);
+    if (signature) {
+      const v = chainId * BigInt(2) + BigInt(35 + signature.recovery);
+      fields.push(toRlpQuantity(v), toRlpQuantity(signature.r), toRlpQuantity(signature.s));
+    } else {
+      fields.push(toRlpQuantity(chainId), Buffer.alloc(0), Buffer.alloc(0));
+    }
+    return '0x' + rlpEncode(fields).toString('hex');
+  }
+
+  if (signature) {
+    fields.push(toRlpQuantity(signature.recovery), toRlpQuantity(signature.r), toRlpQuantity(signature.s));
+  }
+
+  const prefix = Buffer.from([TRANSACTION_TYPE_PREFIX[tx.type]]);
+  return '0x' + Buffer.concat([prefix, rlpEncode(fields)]).toString('hex');
+}
+
+/**
+ * Hash that is signed for a transaction
+ */
+export function getSigningHash(tx: UnsignedTransaction): Buffer {
+  return keccak256Bytes(toRlpBytes(serializeTransaction(tx)));
+}
+
+/**
+ * Sign a transaction with a hex private key
+ */
+export function signTransactionWithKey(tx: UnsignedTransaction, privateKey: string): SignedTransaction {
+  const key = parsePrivateKey(privateKey);
+  const signature = sign(getSigningHash(tx), key);
+  const rawTransaction = serializeTransaction(tx, signature);
+
+  return {
+    rawTransaction,
+    transactionHash: '0x' + keccak256Bytes(toRlpBytes(rawTransaction)).toString('hex'),
+    from: privateKeyToAddress(key),
+  };
+}
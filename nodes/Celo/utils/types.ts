@@ -20,6 +20,11 @@ export type StablecoinSymbol = 'cUSD' | 'cEUR' | 'cREAL';
  */
 export type VoteValue = 'None' | 'Abstain' | 'No' | 'Yes';
 
+/**
+ * Governance proposal stages
+ */
+export type ProposalStage = 'None' | 'Queued' | 'Referendum' | 'Execution' | 'Expiration';
+
 /**
  * JSON-RPC request structure
  */
@@ -44,13 +49,45 @@ export interface JsonRpcResponse<T = unknown> {
   };
 }
 
+/**
+ * One call of a JSON-RPC batch, tagged with the item it is made for
+ */
+export interface RpcBatchCall {
+  method: string;
+  params: unknown[];
+  itemIndex: number;
+}
+
+/**
+ * Outcome of one call of a JSON-RPC batch
+ */
+export type RpcBatchResult<T = unknown> = { result: T } | { error: Error };
+
+/**
+ * RPC endpoint that served a call. The endpoint is the URL's origin, leaving
+ * out any API key in its path; endpointIndex is its position in the RPC URLs.
+ */
+export interface RpcCallRecord {
+  method: string;
+  endpoint: string;
+  endpointIndex: number;
+  itemIndex: number;
+}
+
 /**
  * Credential structure
  */
 export interface CeloCredentials {
   network: CeloNetwork;
   rpcEndpoint?: string;
+  maxBlockLag?: number;
+  authHeaderName?: string;
+  authHeaderValue?: string;
+  signingKeyType?: 'none' | 'privateKey' | 'mnemonic';
   privateKey?: string;
+  mnemonic?: string;
+  mnemonicPassphrase?: string;
+  derivationPath?: 'celo' | 'ethereum';
   celoscanApiKey?: string;
 }
 
@@ -72,16 +109,23 @@ export interface AllBalancesResponse {
   address: string;
   network: string;
   balances: {
-    CELO: string;
-    cUSD: string;
-    cEUR: string;
-    cREAL: string;
+    CELO: string | null;
+    cUSD: string | null;
+    cEUR: string | null;
+    cREAL: string | null;
   };
   balancesFormatted: {
-    CELO: string;
-    cUSD: string;
-    cEUR: string;
-    cREAL: string;
+    CELO: string | null;
+    cUSD: string | null;
+    cEUR: string | null;
+    cREAL: string | null;
+  };
+  readStatus: Record<string, boolean>;
+  lockedCelo: LockedBalance;
+  votes: {
+    total: string;
+    totalFormatted: string;
+    groups: VoteInfo[];
   };
 }
 
@@ -98,14 +142,72 @@ export interface TransactionData {
   valueFormatted: string;
   gas: string;
   gasPrice: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
   input: string;
   nonce: string;
   transactionIndex: string | null;
+  type?: string;
+  chainId?: string;
   feeCurrency?: string | null;
   gatewayFee?: string;
   gatewayFeeRecipient?: string | null;
 }
 
+/**
+ * Hex originals kept alongside quantity fields decoded to decimal
+ */
+export type HexVariants<K extends string> = { [P in K as `${P}Hex`]?: string };
+
+/**
+ * Transaction envelope types supported by the local signer
+ */
+export type TransactionType = 'legacy' | 'eip1559' | 'cip64';
+
+/**
+ * Numeric value given as a bigint, number, decimal string or 0x-hex string
+ */
+export type Quantity = bigint | number | string;
+
+/**
+ * Transaction request before nonce, gas and fees are filled in
+ */
+export interface TransactionRequest {
+  to?: string;
+  value?: string;
+  data?: string;
+  gas?: string;
+  gasPrice?: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  nonce?: string;
+  feeCurrency?: string;
+  type?: TransactionType;
+}
+
+export interface AccessListItem {
+  address: string;
+  storageKeys: string[];
+}
+
+/**
+ * Fully populated transaction ready for signing
+ */
+export interface UnsignedTransaction {
+  type: TransactionType;
+  chainId: Quantity;
+  nonce: Quantity;
+  gas: Quantity;
+  to?: string | null;
+  value?: Quantity;
+  data?: string;
+  gasPrice?: Quantity;
+  maxFeePerGas?: Quantity;
+  maxPriorityFeePerGas?: Quantity;
+  feeCurrency?: string;
+  accessList?: AccessListItem[];
+}
+
 /**
  * Transaction receipt
  */
@@ -113,6 +215,7 @@ export interface TransactionReceipt {
   transactionHash: string;
   blockNumber: string;
   blockHash: string;
+  transactionIndex: string;
   from: string;
   to: string | null;
   contractAddress: string | null;
@@ -120,6 +223,7 @@ export interface TransactionReceipt {
   gasUsed: string;
   effectiveGasPrice: string;
   status: string;
+  type?: string;
   logs: TransactionLog[];
   logsBloom: string;
 }
@@ -201,6 +305,16 @@ export interface AttestationData {
   isRevoked: boolean;
 }
 
+export type IdentifierType = 'phoneNumber' | 'email' | 'twitter' | 'discord';
+
+export interface FederatedAttestation {
+  issuer: string;
+  account: string;
+  signer: string;
+  issuedOn: number;
+  publishedOn: number;
+}
+
 /**
  * Staking types
  */
@@ -212,6 +326,7 @@ export interface ValidatorInfo {
   affiliation: string;
   score: string;
   signer: string;
+  readStatus?: Record<string, boolean>;
 }
 
 export interface ValidatorGroupInfo {
@@ -223,6 +338,7 @@ export interface ValidatorGroupInfo {
   nextCommissionBlock: string;
   slashingMultiplier: string;
   lastSlashed: string;
+  readStatus?: Record<string, boolean>;
 }
 
 export interface VoteInfo {
@@ -298,7 +414,7 @@ export interface ProposalInfo {
   timestamp: number;
   transactionCount: number;
   descriptionUrl: string;
-  stage: string;
+  stage: ProposalStage;
   votes: {
     yes: string;
     no: string;
@@ -349,6 +465,37 @@ export interface ReserveRatio {
 /**
  * Smart contract types
  */
+export interface AbiParameter {
+  readonly name?: string;
+  readonly type: string;
+  readonly components?: readonly AbiParameter[];
+  readonly indexed?: boolean;
+}
+
+export interface AbiFunctionFragment {
+  readonly name: string;
+  readonly inputs: readonly AbiParameter[];
+  readonly outputs?: readonly AbiParameter[];
+  readonly stateMutability?: string;
+  readonly type?: string;
+}
+
+/**
+ * One read of a Multicall3 aggregate
+ */
+export interface ContractRead {
+  target: string;
+  fragment: AbiFunctionFragment;
+  args?: unknown[];
+}
+
+/**
+ * Outcome of one read of a Multicall3 aggregate
+ */
+export type ContractReadResult =
+  | { success: true; result: Record<string, unknown> }
+  | { success: false; error: string };
+
 export interface ContractCallResult {
   result: unknown;
   decodedResult?: unknown;
@@ -371,16 +518,59 @@ export interface ContractEvent {
   args?: Record<string, unknown>;
 }
 
+/**
+ * Message signing types
+ */
+export interface TypedDataField {
+  name: string;
+  type: string;
+}
+
+export interface TypedDataDomain {
+  name?: string;
+  version?: string;
+  chainId?: number | string;
+  verifyingContract?: string;
+  salt?: string;
+}
+
+export interface TypedData {
+  types: Record<string, TypedDataField[]>;
+  primaryType: string;
+  domain: TypedDataDomain;
+  message: Record<string, unknown>;
+}
+
+/**
+ * Sign-In with Ethereum (EIP-4361) message fields
+ */
+export interface SiweMessage {
+  scheme?: string;
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  resources?: string[];
+}
+
 /**
  * Token types
  */
 export interface TokenInfo {
   address: string;
-  name: string;
-  symbol: string;
+  name: string | null;
+  symbol: string | null;
   decimals: number;
   totalSupply: string;
   totalSupplyFormatted: string;
+  readStatus?: Record<string, boolean>;
 }
 
 export interface TokenHolder {
@@ -3,26 +3,96 @@
  * Licensed under the Business Source License 1.1
  */
 
-import { IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import type { IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
 import { Celo } from '../nodes/Celo/Celo.node';
+import {
+  ABI_FRAGMENTS,
+  CELO_CONTRACTS,
+  MULTICALL3_ADDRESS,
+  REGISTRY_ADDRESS,
+  REGISTRY_CONTRACT_NAMES,
+  ZERO_ADDRESS,
+} from '../nodes/Celo/constants/celo.constants';
+import { encodeAbiParameters } from '../nodes/Celo/utils/abi';
+
+const privateKey = '0x4646464646464646464646464646464646464646464646464646464646464646';
+const signer = '0x9d8A62f656a8d1615C1294fd71e9CFb3E4855A4F';
+const token = '0x765DE816845861e75A25fCA122bb6898B8B1282a';
+const recipient = '0x3535353535353535353535353535353535353535';
+
+type RpcRequest = { method: string; params: any[] };
 
-// Mock n8n-workflow
-jest.mock('n8n-workflow', () => ({
-  ...jest.requireActual('n8n-workflow'),
-  NodeApiError: class NodeApiError extends Error {
-    constructor(node: any, error: any) { super(error.message || 'API Error'); }
-  },
-  NodeOperationError: class NodeOperationError extends Error {
-    constructor(node: any, message: string) { super(message); }
-  },
-}));
+/**
+ * Execution context answering node parameters by name, optionally per item,
+ * and JSON-RPC calls, single or batched, through a handler by method
+ */
+function createContext(
+  parameters: Record<string, unknown>,
+  rpc: (request: RpcRequest) => unknown,
+  { itemCount = 1, continueOnFail = false } = {},
+) {
+  const requests: RpcRequest[] = [];
+  const respond = (body: RpcRequest & { id: number }) => {
+    requests.push(body);
+    try {
+      return { jsonrpc: '2.0', id: body.id, result: rpc(body) };
+    } catch (error) {
+      return { jsonrpc: '2.0', id: body.id, error: { code: 3, message: (error as Error).message } };
+    }
+  };
+
+  const context = {
+    getInputData: jest.fn().mockReturnValue(Array.from({ length: itemCount }, () => ({ json: {} }))),
+    getNodeParameter: jest.fn((name: string, itemIndex: number, fallback?: unknown) => {
+      const value = parameters[name];
+      if (value === undefined) {
+        if (fallback === undefined) {
+          throw new Error(`Unexpected parameter: ${name}`);
+        }
+        return fallback;
+      }
+      return typeof value === 'function' ? value(itemIndex) : value;
+    }),
+    getCredentials: jest.fn().mockResolvedValue({ network: 'mainnet', signingKeyType: 'privateKey', privateKey }),
+    getNode: jest.fn().mockReturnValue({ name: 'Celo' }),
+    continueOnFail: jest.fn().mockReturnValue(continueOnFail),
+    helpers: {
+      httpRequest: jest.fn(async ({ body }) => (Array.isArray(body) ? body.map(respond) : respond(body))),
+    },
+  } as unknown as IExecuteFunctions;
+
+  return { context, requests };
+}
+
+function encodeResult(types: Parameters<typeof encodeAbiParameters>[0], values: unknown[]): string {
+  return '0x' + encodeAbiParameters(types, values);
+}
 
-describe('Celo Node', () => {
-  let node: Celo;
+/**
+ * aggregate3 result of a Registry read that registers the offline mainnet addresses
+ */
+function registryResult(): string {
+  const addresses = CELO_CONTRACTS.mainnet as Record<string, string>;
+  return encodeResult(ABI_FRAGMENTS.multicall3.aggregate3.outputs, [
+    REGISTRY_CONTRACT_NAMES.map((name) => [true, encodeResult(['address'], [(addresses[name] || ZERO_ADDRESS).toLowerCase()])]),
+  ]);
+}
+
+function isRegistryRead({ method, params }: RpcRequest): boolean {
+  return (
+    method === 'eth_call' &&
+    params[0].to === MULTICALL3_ADDRESS &&
+    String(params[0].data).toLowerCase().includes(REGISTRY_ADDRESS.slice(2).toLowerCase())
+  );
+}
+
+async function execute(context: IExecuteFunctions): Promise<INodeExecutionData[]> {
+  const [output] = await new Celo().execute.call(context);
+  return output;
+}
 
-  beforeAll(() => {
-    node = new Celo();
-  });
+describe('Celo Node', () => {
+  const node = new Celo();
 
   describe('Node Definition', () => {
     it('should have correct basic properties', () => {
@@ -33,906 +103,314 @@ describe('Celo Node', () => {
       expect(node.description.outputs).toContain('main');
     });
 
-    it('should define 7 resources', () => {
-      const resourceProp = node.description.properties.find(
-        (p: any) => p.name === 'resource'
-      );
-      expect(resourceProp).toBeDefined();
-      expect(resourceProp!.type).toBe('options');
-      expect(resourceProp!.options).toHaveLength(7);
-    });
+    it('should have an operation dropdown for each resource', () => {
+      const resourceProp = node.description.properties.find((p) => p.name === 'resource');
+      const operations = node.description.properties.filter((p) => p.name === 'operation');
 
-    it('should have operation dropdowns for each resource', () => {
-      const operations = node.description.properties.filter(
-        (p: any) => p.name === 'operation'
-      );
-      expect(operations.length).toBe(7);
+      expect(resourceProp?.type).toBe('options');
+      expect(operations).toHaveLength(resourceProp?.options?.length ?? 0);
     });
 
     it('should require credentials', () => {
       expect(node.description.credentials).toBeDefined();
-      expect(node.description.credentials!.length).toBeGreaterThan(0);
       expect(node.description.credentials![0].required).toBe(true);
     });
 
     it('should have parameters with proper displayOptions', () => {
-      const params = node.description.properties.filter(
-        (p: any) => p.displayOptions?.show?.resource
-      );
+      const params = node.description.properties.filter((p) => p.displayOptions?.show?.resource);
       for (const param of params) {
-        expect(param.displayOptions.show.resource).toBeDefined();
-        expect(Array.isArray(param.displayOptions.show.resource)).toBe(true);
+        expect(Array.isArray(param.displayOptions?.show?.resource)).toBe(true);
       }
     });
   });
 
-  // Resource-specific tests
-describe('Account Resource', () => {
-	let mockExecuteFunctions: any;
-
-	beforeEach(() => {
-		mockExecuteFunctions = {
-			getNodeParameter: jest.fn(),
-			getCredentials: jest.fn().mockResolvedValue({
-				apiKey: 'test-key',
-				baseUrl: 'https://forno.celo.org',
-			}),
-			getInputData: jest.fn().mockReturnValue([{ json: {} }]),
-			getNode: jest.fn().mockReturnValue({ name: 'Test Node' }),
-			continueOnFail: jest.fn().mockReturnValue(false),
-			helpers: {
-				httpRequest: jest.fn(),
-				requestWithAuthentication: jest.fn(),
-			},
-		};
-	});
-
-	describe('getBalance operation', () => {
-		it('should get account balance successfully', async () => {
-			mockExecuteFunctions.getNodeParameter
-				.mockReturnValueOnce('getBalance')
-				.mockReturnValueOnce('0x742d35Cc6634C0532925a3b8D598C3e6fE4dEd9C')
-				.mockReturnValueOnce('latest');
-
-			const mockResponse = {
-				jsonrpc: '2.0',
-				id: 1,
-				result: '0x1b1ae4d6e2ef500000',
-			};
-
-			mockExecuteFunctions.helpers.httpRequest.mockResolvedValueOnce(mockResponse);
-
-			const result = await executeAccountOperations.call(mockExecuteFunctions, [{ json: {} }]);
-
-			expect(result[0].json).toEqual(mockResponse);
-			expect(mockExecuteFunctions.helpers.httpRequest).toHaveBeenCalledWith({
-				method: 'POST',
-				url: 'https://forno.celo.org',
-				headers: {
-					'Content-Type': 'application/json',
-					'Authorization': 'Bearer test-key',
-				},
-				body: {
-					jsonrpc: '2.0',
-					method: 'eth_getBalance',
-					params: ['0x742d35Cc6634C0532925a3b8D598C3e6fE4dEd9C', 'latest'],
-					id: 1,
-				},
-				json: true,
-			});
-		});
-
-		it('should handle getBalance errors', async () => {
-			mockExecuteFunctions.getNodeParameter
-				.mockReturnValueOnce('getBalance')
-				.mockReturnValueOnce('invalid-address')
-				.mockReturnValueOnce('latest');
-
-			mockExecuteFunctions.helpers.httpRequest.mockRejectedValueOnce(new Error('Invalid address'));
-			mockExecuteFunctions.continueOnFail.mockReturnValueOnce(true);
-
-			const result = await executeAccountOperations.call(mockExecuteFunctions, [{ json: {} }]);
-
-			expect(result[0].json.error).toBe('Invalid address');
-		});
-	});
-
-	describe('getTransactionCount operation', () => {
-		it('should get transaction count successfully', async () => {
-			mockExecuteFunctions.getNodeParameter
-				.mockReturnValueOnce('getTransactionCount')
-				.mockReturnValueOnce('0x742d35Cc6634C0532925a3b8D598C3e6fE4dEd9C')
-				.mockReturnValueOnce('latest');
-
-			const mockResponse = {
-				jsonrpc: '2.0',
-				id: 1,
-				result: '0x1a',
-			};
-
-			mockExecuteFunctions.helpers.httpRequest.mockResolvedValueOnce(mockResponse);
-
-			const result = await executeAccountOperations.call(mockExecuteFunctions, [{ json: {} }]);
-
-			expect(result[0].json).toEqual(mockResponse);
-		});
-	});
-
-	describe('getCode operation', () => {
-		it('should get contract code successfully', async () => {
-			mockExecuteFunctions.getNodeParameter
-				.mockReturnValueOnce('getCode')
-				.mockReturnValueOnce('0x742d35Cc6634C0532925a3b8D598C3e6fE4dEd9C')
-				.mockReturnValueOnce('latest');
-
-			const mockResponse = {
-				jsonrpc: '2.0',
-				id: 1,
-				result: '0x608060405234801561001057600080fd5b50',
-			};
-
-			mockExecuteFunctions.helpers.httpRequest.mockResolvedValueOnce(mockResponse);
-
-			const result = await executeAccountOperations.call(mockExecuteFunctions, [{ json: {} }]);
-
-			expect(result[0].json).toEqual(mockResponse);
-		});
-	});
-
-	describe('listAccounts operation', () => {
-		it('should list accounts successfully', async () => {
-			mockExecuteFunctions.getNodeParameter.mockReturnValueOnce('listAccounts');
-
-			const mockResponse = {
-				jsonrpc: '2.0',
-				id: 1,
-				result: ['0x742d35Cc6634C0532925a3b8D598C3e6fE4dEd9C'],
-			};
-
-			mockExecuteFunctions.helpers.httpRequest.mockResolvedValueOnce(mockResponse);
-
-			const result = await executeAccountOperations.call(mockExecuteFunctions, [{ json: {} }]);
-
-			expect(result[0].json).toEqual(mockResponse);
-		});
-	});
-
-	describe('callContract operation', () => {
-		it('should call contract successfully', async () => {
-			const transaction = {
-				to: '0x742d35Cc6634C0532925a3b8D598C3e6fE4dEd9C',
-				data: '0x70a08231',
-			};
-
-			mockExecuteFunctions.getNodeParameter
-				.mockReturnValueOnce('callContract')
-				.mockReturnValueOnce(transaction)
-				.mockReturnValueOnce('latest');
-
-			const mockResponse = {
-				jsonrpc: '2.0',
-				id: 1,
-				result: '0x0000000000000000000000000000000000000000000000000000000000000000',
-			};
-
-			mockExecuteFunctions.helpers.httpRequest.mockResolvedValueOnce(mockResponse);
-
-			const result = await executeAccountOperations.call(mockExecuteFunctions, [{ json: {} }]);
-
-			expect(result[0].json).toEqual(mockResponse);
-		});
-	});
-});
-
-describe('Transaction Resource', () => {
-	let mockExecuteFunctions: any;
-
-	beforeEach(() => {
-		mockExecuteFunctions = {
-			getNodeParameter: jest.fn(),
-			getCredentials: jest.fn().mockResolvedValue({ 
-				apiKey: 'test-key', 
-				baseUrl: 'https://forno.celo.org' 
-			}),
-			getInputData: jest.fn().mockReturnValue([{ json: {} }]),
-			getNode: jest.fn().mockReturnValue({ name: 'Test Node' }),
-			continueOnFail: jest.fn().mockReturnValue(false),
-			helpers: { 
-				httpRequest: jest.fn(),
-				requestWithAuthentication: jest.fn() 
-			},
-		};
-	});
-
-	it('should send transaction successfully', async () => {
-		const mockTransaction = { to: '0x123', value: '1000000000000000000' };
-		mockExecuteFunctions.getNodeParameter
-			.mockReturnValueOnce('sendTransaction')
-			.mockReturnValueOnce(mockTransaction);
-		mockExecuteFunctions.helpers.httpRequest.mockResolvedValue({ 
-			result: '0xabc123' 
-		});
-
-		const result = await executeTransactionOperations.call(
-			mockExecuteFunctions,
-			[{ json: {} }]
-		);
-
-		expect(result).toHaveLength(1);
-		expect(result[0].json.result).toBe('0xabc123');
-	});
-
-	it('should handle send transaction error', async () => {
-		mockExecuteFunctions.getNodeParameter
-			.mockReturnValueOnce('sendTransaction')
-			.mockReturnValueOnce({});
-		mockExecuteFunctions.helpers.httpRequest.mockRejectedValue(
-			new Error('Transaction failed')
-		);
-		mockExecuteFunctions.continueOnFail.mockReturnValue(true);
-
-		const result = await executeTransactionOperations.call(
-			mockExecuteFunctions,
-			[{ json: {} }]
-		);
-
-		expect(result).toHaveLength(1);
-		expect(result[0].json.error).toBe('Transaction failed');
-	});
-
-	it('should get transaction by hash successfully', async () => {
-		const mockHash = '0xabc123';
-		mockExecuteFunctions.getNodeParameter
-			.mockReturnValueOnce('getTransactionByHash')
-			.mockReturnValueOnce(mockHash);
-		mockExecuteFunctions.helpers.httpRequest.mockResolvedValue({ 
-			result: { hash: mockHash, blockNumber: '0x1' } 
-		});
-
-		const result = await executeTransactionOperations.call(
-			mockExecuteFunctions,
-			[{ json: {} }]
-		);
-
-		expect(result).toHaveLength(1);
-		expect(result[0].json.result.hash).toBe(mockHash);
-	});
-
-	it('should estimate gas successfully', async () => {
-		const mockTransaction = { to: '0x123', data: '0x456' };
-		mockExecuteFunctions.getNodeParameter
-			.mockReturnValueOnce('estimateGas')
-			.mockReturnValueOnce(mockTransaction);
-		mockExecuteFunctions.helpers.httpRequest.mockResolvedValue({ 
-			result: '0x5208' 
-		});
-
-		const result = await executeTransactionOperations.call(
-			mockExecuteFunctions,
-			[{ json: {} }]
-		);
-
-		expect(result).toHaveLength(1);
-		expect(result[0].json.result).toBe('0x5208');
-	});
-
-	it('should get gas price successfully', async () => {
-		mockExecuteFunctions.getNodeParameter
-			.mockReturnValueOnce('getGasPrice');
-		mockExecuteFunctions.helpers.httpRequest.mockResolvedValue({ 
-			result: '0x3b9aca00' 
-		});
-
-		const result = await executeTransactionOperations.call(
-			mockExecuteFunctions,
-			[{ json: {} }]
-		);
-
-		expect(result).toHaveLength(1);
-		expect(result[0].json.result).toBe('0x3b9aca00');
-	});
-});
+  describe('execute', () => {
+    it('should batch single-call reads across items and checksum addresses', async () => {
+      const addresses = [signer.toLowerCase(), recipient];
+      const { context, requests } = createContext(
+        { resource: 'account', operation: 'getBalance', address: (i: number) => addresses[i], blockNumber: 'latest' },
+        () => '0xde0b6b3a7640000',
+        { itemCount: 2 },
+      );
 
-describe('Block Resource', () => {
-  let mockExecuteFunctions: any;
-
-  beforeEach(() => {
-    mockExecuteFunctions = {
-      getNodeParameter: jest.fn(),
-      getCredentials: jest.fn().mockResolvedValue({ 
-        apiKey: 'test-key', 
-        baseUrl: 'https://forno.celo.org' 
-      }),
-      getInputData: jest.fn().mockReturnValue([{ json: {} }]),
-      getNode: jest.fn().mockReturnValue({ name: 'Test Node' }),
-      continueOnFail: jest.fn().mockReturnValue(false),
-      helpers: { 
-        httpRequest: jest.fn(),
-        requestWithAuthentication: jest.fn() 
-      },
-    };
-  });
+      const output = await execute(context);
 
-  it('should get block by number successfully', async () => {
-    mockExecuteFunctions.getNodeParameter
-      .mockReturnValueOnce('getBlockByNumber')
-      .mockReturnValueOnce('latest')
-      .mockReturnValueOnce(false);
-    
-    mockExecuteFunctions.helpers.httpRequest.mockResolvedValue({
-      jsonrpc: '2.0',
-      id: 1,
-      result: { number: '0x1234', hash: '0xabcd' }
+      expect(output.map((item) => item.json)).toEqual([
+        expect.objectContaining({ address: signer, balance: '1000000000000000000', balanceFormatted: '1' }),
+        expect.objectContaining({ address: recipient, balanceFormatted: '1' }),
+      ]);
+      expect(output.map((item) => item.pairedItem)).toEqual([{ item: 0 }, { item: 1 }]);
+      expect(requests.map(({ method }) => method)).toEqual(['eth_getBalance', 'eth_getBalance']);
+      expect((context.helpers.httpRequest as jest.Mock).mock.calls).toHaveLength(1);
     });
 
-    const result = await executeBlockOperations.call(mockExecuteFunctions, [{ json: {} }]);
-    expect(result).toHaveLength(1);
-    expect(result[0].json.result.number).toBe('0x1234');
-  });
+    it('should return the code size of an account', async () => {
+      const { context } = createContext(
+        { resource: 'accounts', operation: 'getCode', address: token },
+        () => '0x6080604052',
+      );
 
-  it('should handle getBlockByNumber error', async () => {
-    mockExecuteFunctions.getNodeParameter
-      .mockReturnValueOnce('getBlockByNumber')
-      .mockReturnValueOnce('latest')
-      .mockReturnValueOnce(false);
-    
-    mockExecuteFunctions.helpers.httpRequest.mockRejectedValue(new Error('Network error'));
-    mockExecuteFunctions.continueOnFail.mockReturnValue(true);
-
-    const result = await executeBlockOperations.call(mockExecuteFunctions, [{ json: {} }]);
-    expect(result).toHaveLength(1);
-    expect(result[0].json.error).toBe('Network error');
-  });
+      const [{ json }] = await execute(context);
 
-  it('should get block by hash successfully', async () => {
-    mockExecuteFunctions.getNodeParameter
-      .mockReturnValueOnce('getBlockByHash')
-      .mockReturnValueOnce('0xabcd1234')
-      .mockReturnValueOnce(true);
-    
-    mockExecuteFunctions.helpers.httpRequest.mockResolvedValue({
-      jsonrpc: '2.0',
-      id: 1,
-      result: { hash: '0xabcd1234', transactions: [] }
+      expect(json).toMatchObject({ address: token, code: '0x6080604052', codeSize: 5, isContract: true });
     });
 
-    const result = await executeBlockOperations.call(mockExecuteFunctions, [{ json: {} }]);
-    expect(result).toHaveLength(1);
-    expect(result[0].json.result.hash).toBe('0xabcd1234');
-  });
-
-  it('should get latest block number successfully', async () => {
-    mockExecuteFunctions.getNodeParameter
-      .mockReturnValueOnce('getLatestBlock');
-    
-    mockExecuteFunctions.helpers.httpRequest.mockResolvedValue({
-      jsonrpc: '2.0',
-      id: 1,
-      result: '0x5678'
-    });
+    it('should emit one item per block of a range and stop at the chain head', async () => {
+      const { context } = createContext(
+        { resource: 'block', operation: 'getBlockRange', fromBlock: '10', blockCount: 3 },
+        ({ params }) => (params[0] === '0xc' ? null : { number: params[0], hash: '0x' + params[0].slice(2).padStart(64, '0') }),
+      );
 
-    const result = await executeBlockOperations.call(mockExecuteFunctions, [{ json: {} }]);
-    expect(result).toHaveLength(1);
-    expect(result[0].json.result).toBe('0x5678');
-  });
+      const output = await execute(context);
 
-  it('should get block transaction count successfully', async () => {
-    mockExecuteFunctions.getNodeParameter
-      .mockReturnValueOnce('getBlockTransactionCount')
-      .mockReturnValueOnce('0xabcd1234');
-    
-    mockExecuteFunctions.helpers.httpRequest.mockResolvedValue({
-      jsonrpc: '2.0',
-      id: 1,
-      result: '0x5'
+      expect(output.map((item) => item.json.number)).toEqual(['0xa', '0xb']);
+      expect(output.map((item) => item.pairedItem)).toEqual([{ item: 0 }, { item: 0 }]);
     });
 
-    const result = await executeBlockOperations.call(mockExecuteFunctions, [{ json: {} }]);
-    expect(result).toHaveLength(1);
-    expect(result[0].json.result).toBe('0x5');
-  });
+    it('should query validator rewards in bounded block windows', async () => {
+      const validator = recipient;
+      const group = signer;
+      const currentBlock = 2 * 17280 + 12000;
+      const { context, requests } = createContext(
+        { resource: 'validator', operation: 'getValidatorRewards', validatorAddress: validator, epochCount: 1 },
+        (request) => {
+          const { method, params } = request;
+          if (isRegistryRead(request)) {
+            return registryResult();
+          }
+          switch (method) {
+            case 'eth_blockNumber':
+              return '0x' + currentBlock.toString(16);
+            case 'eth_getLogs':
+              return params[0].fromBlock !== '0x' + (2 * 17280).toString(16) ? [] : [{
+                blockNumber: '0x' + (2 * 17280 + 100).toString(16),
+                data: encodeResult(['uint256', 'uint256'], ['2000000000000000000', '1000000000000000000']),
+                topics: [params[0].topics[0], params[0].topics[1], '0x' + group.slice(2).toLowerCase().padStart(64, '0')],
+              }];
+            case 'eth_getBlockByNumber':
+              return { number: params[0], timestamp: '0x64' };
+            default:
+              throw new Error(`Unexpected method ${method}`);
+          }
+        },
+      );
 
-  it('should get uncle block information successfully', async () => {
-    mockExecuteFunctions.getNodeParameter
-      .mockReturnValueOnce('getUncle')
-      .mockReturnValueOnce('0xabcd1234')
-      .mockReturnValueOnce('0x0');
-    
-    mockExecuteFunctions.helpers.httpRequest.mockResolvedValue({
-      jsonrpc: '2.0',
-      id: 1,
-      result: { hash: '0xuncle123', number: '0x100' }
+      const output = await execute(context);
+
+      const windows = requests
+        .filter(({ method }) => method === 'eth_getLogs')
+        .map(({ params }) => [parseInt(params[0].fromBlock, 16), parseInt(params[0].toBlock, 16)]);
+      expect(windows).toEqual([
+        [34560, 39559],
+        [39560, 44559],
+        [44560, 46560],
+      ]);
+      expect(output.map((item) => item.json)).toEqual([
+        expect.objectContaining({ validator, group, epoch: 2, amountFormatted: '2', groupAmountFormatted: '1', timestamp: 100 }),
+      ]);
     });
 
-    const result = await executeBlockOperations.call(mockExecuteFunctions, [{ json: {} }]);
-    expect(result).toHaveLength(1);
-    expect(result[0].json.result.hash).toBe('0xuncle123');
-  });
-});
-
-describe('Validator Resource', () => {
-  let mockExecuteFunctions: any;
-
-  beforeEach(() => {
-    mockExecuteFunctions = {
-      getNodeParameter: jest.fn(),
-      getCredentials: jest.fn().mockResolvedValue({ 
-        apiKey: 'test-key', 
-        baseUrl: 'https://forno.celo.org' 
-      }),
-      getInputData: jest.fn().mockReturnValue([{ json: {} }]),
-      getNode: jest.fn().mockReturnValue({ name: 'Test Node' }),
-      continueOnFail: jest.fn().mockReturnValue(false),
-      helpers: { 
-        httpRequest: jest.fn(),
-        requestWithAuthentication: jest.fn() 
-      },
-    };
-  });
-
-  describe('getValidators operation', () => {
-    it('should get list of active validators successfully', async () => {
-      const mockResponse = {
-        jsonrpc: '2.0',
-        id: 1,
-        result: '0x0000000000000000000000000000000000000000000000000000000000000020'
-      };
-
-      mockExecuteFunctions.getNodeParameter
-        .mockReturnValueOnce('getValidators')
-        .mockReturnValueOnce('0x123456')
-        .mockReturnValueOnce('latest')
-        .mockReturnValueOnce('0xcontractaddress');
-
-      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockResponse);
-
-      const items = [{ json: {} }];
-      const result = await executeValidatorOperations.call(mockExecuteFunctions, items);
-
-      expect(result).toHaveLength(1);
-      expect(result[0].json).toEqual(mockResponse);
-      expect(mockExecuteFunctions.helpers.httpRequest).toHaveBeenCalledWith({
-        method: 'POST',
-        url: 'https://forno.celo.org',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': 'Bearer test-key'
+    it('should sign and send a token transfer', async () => {
+      const { context, requests } = createContext(
+        {
+          resource: 'stableTokens',
+          operation: 'transfer',
+          tokenAddress: token,
+          to: recipient,
+          value: '1.5',
+          gasLimit: 60000,
+          gasPrice: '5000000000',
         },
-        json: true,
-        body: {
-          jsonrpc: '2.0',
-          method: 'eth_call',
-          params: [
-            {
-              to: '0xcontractaddress',
-              data: '0x123456',
-            },
-            'latest',
-          ],
-          id: 1,
+        ({ method }) => {
+          switch (method) {
+            case 'eth_call':
+              return encodeResult(['uint8'], ['18']);
+            case 'eth_getTransactionCount':
+              return '0x7';
+            case 'eth_sendRawTransaction':
+              return '0x' + 'ab'.repeat(32);
+            default:
+              throw new Error(`Unexpected method ${method}`);
+          }
         },
-      });
-    });
-
-    it('should handle errors when getting validators fails', async () => {
-      mockExecuteFunctions.getNodeParameter
-        .mockReturnValueOnce('getValidators')
-        .mockReturnValueOnce('0x123456')
-        .mockReturnValueOnce('latest')
-        .mockReturnValueOnce('0xcontractaddress');
-
-      mockExecuteFunctions.helpers.httpRequest.mockRejectedValue(new Error('Network error'));
-      mockExecuteFunctions.continueOnFail.mockReturnValue(true);
+      );
 
-      const items = [{ json: {} }];
-      const result = await executeValidatorOperations.call(mockExecuteFunctions, items);
+      const [{ json }] = await execute(context);
 
-      expect(result).toHaveLength(1);
-      expect(result[0].json.error).toBe('Network error');
+      expect(json).toMatchObject({
+        transactionHash: '0x' + 'ab'.repeat(32),
+        token,
+        from: signer,
+        to: recipient,
+        value: '1500000000000000000',
+        valueFormatted: '1.5',
+      });
+      expect(requests.map(({ method }) => method)).toEqual([
+        'eth_call',
+        'eth_getTransactionCount',
+        'eth_sendRawTransaction',
+      ]);
     });
-  });
 
-  describe('isValidator operation', () => {
-    it('should check if address is validator successfully', async () => {
-      const mockResponse = {
-        jsonrpc: '2.0',
-        id: 1,
-        result: '0x0000000000000000000000000000000000000000000000000000000000000001'
-      };
+    it('should send the transactions of one item after those of the item before are mined', async () => {
+      let mined = 0;
+      const { context, requests } = createContext(
+        {
+          resource: 'stableTokens',
+          operation: 'transfer',
+          tokenAddress: token,
+          to: recipient,
+          value: '1',
+          gasLimit: 60000,
+          gasPrice: '5000000000',
+        },
+        ({ method, params }) => {
+          switch (method) {
+            case 'eth_call':
+              return encodeResult(['uint8'], ['18']);
+            case 'eth_getTransactionCount':
+              return '0x' + mined.toString(16);
+            case 'eth_sendRawTransaction':
+              return '0x' + String(mined + 1).repeat(64);
+            case 'eth_getTransactionReceipt':
+              mined++;
+              return { transactionHash: params[0], status: '0x1' };
+            default:
+              throw new Error(`Unexpected method ${method}`);
+          }
+        },
+        { itemCount: 2 },
+      );
 
-      mockExecuteFunctions.getNodeParameter
-        .mockReturnValueOnce('isValidator')
-        .mockReturnValueOnce('0x123456ADDRESS_PLACEHOLDER789')
-        .mockReturnValueOnce('latest')
-        .mockReturnValueOnce('0xcontractaddress')
-        .mockReturnValueOnce('0xvalidatoraddress');
+      const output = await execute(context);
+
+      expect(output.map((item) => item.json.transactionHash)).toEqual(['0x' + '1'.repeat(64), '0x' + '2'.repeat(64)]);
+      expect(requests.map(({ method }) => method)).toEqual([
+        'eth_call',
+        'eth_getTransactionCount',
+        'eth_sendRawTransaction',
+        'eth_getTransactionReceipt',
+        'eth_call',
+        'eth_getTransactionCount',
+        'eth_sendRawTransaction',
+      ]);
+      expect(requests[5].params).toEqual([signer, 'pending']);
+    });
 
-      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockResponse);
+    it('should process the items of read-only operations concurrently', async () => {
+      const { context } = createContext(
+        { resource: 'accounts', operation: 'getCode', address: token, blockNumber: 'latest' },
+        () => '0x',
+        { itemCount: 3 },
+      );
+      const httpRequest = context.helpers.httpRequest as jest.Mock;
+      const respond = httpRequest.getMockImplementation()!;
+      let inFlight = 0;
+      let maxInFlight = 0;
+      httpRequest.mockImplementation(async (request) => {
+        maxInFlight = Math.max(maxInFlight, ++inFlight);
+        await new Promise((resolve) => setImmediate(resolve));
+        inFlight--;
+        return respond(request);
+      });
 
-      const items = [{ json: {} }];
-      const result = await executeValidatorOperations.call(mockExecuteFunctions, items);
+      const output = await execute(context);
 
-      expect(result).toHaveLength(1);
-      expect(result[0].json).toEqual(mockResponse);
+      expect(output.map((item) => item.pairedItem)).toEqual([{ item: 0 }, { item: 1 }, { item: 2 }]);
+      expect(maxInFlight).toBe(3);
     });
-  });
 
-  describe('getValidatorGroup operation', () => {
-    it('should get validator group information successfully', async () => {
-      const mockResponse = {
-        jsonrpc: '2.0',
-        id: 1,
-        result: '0x0000000000000000000000000000000000000000000000000000000000000020'
+    it('should sign a message and verify the signature', async () => {
+      const message = 'Hello Celo';
+      const noRpc = () => {
+        throw new Error('No RPC expected');
       };
 
-      mockExecuteFunctions.getNodeParameter
-        .mockReturnValueOnce('getValidatorGroup')
-        .mockReturnValueOnce('0x123456ADDRESS_PLACEHOLDER789')
-        .mockReturnValueOnce('latest')
-        .mockReturnValueOnce('0xcontractaddress')
-        .mockReturnValueOnce('0xvalidatoraddress');
-
-      mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(mockResponse);
-
-      const items = [{ json: {} }];
-      const result = await executeValidatorOperations.call(mockExecuteFunctions, items);
+      const [{ json: signed }] = await execute(
+        createContext({ resource: 'signing', operation: 'signMessage', message }, noRpc).context,
+      );
+      const [{ json: verified }] = await execute(
+        createContext(
+          {
+            resource: 'signing',
+            operation: 'verifySignature',
+            signatureType: 'message',
+            message,
+            signature: signed.signature,
+            expectedAddress: signer,
+          },
+          noRpc,
+        ).context,
+      );
 
-      expect(result).toHaveLength(1);
-      expect(result[0].json).toEqual(mockResponse);
+      expect(signed.address).toBe(signer);
+      expect(verified).toEqual({ valid: true, recoveredAddress: signer, expectedAddress: signer });
     });
-  });
-});
-
-describe('Governance Resource', () => {
-  let mockExecuteFunctions: any;
-
-  beforeEach(() => {
-    mockExecuteFunctions = {
-      getNodeParameter: jest.fn(),
-      getCredentials: jest.fn().mockResolvedValue({
-        apiKey: 'test-key',
-        baseUrl: 'https://forno.celo.org',
-      }),
-      getInputData: jest.fn().mockReturnValue([{ json: {} }]),
-      getNode: jest.fn().mockReturnValue({ name: 'Test Node' }),
-      continueOnFail: jest.fn().mockReturnValue(false),
-      helpers: {
-        httpRequest: jest.fn(),
-        requestWithAuthentication: jest.fn(),
-      },
-    };
-  });
-
-  it('should get proposals successfully', async () => {
-    const mockResponse = {
-      jsonrpc: '2.0',
-      result: '0x123456789abcdef',
-      id: 1,
-    };
-
-    mockExecuteFunctions.getNodeParameter
-      .mockReturnValueOnce('getProposals')
-      .mockReturnValueOnce('mainnet')
-      .mockReturnValueOnce({ to: '0x123', data: '0x456' })
-      .mockReturnValueOnce('latest');
-
-    mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(JSON.stringify(mockResponse));
-
-    const result = await executeGovernanceOperations.call(
-      mockExecuteFunctions,
-      [{ json: {} }],
-    );
-
-    expect(result).toHaveLength(1);
-    expect(result[0].json).toEqual(mockResponse);
-  });
-
-  it('should handle get proposals error', async () => {
-    mockExecuteFunctions.getNodeParameter
-      .mockReturnValueOnce('getProposals')
-      .mockReturnValueOnce('mainnet');
-
-    mockExecuteFunctions.helpers.httpRequest.mockRejectedValue(new Error('API Error'));
-    mockExecuteFunctions.continueOnFail.mockReturnValue(true);
 
-    const result = await executeGovernanceOperations.call(
-      mockExecuteFunctions,
-      [{ json: {} }],
-    );
-
-    expect(result).toHaveLength(1);
-    expect(result[0].json.error).toBe('API Error');
-  });
-
-  it('should get proposal details successfully', async () => {
-    const mockResponse = {
-      jsonrpc: '2.0',
-      result: '0x987654321fedcba',
-      id: 1,
-    };
-
-    mockExecuteFunctions.getNodeParameter
-      .mockReturnValueOnce('getProposal')
-      .mockReturnValueOnce('mainnet')
-      .mockReturnValueOnce({ to: '0x789', data: '0xabc' })
-      .mockReturnValueOnce('12345');
-
-    mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(JSON.stringify(mockResponse));
-
-    const result = await executeGovernanceOperations.call(
-      mockExecuteFunctions,
-      [{ json: {} }],
-    );
-
-    expect(result).toHaveLength(1);
-    expect(result[0].json).toEqual(mockResponse);
-  });
-
-  it('should vote on proposal successfully', async () => {
-    const mockResponse = {
-      jsonrpc: '2.0',
-      result: '0xtransactionhash123',
-      id: 1,
-    };
-
-    mockExecuteFunctions.getNodeParameter
-      .mockReturnValueOnce('vote')
-      .mockReturnValueOnce('mainnet')
-      .mockReturnValueOnce({
-        to: '0x123',
-        data: '0x456',
-        from: '0x789',
-        gas: '0x5208',
-        gasPrice: '0x3b9aca00',
+    it('should list the contracts registered in the Registry', async () => {
+      const { context } = createContext({ resource: 'registry', operation: 'listContracts' }, (request) => {
+        if (!isRegistryRead(request)) {
+          throw new Error('Unexpected call');
+        }
+        return registryResult();
       });
 
-    mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(JSON.stringify(mockResponse));
-
-    const result = await executeGovernanceOperations.call(
-      mockExecuteFunctions,
-      [{ json: {} }],
-    );
-
-    expect(result).toHaveLength(1);
-    expect(result[0].json).toEqual(mockResponse);
-  });
-
-  it('should handle vote error', async () => {
-    mockExecuteFunctions.getNodeParameter
-      .mockReturnValueOnce('vote')
-      .mockReturnValueOnce('mainnet');
-
-    mockExecuteFunctions.helpers.httpRequest.mockRejectedValue(new Error('Transaction failed'));
-    mockExecuteFunctions.continueOnFail.mockReturnValue(false);
-
-    await expect(
-      executeGovernanceOperations.call(mockExecuteFunctions, [{ json: {} }]),
-    ).rejects.toThrow('Transaction failed');
-  });
-});
+      const output = await execute(context);
 
-describe('StableCoin Resource', () => {
-  let mockExecuteFunctions: any;
-
-  beforeEach(() => {
-    mockExecuteFunctions = {
-      getNodeParameter: jest.fn(),
-      getCredentials: jest.fn().mockResolvedValue({ 
-        apiKey: 'test-key', 
-        baseUrl: 'https://forno.celo.org' 
-      }),
-      getInputData: jest.fn().mockReturnValue([{ json: {} }]),
-      getNode: jest.fn().mockReturnValue({ name: 'Test Node' }),
-      continueOnFail: jest.fn().mockReturnValue(false),
-      helpers: { 
-        httpRequest: jest.fn(),
-        requestWithAuthentication: jest.fn() 
-      },
-    };
-  });
-
-  it('should get stablecoin balance successfully', async () => {
-    mockExecuteFunctions.getNodeParameter
-      .mockReturnValueOnce('getStableCoinBalance')
-      .mockReturnValueOnce({ to: '0x123', data: '0xabc' })
-      .mockReturnValueOnce('latest');
-    
-    mockExecuteFunctions.helpers.httpRequest.mockResolvedValue({
-      jsonrpc: '2.0',
-      result: '0x1000000000000000000',
-      id: 1
+      expect(output.map((item) => item.json)).toContainEqual(
+        expect.objectContaining({ name: 'Election', address: CELO_CONTRACTS.mainnet.Election }),
+      );
     });
 
-    const result = await executeStableCoinOperations.call(
-      mockExecuteFunctions,
-      [{ json: {} }]
-    );
-
-    expect(result).toHaveLength(1);
-    expect(result[0].json.result).toBe('0x1000000000000000000');
-  });
+    it('should reject invalid SIWE dates by field', async () => {
+      const { context } = createContext(
+        {
+          resource: 'signing',
+          operation: 'buildSiweMessage',
+          siweNetwork: 'mainnet',
+          siweFields: { expirationTime: '2030-01-01T00:00:00Z', notBefore: 'tomorrow' },
+          siweDomain: 'example.com',
+          siweUri: 'https://example.com/login',
+        },
+        () => {
+          throw new Error('No RPC expected');
+        },
+      );
 
-  it('should get exchange rate successfully', async () => {
-    mockExecuteFunctions.getNodeParameter
-      .mockReturnValueOnce('getExchangeRate')
-      .mockReturnValueOnce({ to: '0x456', data: '0xdef' })
-      .mockReturnValueOnce('latest');
-    
-    mockExecuteFunctions.helpers.httpRequest.mockResolvedValue({
-      jsonrpc: '2.0',
-      result: '0x1000000',
-      id: 1
+      await expect(execute(context)).rejects.toThrow('Invalid Not Before date: tomorrow');
     });
 
-    const result = await executeStableCoinOperations.call(
-      mockExecuteFunctions,
-      [{ json: {} }]
-    );
-
-    expect(result).toHaveLength(1);
-    expect(result[0].json.result).toBe('0x1000000');
-  });
+    it('should reject a zero amount for an exchange rate before any request', async () => {
+      const { context, requests } = createContext(
+        { resource: 'exchange', operation: 'getExchangeRate', sellAmount: '0.0' },
+        () => {
+          throw new Error('No RPC expected');
+        },
+      );
 
-  it('should mint stablecoin successfully', async () => {
-    mockExecuteFunctions.getNodeParameter
-      .mockReturnValueOnce('mintStableCoin')
-      .mockReturnValueOnce({ 
-        from: '0x123', 
-        to: '0x456', 
-        data: '0xabc',
-        gas: '0x5208',
-        gasPrice: '0x3b9aca00'
-      });
-    
-    mockExecuteFunctions.helpers.httpRequest.mockResolvedValue({
-      jsonrpc: '2.0',
-      result: '0xtxhash123',
-      id: 1
+      await expect(execute(context)).rejects.toThrow('Cannot quote a rate for a zero amount');
+      expect(requests).toHaveLength(0);
     });
 
-    const result = await executeStableCoinOperations.call(
-      mockExecuteFunctions,
-      [{ json: {} }]
-    );
-
-    expect(result).toHaveLength(1);
-    expect(result[0].json.result).toBe('0xtxhash123');
-  });
-
-  it('should handle API errors', async () => {
-    mockExecuteFunctions.getNodeParameter
-      .mockReturnValueOnce('getStableCoinBalance')
-      .mockReturnValueOnce({ to: '0x123', data: '0xabc' })
-      .mockReturnValueOnce('latest');
-    
-    mockExecuteFunctions.helpers.httpRequest.mockRejectedValue(
-      new Error('Network error')
-    );
-
-    mockExecuteFunctions.continueOnFail.mockReturnValue(true);
-
-    const result = await executeStableCoinOperations.call(
-      mockExecuteFunctions,
-      [{ json: {} }]
-    );
-
-    expect(result).toHaveLength(1);
-    expect(result[0].json.error).toBe('Network error');
-  });
-
-  it('should throw error for unknown operation', async () => {
-    mockExecuteFunctions.getNodeParameter.mockReturnValueOnce('unknownOperation');
-
-    await expect(
-      executeStableCoinOperations.call(mockExecuteFunctions, [{ json: {} }])
-    ).rejects.toThrow('Unknown operation: unknownOperation');
-  });
-});
-
-describe('Identity Resource', () => {
-  let mockExecuteFunctions: any;
-
-  beforeEach(() => {
-    mockExecuteFunctions = {
-      getNodeParameter: jest.fn(),
-      getCredentials: jest.fn().mockResolvedValue({
-        apiKey: 'test-key',
-        baseUrl: 'https://forno.celo.org',
-      }),
-      getInputData: jest.fn().mockReturnValue([{ json: {} }]),
-      getNode: jest.fn().mockReturnValue({ name: 'Test Node' }),
-      continueOnFail: jest.fn().mockReturnValue(false),
-      helpers: {
-        httpRequest: jest.fn(),
-        requestWithAuthentication: jest.fn(),
-      },
-    };
-  });
-
-  it('should get attestations successfully', async () => {
-    mockExecuteFunctions.getNodeParameter
-      .mockReturnValueOnce('getAttestations')
-      .mockReturnValueOnce('mainnet')
-      .mockReturnValueOnce({ to: '0x123', data: '0xabc' })
-      .mockReturnValueOnce('latest');
-
-    mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(
-      JSON.stringify({ jsonrpc: '2.0', result: '0x123', id: 1 })
-    );
-
-    const result = await executeIdentityOperations.call(mockExecuteFunctions, [{ json: {} }]);
-
-    expect(result).toHaveLength(1);
-    expect(result[0].json.result).toBe('0x123');
-  });
-
-  it('should handle get attestations error', async () => {
-    mockExecuteFunctions.getNodeParameter
-      .mockReturnValueOnce('getAttestations')
-      .mockReturnValueOnce('mainnet')
-      .mockReturnValueOnce({ to: '0x123', data: '0xabc' })
-      .mockReturnValueOnce('latest');
-
-    mockExecuteFunctions.helpers.httpRequest.mockRejectedValue(new Error('Network error'));
-    mockExecuteFunctions.continueOnFail.mockReturnValue(true);
-
-    const result = await executeIdentityOperations.call(mockExecuteFunctions, [{ json: {} }]);
-
-    expect(result).toHaveLength(1);
-    expect(result[0].json.error).toBe('Network error');
-  });
-
-  it('should request attestation successfully', async () => {
-    mockExecuteFunctions.getNodeParameter
-      .mockReturnValueOnce('requestAttestation')
-      .mockReturnValueOnce('mainnet')
-      .mockReturnValueOnce({ from: '0x123', to: '0x456', data: '0xabc' })
-      .mockReturnValueOnce('21000')
-      .mockReturnValueOnce('1000000000');
-
-    mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(
-      JSON.stringify({ jsonrpc: '2.0', result: '0x789', id: 1 })
-    );
-
-    const result = await executeIdentityOperations.call(mockExecuteFunctions, [{ json: {} }]);
-
-    expect(result).toHaveLength(1);
-    expect(result[0].json.result).toBe('0x789');
-  });
-
-  it('should complete attestation successfully', async () => {
-    mockExecuteFunctions.getNodeParameter
-      .mockReturnValueOnce('completeAttestation')
-      .mockReturnValueOnce('mainnet')
-      .mockReturnValueOnce({ from: '0x123', to: '0x456', data: '0xdef' })
-      .mockReturnValueOnce('')
-      .mockReturnValueOnce('');
-
-    mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(
-      JSON.stringify({ jsonrpc: '2.0', result: '0x999', id: 1 })
-    );
-
-    const result = await executeIdentityOperations.call(mockExecuteFunctions, [{ json: {} }]);
-
-    expect(result).toHaveLength(1);
-    expect(result[0].json.result).toBe('0x999');
-  });
+    it('should output the error of a failed item when continuing on fail', async () => {
+      const { context } = createContext(
+        { resource: 'block', operation: 'getBlockByHash', blockHash: '0x' + '00'.repeat(32) },
+        () => null,
+        { continueOnFail: true },
+      );
 
-  it('should get attestation issuers successfully', async () => {
-    mockExecuteFunctions.getNodeParameter
-      .mockReturnValueOnce('getAttestationIssuers')
-      .mockReturnValueOnce('alfajores')
-      .mockReturnValueOnce({ to: '0x789', data: '0xdef' })
-      .mockReturnValueOnce('latest');
+      const [{ json }] = await execute(context);
 
-    mockExecuteFunctions.helpers.httpRequest.mockResolvedValue(
-      JSON.stringify({ jsonrpc: '2.0', result: ['0x111', '0x222'], id: 1 })
-    );
+      expect(json.error).toBe(`Block not found: 0x${'00'.repeat(32)}`);
+    });
 
-    const result = await executeIdentityOperations.call(mockExecuteFunctions, [{ json: {} }]);
+    it('should fail the node on an item error otherwise', async () => {
+      const { context } = createContext(
+        { resource: 'block', operation: 'getBlockByHash', blockHash: '0x' + '00'.repeat(32) },
+        () => null,
+      );
 
-    expect(result).toHaveLength(1);
-    expect(result[0].json.result).toEqual(['0x111', '0x222']);
+      await expect(execute(context)).rejects.toThrow('Block not found');
+    });
   });
 });
-});
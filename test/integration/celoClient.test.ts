@@ -5,7 +5,40 @@
  * See LICENSE file for details.
  */
 
-import { getRpcUrl, getExplorerApiUrl, getContractAddress } from '../../nodes/Celo/transport/celoClient';
+import type { ICredentialsDecrypted, ICredentialTestFunctions, IExecuteFunctions } from 'n8n-workflow';
+import { NodeApiError } from 'n8n-workflow';
+import {
+  formatUnits,
+  getRpcUrl,
+  getRpcUrls,
+  getExplorerApiUrl,
+  getContractAddress,
+  getRpcHeaders,
+  makeExplorerCall,
+  makeRpcBatch,
+  makeRpcCall,
+  isValidErc1271Signature,
+  parseUnits,
+  readContract,
+  readContracts,
+  readRegistry,
+  resolveContractAddress,
+  setRequestLimits,
+  signAndSendTransaction,
+  takeRpcCallLog,
+  testCeloCredentials,
+  waitForTransactionReceipt,
+  waitForTransactionsMined,
+} from '../../nodes/Celo/transport/celoClient';
+import {
+  ABI_FRAGMENTS,
+  CELO_CONTRACTS,
+  MULTICALL3_ADDRESS,
+  REGISTRY_ADDRESS,
+  REGISTRY_CONTRACT_NAMES,
+  ZERO_ADDRESS,
+} from '../../nodes/Celo/constants/celo.constants';
+import { encodeAbiParameters } from '../../nodes/Celo/utils/abi';
 import type { CeloCredentials } from '../../nodes/Celo/utils/types';
 
 describe('Celo Client', () => {
@@ -49,6 +82,47 @@ describe('Celo Client', () => {
       };
       expect(() => getRpcUrl(credentials)).toThrow('Custom network requires an RPC endpoint');
     });
+
+    it('should prefer a configured RPC URL for named networks', () => {
+      const credentials: CeloCredentials = {
+        network: 'alfajores',
+        rpcEndpoint: 'https://celo-alfajores.provider.example',
+      };
+      expect(getRpcUrl(credentials)).toBe('https://celo-alfajores.provider.example');
+    });
+  });
+
+  describe('getRpcUrls', () => {
+    it('should split a list of RPC URLs in order', () => {
+      const credentials: CeloCredentials = {
+        network: 'mainnet',
+        rpcEndpoint: 'https://one.example/v1/key,\n https://two.example\nhttps://three.example',
+      };
+      expect(getRpcUrls(credentials)).toEqual([
+        'https://one.example/v1/key',
+        'https://two.example',
+        'https://three.example',
+      ]);
+      expect(getRpcUrl(credentials)).toBe('https://one.example/v1/key');
+    });
+
+    it('should fall back to Forno when no RPC URL is configured', () => {
+      expect(getRpcUrls({ network: 'mainnet', rpcEndpoint: ' ' })).toEqual(['https://forno.celo.org']);
+    });
+  });
+
+  describe('getRpcHeaders', () => {
+    it('should add the auth header when configured', () => {
+      expect(
+        getRpcHeaders({ network: 'mainnet', authHeaderName: 'x-api-key', authHeaderValue: 'secret' })
+      ).toEqual({ 'Content-Type': 'application/json', 'x-api-key': 'secret' });
+    });
+
+    it('should omit the auth header when no value is set', () => {
+      expect(getRpcHeaders({ network: 'mainnet', authHeaderName: 'x-api-key' })).toEqual({
+        'Content-Type': 'application/json',
+      });
+    });
   });
 
   describe('getExplorerApiUrl', () => {
@@ -102,14 +176,35 @@ describe('Celo Client', () => {
       expect(alfajoresAddress).toMatch(/^0x[a-fA-F0-9]{40}$/);
     });
 
-    it('should use mainnet addresses for custom network', () => {
-      const mainnetAddress = getContractAddress('mainnet', 'StableToken');
-      const customAddress = getContractAddress('custom', 'StableToken');
-      expect(customAddress).toBe(mainnetAddress);
+    it('should have no offline addresses for Baklava and custom networks', () => {
+      expect(() => getContractAddress('custom', 'StableToken')).toThrow(
+        'No offline address of StableToken for the custom network'
+      );
+      expect(() => getContractAddress('baklava', 'Election')).toThrow('No offline address of Election');
     });
   });
 });
 
+describe('Unit Conversion', () => {
+  it('should scale amounts by the token decimals', () => {
+    expect(parseUnits('1.5', 6)).toBe('1500000');
+    expect(parseUnits('.25')).toBe('250000000000000000');
+    expect(formatUnits('1500000', 6)).toBe('1.5');
+  });
+
+  it('should format values with more than 22 decimals exactly', () => {
+    expect(formatUnits('100000000000000000000000', 24)).toBe('0.1');
+    expect(formatUnits('1000000000000000000000000', 24)).toBe('1');
+  });
+
+  it('should reject malformed amounts and excess precision', () => {
+    expect(() => parseUnits('1.0000001', 6)).toThrow('Amount 1.0000001 has more than 6 decimal places');
+    expect(parseUnits('1.5000000', 6)).toBe('1500000');
+    expect(() => parseUnits('1e18')).toThrow('Invalid amount: 1e18');
+    expect(() => parseUnits('')).toThrow('Invalid amount: ');
+  });
+});
+
 describe('Mock RPC Calls', () => {
   // These tests verify the structure of expected responses
   // Real integration tests would require a running Celo node
@@ -178,3 +273,639 @@ describe('Mock RPC Calls', () => {
     });
   });
 });
+
+describe('Transaction Signing', () => {
+  describe('signAndSendTransaction', () => {
+    const privateKey = '0x4646464646464646464646464646464646464646464646464646464646464646';
+
+    const createContext = (results: Record<string, unknown>) => {
+      const requests: Array<{ method: string; params: unknown[] }> = [];
+      const context = {
+        getCredentials: jest.fn().mockResolvedValue({ network: 'alfajores', privateKey }),
+        getNodeParameter: jest.fn().mockReturnValue(0),
+        helpers: {
+          httpRequest: jest.fn().mockImplementation(async ({ body }) => {
+            requests.push(body);
+            return { jsonrpc: '2.0', id: body.id, result: results[body.method] };
+          }),
+        },
+      } as unknown as IExecuteFunctions;
+      return { context, requests };
+    };
+
+    it('should fill nonce, gas and fees and broadcast a CIP-64 transaction', async () => {
+      const { context, requests } = createContext({
+        eth_getTransactionCount: '0x3',
+        eth_estimateGas: '0xfde8',
+        eth_maxPriorityFeePerGas: '0x77359400',
+        eth_gasPrice: '0x2540be400',
+        eth_sendRawTransaction: '0xhash',
+      });
+
+      const hash = await signAndSendTransaction(context, {
+        to: '0x765DE816845861e75A25fCA122bb6898B8B1282a',
+        data: '0x',
+        feeCurrency: '0x874069Fa1Eb16D44d622F2e0Ca25eeA172369bC1',
+      });
+
+      expect(hash).toBe('0xhash');
+      expect(requests.map((request) => request.method)).toEqual([
+        'eth_getTransactionCount',
+        'eth_estimateGas',
+        'eth_maxPriorityFeePerGas',
+        'eth_gasPrice',
+        'eth_sendRawTransaction',
+      ]);
+      expect(requests[0].params).toEqual(['0x9d8A62f656a8d1615C1294fd71e9CFb3E4855A4F', 'pending']);
+      expect(requests[3].params).toEqual(['0x874069Fa1Eb16D44d622F2e0Ca25eeA172369bC1']);
+      expect(String(requests[4].params[0]).startsWith('0x7b')).toBe(true);
+    });
+
+    it('should send a legacy transaction when a gas price is given', async () => {
+      const { context, requests } = createContext({ eth_sendRawTransaction: '0xhash' });
+
+      await signAndSendTransaction(context, {
+        to: '0x3535353535353535353535353535353535353535',
+        value: '1000000000000000000',
+        gas: '21000',
+        gasPrice: '20000000000',
+        nonce: '9',
+      });
+
+      expect(requests).toHaveLength(1);
+      expect(String(requests[0].params[0]).startsWith('0xf8')).toBe(true);
+    });
+
+    it('should sign as the derived address for the node account index', async () => {
+      const { context, requests } = createContext({ eth_getTransactionCount: '0x0', eth_sendRawTransaction: '0xhash' });
+      (context.getCredentials as jest.Mock).mockResolvedValue({
+        network: 'alfajores',
+        signingKeyType: 'mnemonic',
+        mnemonic: 'test test test test test test test test test test test junk',
+        derivationPath: 'ethereum',
+      });
+      (context.getNodeParameter as jest.Mock).mockReturnValue(1);
+
+      await signAndSendTransaction(context, {
+        to: '0x3535353535353535353535353535353535353535',
+        gas: '21000',
+        gasPrice: '5000000000',
+      });
+
+      expect(requests[0].params).toEqual(['0x70997970C51812dc3A010C7d01b50e0d17dc79C8', 'pending']);
+    });
+
+    it('should require a private key', async () => {
+      const { context } = createContext({});
+      (context.getCredentials as jest.Mock).mockResolvedValue({ network: 'mainnet' });
+
+      await expect(signAndSendTransaction(context, { to: '0x3535353535353535353535353535353535353535' })).rejects.toThrow(
+        'Private key is required for signing transactions'
+      );
+    });
+  });
+});
+
+describe('waitForTransactionReceipt', () => {
+  const createContext = (receipts: unknown[]) => {
+    const httpRequest = jest.fn().mockImplementation(async ({ body }) => ({
+      jsonrpc: '2.0',
+      id: body.id,
+      result: receipts.shift() ?? null,
+    }));
+    const context = {
+      getCredentials: jest.fn().mockResolvedValue({ network: 'mainnet' }),
+      helpers: { httpRequest },
+    } as unknown as IExecuteFunctions;
+    return { context, httpRequest };
+  };
+
+  it('should poll until the receipt is available', async () => {
+    const { context, httpRequest } = createContext([null, null, { transactionHash: '0xhash', status: '0x1' }]);
+
+    await expect(waitForTransactionReceipt(context, '0xhash', 0, 1000, 1)).resolves.toMatchObject({ status: '0x1' });
+    expect(httpRequest).toHaveBeenCalledTimes(3);
+  });
+
+  it('should reject reverted and unmined transactions', async () => {
+    const reverted = createContext([{ transactionHash: '0xhash', status: '0x0' }]);
+    await expect(waitForTransactionReceipt(reverted.context, '0xhash', 0, 1000, 1)).rejects.toThrow(
+      'Transaction 0xhash reverted'
+    );
+
+    const pending = createContext([]);
+    await expect(waitForTransactionReceipt(pending.context, '0xhash', 0, 0, 1)).rejects.toThrow(
+      'Timed out waiting for transaction 0xhash'
+    );
+  });
+
+  it('should count reverted transactions as mined when waiting for transactions', async () => {
+    const { context, httpRequest } = createContext([
+      { transactionHash: '0xfirst', status: '0x0' },
+      { transactionHash: '0xsecond', status: '0x1' },
+    ]);
+
+    await expect(waitForTransactionsMined(context, ['0xfirst', '0xsecond'])).resolves.toBeUndefined();
+    expect(httpRequest.mock.calls.map(([request]) => request.body.params[0])).toEqual(['0xfirst', '0xsecond']);
+  });
+});
+
+describe('readContract', () => {
+  it('should call at the block tag and decode named outputs', async () => {
+    const member = '0x9d8A62f656a8d1615C1294fd71e9CFb3E4855A4F';
+    const fixidityOne = '1000000000000000000000000';
+    const encoded = encodeAbiParameters(
+      ABI_FRAGMENTS.validators.getValidatorGroup.outputs,
+      [[member], '100000000000000000000000', '100000000000000000000000', '0', ['1'], fixidityOne, '0']
+    );
+    const httpRequest = jest.fn().mockResolvedValue({ jsonrpc: '2.0', id: 1, result: '0x' + encoded });
+    const context = {
+      getCredentials: jest.fn().mockResolvedValue({ network: 'mainnet' }),
+      helpers: { httpRequest },
+    } as unknown as IExecuteFunctions;
+
+    const group = await readContract(
+      context,
+      '0xaEb865bCa93DdC8F47b8e29F40C5399cE34d0C58',
+      ABI_FRAGMENTS.validators.getValidatorGroup,
+      [member],
+      0,
+      '0x10'
+    );
+
+    expect(group).toMatchObject({
+      members: [member],
+      commission: '100000000000000000000000',
+      sizeHistory: ['1'],
+      slashingMultiplier: fixidityOne,
+    });
+    expect(httpRequest.mock.calls[0][0].body.params[1]).toBe('0x10');
+  });
+});
+
+describe('readContracts', () => {
+  const token = '0x765DE816845861e75A25fCA122bb6898B8B1282a';
+  const owner = '0x9d8A62f656a8d1615C1294fd71e9CFb3E4855A4F';
+  const reads = [
+    { target: token, fragment: ABI_FRAGMENTS.erc20.balanceOf, args: [owner] },
+    { target: token, fragment: ABI_FRAGMENTS.erc20.decimals },
+    { target: owner, fragment: ABI_FRAGMENTS.erc20.symbol },
+  ];
+
+  function mockContext(network: string, httpRequest: jest.Mock): IExecuteFunctions {
+    return {
+      getCredentials: jest.fn().mockResolvedValue({ network, rpcEndpoint: 'http://localhost:8545' }),
+      getNode: jest.fn().mockReturnValue({ name: 'Celo' }),
+      helpers: { httpRequest },
+    } as unknown as IExecuteFunctions;
+  }
+
+  it('should bundle reads into one aggregate3 call with per-call success', async () => {
+    const returnData = encodeAbiParameters(ABI_FRAGMENTS.multicall3.aggregate3.outputs, [
+      [
+        [true, '0x' + encodeAbiParameters(['uint256'], ['1500000000000000000'])],
+        [false, '0x'],
+        [true, '0x'],
+      ],
+    ]);
+    const httpRequest = jest.fn().mockResolvedValue({ jsonrpc: '2.0', id: 1, result: '0x' + returnData });
+
+    const results = await readContracts(mockContext('mainnet', httpRequest), reads, 0, '0x10');
+
+    expect(results).toEqual([
+      { success: true, result: { 0: '1500000000000000000' } },
+      { success: false, error: 'decimals reverted' },
+      { success: false, error: expect.stringContaining('symbol returned invalid data') },
+    ]);
+    expect(httpRequest).toHaveBeenCalledTimes(1);
+    const [call, blockTag] = httpRequest.mock.calls[0][0].body.params;
+    expect(call.to).toBe(MULTICALL3_ADDRESS);
+    expect(call.data.slice(0, 10)).toBe('0x82ad56cb');
+    expect(blockTag).toBe('0x10');
+  });
+
+  it('should read one by one on custom networks', async () => {
+    const httpRequest = jest.fn()
+      .mockResolvedValueOnce({ jsonrpc: '2.0', id: 1, result: '0x' + encodeAbiParameters(['uint256'], ['7']) })
+      .mockResolvedValueOnce({ jsonrpc: '2.0', id: 2, error: { code: 3, message: 'execution reverted' } })
+      .mockResolvedValueOnce({ jsonrpc: '2.0', id: 3, result: '0x' + encodeAbiParameters(['string'], ['cUSD']) });
+
+    const results = await readContracts(mockContext('custom', httpRequest), reads);
+
+    expect(results).toEqual([
+      { success: true, result: { 0: '7' } },
+      { success: false, error: 'RPC Error: execution reverted (code: 3)' },
+      { success: true, result: { 0: 'cUSD' } },
+    ]);
+    expect(httpRequest).toHaveBeenCalledTimes(3);
+    expect(httpRequest.mock.calls[0][0].body.params[0].to).toBe(token);
+  });
+});
+
+describe('Registry', () => {
+  const election = '0x1c3eDf937CFc2F6F51784D20DEB1af1F9a8655fA';
+  const accounts = '0xed7f51A34B4e71fbE69B3091FcF879cD14bD73A9';
+
+  // aggregate3 result registering Election and Accounts only
+  const registryResponse = (id: number) => ({
+    jsonrpc: '2.0',
+    id,
+    result:
+      '0x' +
+      encodeAbiParameters(ABI_FRAGMENTS.multicall3.aggregate3.outputs, [
+        REGISTRY_CONTRACT_NAMES.map((name) => {
+          const address = name === 'Election' ? election : name === 'Accounts' ? accounts : ZERO_ADDRESS;
+          return [true, '0x' + encodeAbiParameters(['address'], [address])];
+        }),
+      ]),
+  });
+
+  const createContext = (credentials: Record<string, unknown>, httpRequest: jest.Mock) =>
+    ({
+      getCredentials: jest.fn().mockResolvedValue(credentials),
+      getNode: jest.fn().mockReturnValue({ name: 'Celo' }),
+      helpers: { httpRequest },
+    }) as unknown as IExecuteFunctions;
+
+  it('should list registered contracts in one multicall to the Registry', async () => {
+    const httpRequest = jest.fn().mockImplementation(async ({ body }) => registryResponse(body.id));
+    const context = createContext({ network: 'alfajores' }, httpRequest);
+
+    const registered = await readRegistry(context);
+
+    expect([...registered]).toEqual([
+      ['Accounts', accounts],
+      ['Election', election],
+    ]);
+    expect(httpRequest).toHaveBeenCalledTimes(1);
+    expect(httpRequest.mock.calls[0][0].body.params[0].to).toBe(MULTICALL3_ADDRESS);
+  });
+
+  it('should resolve through the cached Registry and fall back for unregistered contracts', async () => {
+    const httpRequest = jest.fn();
+    const context = createContext({ network: 'alfajores' }, httpRequest);
+
+    // Read by the previous test, cached for Alfajores' chain ID
+    await expect(resolveContractAddress(context, 'Election')).resolves.toBe(election);
+    await expect(resolveContractAddress(context, 'Broker')).resolves.toBe(CELO_CONTRACTS.alfajores.Broker);
+    await expect(resolveContractAddress(context, 'Registry')).resolves.toBe(REGISTRY_ADDRESS);
+    expect(httpRequest).not.toHaveBeenCalled();
+  });
+
+  it('should share one Registry read between concurrent lookups', async () => {
+    const httpRequest = jest.fn().mockImplementation(async ({ body }) => registryResponse(body.id));
+    const context = createContext({ network: 'baklava' }, httpRequest);
+
+    const addresses = await Promise.all([
+      resolveContractAddress(context, 'Election'),
+      resolveContractAddress(context, 'Accounts'),
+    ]);
+
+    expect(addresses).toEqual([election, accounts]);
+    expect(httpRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fall back to offline addresses when the Registry cannot be read', async () => {
+    const httpRequest = jest.fn().mockRejectedValue(new Error('getaddrinfo ENOTFOUND forno.celo.org'));
+    const context = createContext({ network: 'mainnet', maxBlockLag: 0 }, httpRequest);
+
+    await expect(resolveContractAddress(context, 'Governance')).resolves.toBe(CELO_CONTRACTS.mainnet.Governance);
+  });
+
+  it('should resolve custom networks by chain ID without falling back', async () => {
+    // Custom networks may lack Multicall3, so each identifier is looked up on its own
+    const isLookupOf = (data: string, name: string) =>
+      data.endsWith(Buffer.from(name).toString('hex').padEnd(64, '0'));
+    const httpRequest = jest.fn().mockImplementation(async ({ body }) => {
+      if (body.method === 'eth_chainId') {
+        return { jsonrpc: '2.0', id: body.id, result: '0x10f2c' };
+      }
+      const address = isLookupOf(body.params[0].data, 'Accounts') ? accounts : ZERO_ADDRESS;
+      return { jsonrpc: '2.0', id: body.id, result: '0x' + encodeAbiParameters(['address'], [address]) };
+    });
+    const context = createContext({ network: 'custom', rpcEndpoint: 'http://localhost:8545' }, httpRequest);
+
+    await expect(resolveContractAddress(context, 'Accounts')).resolves.toBe(accounts);
+    await expect(resolveContractAddress(context, 'Governance')).rejects.toThrow(
+      'Governance is not registered in the Registry of the custom network'
+    );
+    expect(httpRequest.mock.calls.filter(([request]) => request.body.method === 'eth_chainId')).toHaveLength(1);
+  });
+});
+
+describe('makeRpcCall', () => {
+  const createContext = (httpRequest: jest.Mock) =>
+    ({
+      getCredentials: jest.fn().mockResolvedValue({ network: 'mainnet' }),
+      getNode: jest.fn().mockReturnValue({ name: 'Celo' }),
+      helpers: { httpRequest },
+    }) as unknown as IExecuteFunctions;
+
+  it('should unwrap the result', async () => {
+    const context = createContext(jest.fn().mockResolvedValue({ jsonrpc: '2.0', id: 1, result: '0x10' }));
+    await expect(makeRpcCall(context, 'eth_blockNumber')).resolves.toBe('0x10');
+  });
+
+  it('should throw JSON-RPC errors as NodeApiErrors with the item index', async () => {
+    const context = createContext(
+      jest.fn().mockResolvedValue({ jsonrpc: '2.0', id: 1, error: { code: 3, message: 'execution reverted', data: '0x' } })
+    );
+
+    const error = (await makeRpcCall(context, 'eth_call', [], 4).catch((e) => e)) as NodeApiError;
+    expect(error).toBeInstanceOf(NodeApiError);
+    expect(error.message).toBe('RPC Error: execution reverted (code: 3)');
+    expect(error.description).toBe('eth_call failed with data: "0x"');
+    expect(error.context.itemIndex).toBe(4);
+  });
+
+  it('should wrap transport failures', async () => {
+    const context = createContext(jest.fn().mockRejectedValue(new Error('socket hang up')));
+
+    const error = (await makeRpcCall(context, 'eth_blockNumber', [], 2).catch((e) => e)) as NodeApiError;
+    expect(error).toBeInstanceOf(NodeApiError);
+    expect(error.context.itemIndex).toBe(2);
+  });
+});
+
+describe('RPC failover', () => {
+  const createContext = (rpcEndpoint: string, httpRequest: jest.Mock, maxBlockLag?: number) =>
+    ({
+      getCredentials: jest.fn().mockResolvedValue({ network: 'mainnet', rpcEndpoint, maxBlockLag }),
+      getNode: jest.fn().mockReturnValue({ name: 'Celo' }),
+      helpers: { httpRequest },
+    }) as unknown as IExecuteFunctions;
+
+  const httpError = (status: number) => Object.assign(new Error(`Request failed with status code ${status}`), {
+    response: { status },
+  });
+
+  it('should fail over on server errors and record the serving endpoint', async () => {
+    const httpRequest = jest.fn()
+      .mockRejectedValueOnce(httpError(503))
+      .mockResolvedValueOnce({ jsonrpc: '2.0', id: 1, result: '0x10' });
+    const context = createContext('https://primary.example/v1/secret,https://backup.example/rpc', httpRequest, 0);
+
+    await expect(makeRpcCall(context, 'eth_blockNumber', [], 3)).resolves.toBe('0x10');
+    expect(httpRequest.mock.calls.map(([request]) => request.url)).toEqual([
+      'https://primary.example/v1/secret',
+      'https://backup.example/rpc',
+    ]);
+    expect(takeRpcCallLog(context)).toEqual([
+      { method: 'eth_blockNumber', endpoint: 'https://backup.example', endpointIndex: 1, itemIndex: 3 },
+    ]);
+    expect(takeRpcCallLog(context)).toEqual([]);
+  });
+
+  it('should retry rate-limited rounds and not retry client errors', async () => {
+    const rateLimited = jest.fn()
+      .mockRejectedValueOnce(httpError(429))
+      .mockResolvedValueOnce({ jsonrpc: '2.0', id: 1, result: '0x1' });
+    await expect(makeRpcCall(createContext('https://only.example', rateLimited), 'eth_chainId')).resolves.toBe('0x1');
+    expect(rateLimited).toHaveBeenCalledTimes(2);
+
+    const unauthorized = jest.fn().mockRejectedValue(httpError(401));
+    const context = createContext('https://first.example,https://second.example', unauthorized, 0);
+    const error = (await makeRpcCall(context, 'eth_chainId').catch((e) => e)) as NodeApiError;
+    expect(error).toBeInstanceOf(NodeApiError);
+    expect(unauthorized).toHaveBeenCalledTimes(1);
+  });
+
+  it('should skip endpoints whose block height lags the others', async () => {
+    const heights: Record<string, string> = { 'https://stale.example': '0x64', 'https://fresh.example': '0xc8' };
+    const httpRequest = jest.fn().mockImplementation(async ({ url, body }) =>
+      body.method === 'eth_blockNumber'
+        ? { jsonrpc: '2.0', id: body.id, result: heights[url] }
+        : { jsonrpc: '2.0', id: body.id, result: '0xaef3' }
+    );
+    const context = createContext('https://stale.example,https://fresh.example', httpRequest);
+
+    await expect(makeRpcCall(context, 'eth_chainId')).resolves.toBe('0xaef3');
+    const served = httpRequest.mock.calls.filter(([request]) => request.body.method === 'eth_chainId');
+    expect(served.map(([request]) => request.url)).toEqual(['https://fresh.example']);
+  });
+});
+
+describe('Request limits', () => {
+  const createContext = (httpRequest: jest.Mock) =>
+    ({
+      getCredentials: jest.fn().mockResolvedValue({ network: 'mainnet', celoscanApiKey: 'key' }),
+      getNode: jest.fn().mockReturnValue({ name: 'Celo' }),
+      helpers: { httpRequest },
+    }) as unknown as IExecuteFunctions;
+
+  it('should cap concurrent RPC requests per context', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const httpRequest = jest.fn().mockImplementation(async ({ body }) => {
+      peak = Math.max(peak, ++inFlight);
+      await new Promise((resolve) => setImmediate(resolve));
+      inFlight--;
+      return { jsonrpc: '2.0', id: body.id, result: '0x1' };
+    });
+    const context = createContext(httpRequest);
+    setRequestLimits(context, { maxConcurrent: 2 });
+
+    await Promise.all([0, 1, 2, 3, 4].map(() => makeRpcCall(context, 'eth_blockNumber')));
+
+    expect(httpRequest).toHaveBeenCalledTimes(5);
+    expect(peak).toBe(2);
+  });
+
+  it('should retry explorer requests after their Retry-After time', async () => {
+    const rateLimited = Object.assign(new Error('Request failed with status code 429'), {
+      response: { status: 429, headers: { 'retry-after': '0' } },
+    });
+    const httpRequest = jest.fn()
+      .mockRejectedValueOnce(rateLimited)
+      .mockResolvedValueOnce({ status: '1', message: 'OK', result: [] });
+
+    await expect(makeExplorerCall(createContext(httpRequest), { module: 'account' })).resolves.toEqual([]);
+    expect(httpRequest).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry explorer errors without Retry-After', async () => {
+    const httpRequest = jest.fn().mockRejectedValue(
+      Object.assign(new Error('Request failed with status code 429'), { response: { status: 429, headers: {} } })
+    );
+
+    const error = (await makeExplorerCall(createContext(httpRequest), {}, 1).catch((e) => e)) as NodeApiError;
+    expect(error).toBeInstanceOf(NodeApiError);
+    expect(error.context.itemIndex).toBe(1);
+    expect(httpRequest).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('makeRpcBatch', () => {
+  const createContext = (respond: (requests: Array<{ id: number; method: string }>) => unknown) => {
+    const httpRequest = jest.fn().mockImplementation(async ({ body }) => respond(body));
+    const context = {
+      getCredentials: jest.fn().mockResolvedValue({ network: 'mainnet' }),
+      getNode: jest.fn().mockReturnValue({ name: 'Celo' }),
+      helpers: { httpRequest },
+    } as unknown as IExecuteFunctions;
+    return { context, httpRequest };
+  };
+  const calls = (count: number) =>
+    Array.from({ length: count }, (_, itemIndex) => ({ method: 'eth_getBalance', params: [itemIndex], itemIndex }));
+
+  it('should split calls into batches and match responses by ID', async () => {
+    const { context, httpRequest } = createContext((requests) =>
+      [...requests].reverse().map(({ id }) => ({ jsonrpc: '2.0', id, result: `0x${id.toString(16)}` }))
+    );
+
+    const results = await makeRpcBatch(context, calls(5), 2);
+
+    expect(httpRequest).toHaveBeenCalledTimes(3);
+    expect(httpRequest.mock.calls.map(([{ body }]) => body.length)).toEqual([2, 2, 1]);
+    const ids = httpRequest.mock.calls.flatMap(([{ body }]) => body.map(({ id }: { id: number }) => id));
+    expect(new Set(ids).size).toBe(5);
+    expect(results).toEqual(ids.map((id: number) => ({ result: `0x${id.toString(16)}` })));
+  });
+
+  it('should settle each call on its own', async () => {
+    const { context } = createContext(([first, second]) => [
+      { jsonrpc: '2.0', id: second.id, error: { code: -32000, message: 'header not found' } },
+      { jsonrpc: '2.0', id: first.id, result: '0x1' },
+    ]);
+
+    const results = await makeRpcBatch(context, calls(3));
+
+    expect(results[0]).toEqual({ result: '0x1' });
+    expect((results[1] as { error: NodeApiError }).error.message).toBe('RPC Error: header not found (code: -32000)');
+    expect((results[1] as { error: NodeApiError }).error.context.itemIndex).toBe(1);
+    expect((results[2] as { error: NodeApiError }).error.message).toBe('No response to eth_getBalance in the RPC batch');
+  });
+
+  it('should fail every call when the endpoint rejects the batch', async () => {
+    const { context } = createContext(() => ({ jsonrpc: '2.0', id: null, error: { code: -32600, message: 'batch too large' } }));
+
+    const results = await makeRpcBatch(context, calls(2));
+
+    expect(results.map((result) => (result as { error: Error }).error.message)).toEqual([
+      'RPC Error: batch too large (code: -32600)',
+      'RPC Error: batch too large (code: -32600)',
+    ]);
+  });
+
+  it('should reject invalid batch sizes', async () => {
+    const { context } = createContext(() => []);
+    await expect(makeRpcBatch(context, calls(1), 0)).rejects.toThrow('RPC batch size must be a positive integer: 0');
+  });
+});
+
+describe('ERC-1271 Signatures', () => {
+  const wallet = '0x3535353535353535353535353535353535353535';
+  const digest = '0x' + 'ab'.repeat(32);
+
+  const createContext = (results: Record<string, unknown>) => {
+    const requests: Array<{ method: string; params: unknown[] }> = [];
+    const context = {
+      getCredentials: jest.fn().mockResolvedValue({ network: 'mainnet' }),
+      getNode: jest.fn().mockReturnValue({ name: 'Celo' }),
+      helpers: {
+        httpRequest: jest.fn().mockImplementation(async ({ body }) => {
+          requests.push(body);
+          const result = results[body.method];
+          return result instanceof Error
+            ? { jsonrpc: '2.0', id: body.id, error: { code: 3, message: result.message } }
+            : { jsonrpc: '2.0', id: body.id, result };
+        }),
+      },
+    } as unknown as IExecuteFunctions;
+    return { context, requests };
+  };
+
+  it('should accept the magic value from isValidSignature', async () => {
+    const { context, requests } = createContext({
+      eth_getCode: '0x6080',
+      eth_call: '0x1626ba7e' + '0'.repeat(56),
+    });
+
+    await expect(isValidErc1271Signature(context, wallet, digest, '0x1234')).resolves.toBe(true);
+    expect((requests[1].params[0] as { data: string }).data.startsWith('0x1626ba7e' + 'ab'.repeat(32))).toBe(true);
+  });
+
+  it('should reject accounts without code and reverting contracts', async () => {
+    const eoa = createContext({ eth_getCode: '0x' });
+    await expect(isValidErc1271Signature(eoa.context, wallet, digest, '0x1234')).resolves.toBe(false);
+    expect(eoa.requests).toHaveLength(1);
+
+    const reverting = createContext({ eth_getCode: '0x6080', eth_call: new Error('execution reverted') });
+    await expect(isValidErc1271Signature(reverting.context, wallet, digest, '0x1234')).resolves.toBe(false);
+  });
+});
+
+describe('Credential Test', () => {
+  const runTest = async (data: Record<string, unknown>, response: unknown) => {
+    const request = jest.fn().mockResolvedValue(response);
+    const context = { helpers: { request } } as unknown as ICredentialTestFunctions;
+    const credential = { id: '1', name: 'Celo', type: 'celoApi', data } as unknown as ICredentialsDecrypted;
+    const result = await testCeloCredentials.call(context, credential);
+    return { result, request };
+  };
+
+  it('should pass when the chain ID matches the network', async () => {
+    const { result, request } = await runTest(
+      { network: 'alfajores', authHeaderName: 'Authorization', authHeaderValue: 'Bearer key' },
+      { jsonrpc: '2.0', id: 1, result: '0xaef3' }
+    );
+
+    expect(result.status).toBe('OK');
+    expect(request).toHaveBeenCalledWith(
+      expect.objectContaining({
+        uri: 'https://alfajores-forno.celo-testnet.org',
+        headers: { 'Content-Type': 'application/json', Authorization: 'Bearer key' },
+        body: expect.objectContaining({ method: 'eth_chainId' }),
+      })
+    );
+  });
+
+  it('should fail when the chain ID does not match the network', async () => {
+    const { result } = await runTest(
+      { network: 'mainnet', rpcEndpoint: 'https://alfajores-forno.celo-testnet.org' },
+      { jsonrpc: '2.0', id: 1, result: '0xaef3' }
+    );
+
+    expect(result.status).toBe('Error');
+    expect(result.message).toBe('RPC endpoint is on chain 44787, but Celo Mainnet is chain 42220');
+  });
+
+  it('should accept any chain for a custom network', async () => {
+    const { result } = await runTest(
+      { network: 'custom', rpcEndpoint: 'http://localhost:8545' },
+      { jsonrpc: '2.0', id: 1, result: '0x539' }
+    );
+
+    expect(result).toEqual({ status: 'OK', message: 'Connected to chain 1337' });
+  });
+
+  it('should report RPC errors', async () => {
+    const { result } = await runTest(
+      { network: 'mainnet' },
+      { jsonrpc: '2.0', id: 1, error: { code: -32601, message: 'Method not found' } }
+    );
+
+    expect(result).toEqual({ status: 'Error', message: 'RPC Error: Method not found' });
+  });
+
+  it('should test every RPC URL', async () => {
+    const request = jest.fn()
+      .mockResolvedValueOnce({ jsonrpc: '2.0', id: 1, result: '0xa4ec' })
+      .mockResolvedValueOnce({ jsonrpc: '2.0', id: 1, result: '0xaef3' });
+    const context = { helpers: { request } } as unknown as ICredentialTestFunctions;
+    const credential = {
+      id: '1',
+      name: 'Celo',
+      type: 'celoApi',
+      data: { network: 'mainnet', rpcEndpoint: 'https://one.example,https://two.example' },
+    } as unknown as ICredentialsDecrypted;
+
+    const result = await testCeloCredentials.call(context, credential);
+
+    expect(result).toEqual({
+      status: 'Error',
+      message: 'RPC URL 2: RPC endpoint is on chain 44787, but Celo Mainnet is chain 42220',
+    });
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,243 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+  decodeAbiParameters,
+  decodeFunctionResult,
+  encodeAbiParameters,
+  getCanonicalType,
+  getFunctionSignature,
+  isReadOnlyFunction,
+  parseAbiFunctions,
+  parseFunctionSignature,
+  toAbiParameter,
+} from '../../nodes/Celo/utils/abi';
+import { encodeFunctionData } from '../../nodes/Celo/utils/helpers';
+import { decodeResult, encodeFunctionCall } from '../../nodes/Celo/transport/celoClient';
+import { ABI_FRAGMENTS } from '../../nodes/Celo/constants/celo.constants';
+
+const word = (hex: string): string => hex.padStart(64, '0');
+
+describe('ABI Encoding', () => {
+  describe('toAbiParameter', () => {
+    it('should parse tuple types with names', () => {
+      expect(toAbiParameter('(address to, uint256 amount)[] items')).toEqual({
+        name: 'items',
+        type: 'tuple[]',
+        components: [
+          { name: 'to', type: 'address' },
+          { name: 'amount', type: 'uint256' },
+        ],
+      });
+    });
+
+    it('should accept the tuple() prefix', () => {
+      expect(toAbiParameter('tuple(bool,bytes)').components).toHaveLength(2);
+    });
+  });
+
+  describe('getCanonicalType', () => {
+    it('should expand uint and int aliases', () => {
+      expect(getCanonicalType('uint')).toBe('uint256');
+      expect(getCanonicalType('int[]')).toBe('int256[]');
+    });
+
+    it('should expand tuple components', () => {
+      expect(
+        getCanonicalType({
+          type: 'tuple[]',
+          components: [{ type: 'address' }, { type: 'uint' }],
+        })
+      ).toBe('(address,uint256)[]');
+    });
+  });
+
+  describe('parseFunctionSignature', () => {
+    it('should build the canonical signature back', () => {
+      const fragment = parseFunctionSignature('vote(address group, uint256 value, address lesser, address greater)');
+      expect(fragment.name).toBe('vote');
+      expect(getFunctionSignature(fragment)).toBe('vote(address,uint256,address,address)');
+    });
+
+    it('should reject malformed signatures', () => {
+      expect(() => parseFunctionSignature('not a signature')).toThrow('Invalid function signature');
+    });
+  });
+
+  describe('encodeAbiParameters', () => {
+    it('should encode a dynamic string with offset and tail', () => {
+      expect(encodeAbiParameters(['string'], ['hello'])).toBe(
+        word('20') + word('5') + '68656c6c6f'.padEnd(64, '0')
+      );
+    });
+
+    it('should encode a dynamic array followed by a static value', () => {
+      expect(encodeAbiParameters(['uint256[]', 'bool'], [[1, 2], true])).toBe(
+        word('40') + word('1') + word('2') + word('1') + word('2')
+      );
+    });
+
+    it('should encode negative integers as two\'s complement', () => {
+      expect(encodeAbiParameters(['int8'], [-1])).toBe('f'.repeat(64));
+    });
+
+    it('should encode small unsigned integers and fixed bytes', () => {
+      expect(encodeAbiParameters(['uint8', 'bytes4'], [255, '0xdeadbeef'])).toBe(
+        word('ff') + 'deadbeef'.padEnd(64, '0')
+      );
+    });
+
+    it('should encode a static tuple inline', () => {
+      expect(
+        encodeAbiParameters(['(address,uint256)'], [['0x000000000000000000000000000000000000ce10', 5]])
+      ).toBe(word('ce10') + word('5'));
+    });
+
+    it('should accept tuple values keyed by component name', () => {
+      const positional = encodeAbiParameters(['(address to,uint256 amount)'], [
+        ['0x000000000000000000000000000000000000ce10', 5],
+      ]);
+      const named = encodeAbiParameters(['(address to,uint256 amount)'], [
+        { to: '0x000000000000000000000000000000000000ce10', amount: 5 },
+      ]);
+      expect(named).toBe(positional);
+    });
+
+    it('should reject out-of-range integers', () => {
+      expect(() => encodeAbiParameters(['uint8'], [256])).toThrow('out of range');
+    });
+
+    it('should reject invalid addresses', () => {
+      expect(() => encodeAbiParameters(['address'], ['0x123'])).toThrow('Invalid address');
+    });
+
+    it('should reject a value count mismatch', () => {
+      expect(() => encodeAbiParameters(['uint256', 'bool'], [1])).toThrow('Expected 2 values');
+    });
+  });
+
+  describe('encodeFunctionData', () => {
+    it('should encode known ERC-20 functions by name', () => {
+      expect(encodeFunctionData('transfer', ['0x000000000000000000000000000000000000ce10', '1000'])).toBe(
+        '0xa9059cbb' + word('ce10') + word('3e8')
+      );
+    });
+
+    it('should encode arbitrary signatures', () => {
+      expect(encodeFunctionData('activate(address)', ['0x000000000000000000000000000000000000ce10'])).toBe(
+        '0x1c5a9d9c' + word('ce10')
+      );
+    });
+
+    it('should throw for unknown function names', () => {
+      expect(() => encodeFunctionData('mint', [])).toThrow('Unknown function: mint');
+    });
+  });
+
+  describe('encodeFunctionCall', () => {
+    it('should append string tails after the head', () => {
+      expect(encodeFunctionCall('setName', ['string'], ['hello'])).toBe(
+        '0xc47f0027' + word('20') + word('5') + '68656c6c6f'.padEnd(64, '0')
+      );
+    });
+  });
+
+  describe('decodeAbiParameters', () => {
+    it('should decode a dynamic string', () => {
+      const data = '0x' + word('20') + word('5') + '68656c6c6f'.padEnd(64, '0');
+      expect(decodeAbiParameters(['string'], data)).toEqual(['hello']);
+    });
+
+    it('should decode negative signed integers', () => {
+      expect(decodeAbiParameters(['int16'], '0x' + 'f'.repeat(60) + 'fed4')).toEqual(['-300']);
+    });
+
+    it('should round-trip nested tuples and arrays', () => {
+      const types = ['(uint256 id,string label,(bool ok,bytes data) inner)', 'uint256[2][]', 'string[]', 'bytes3'];
+      const encoded = encodeAbiParameters(types, [
+        [1, 'x', [true, '0xff']],
+        [[1, 2], [3, 4]],
+        ['a', 'héllo'],
+        '0xabcdef',
+      ]);
+
+      expect(decodeAbiParameters(types, encoded)).toEqual([
+        { id: '1', label: 'x', inner: { ok: true, data: '0xff' } },
+        [['1', '2'], ['3', '4']],
+        ['a', 'héllo'],
+        '0xabcdef',
+      ]);
+    });
+
+    it('should throw when data is too short', () => {
+      expect(() => decodeAbiParameters(['uint256'], '0x')).toThrow('ABI data too short');
+    });
+
+    it('should throw when an offset points outside the data', () => {
+      expect(() => decodeAbiParameters(['string'], '0x' + word('ff'))).toThrow('exceeds data size');
+    });
+  });
+
+  describe('decodeFunctionResult', () => {
+    it('should decode pending withdrawals into named arrays', () => {
+      const encoded = encodeAbiParameters(['uint256[]', 'uint256[]'], [[10, 20], [1700000000, 1700000100]]);
+      expect(decodeFunctionResult(ABI_FRAGMENTS.lockedGold.getPendingWithdrawals, encoded)).toEqual({
+        values: ['10', '20'],
+        timestamps: ['1700000000', '1700000100'],
+      });
+    });
+
+    it('should key unnamed outputs by position', () => {
+      expect(decodeFunctionResult(ABI_FRAGMENTS.erc20.balanceOf, word('3e8'))).toEqual({ 0: '1000' });
+    });
+  });
+
+  describe('decodeResult', () => {
+    it('should decode positional values for legacy callers', () => {
+      expect(decodeResult('0x' + word('1') + word('ce10'), ['bool', 'address'])).toEqual([
+        true,
+        '0x000000000000000000000000000000000000ce10',
+      ]);
+    });
+  });
+
+  describe('parseAbiFunctions', () => {
+    const abi = JSON.stringify([
+      { type: 'constructor', inputs: [] },
+      { type: 'event', name: 'Transfer', inputs: [] },
+      {
+        type: 'function',
+        name: 'balanceOf',
+        stateMutability: 'view',
+        inputs: [{ name: 'account', type: 'address' }],
+        outputs: [{ name: 'balance', type: 'uint256' }],
+      },
+      { type: 'function', name: 'pause', stateMutability: 'nonpayable', inputs: [] },
+    ]);
+
+    it('should keep only function fragments', () => {
+      const fragments = parseAbiFunctions(abi);
+      expect(fragments.map((fragment) => fragment.name)).toEqual(['balanceOf', 'pause']);
+      expect(fragments[1].outputs).toEqual([]);
+    });
+
+    it('should classify read and write functions', () => {
+      const [balanceOf, pause] = parseAbiFunctions(abi);
+      expect(isReadOnlyFunction(balanceOf)).toBe(true);
+      expect(isReadOnlyFunction(pause)).toBe(false);
+      expect(isReadOnlyFunction({ name: 'legacy', inputs: [], constant: true } as never)).toBe(true);
+    });
+
+    it('should reject invalid JSON', () => {
+      expect(() => parseAbiFunctions('{not json')).toThrow('Invalid ABI JSON');
+    });
+
+    it('should reject non-array ABIs', () => {
+      expect(() => parseAbiFunctions({})).toThrow('ABI must be a JSON array');
+    });
+  });
+});
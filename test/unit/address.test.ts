@@ -0,0 +1,92 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+  checksumAddressFields,
+  getAddress,
+  hasValidChecksum,
+  toChecksumAddress,
+} from '../../nodes/Celo/utils/address';
+import { isValidAddress } from '../../nodes/Celo/transport/celoClient';
+
+// Test vectors from the EIP-55 specification
+const SPEC_ADDRESSES = [
+  '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed',
+  '0xfB6916095ca1df60bB79Ce92cE3Ea74c37c5d359',
+  '0xdbF03B407c01E7cD3CBea99509d93f8DDDC8C6FB',
+  '0xD1220A0cf47c7B9Be7A2E6BA89F429762e7b9aDb',
+];
+
+describe('EIP-55 Addresses', () => {
+  describe('toChecksumAddress', () => {
+    it('should match the specification vectors', () => {
+      for (const address of SPEC_ADDRESSES) {
+        expect(toChecksumAddress(address.toLowerCase())).toBe(address);
+        expect(toChecksumAddress('0x' + address.slice(2).toUpperCase())).toBe(address);
+      }
+    });
+
+    it('should reject malformed addresses', () => {
+      expect(() => toChecksumAddress('0x1234')).toThrow('Invalid address format: 0x1234');
+    });
+  });
+
+  describe('hasValidChecksum', () => {
+    it('should accept checksummed and single-case addresses', () => {
+      expect(hasValidChecksum(SPEC_ADDRESSES[0])).toBe(true);
+      expect(hasValidChecksum(SPEC_ADDRESSES[0].toLowerCase())).toBe(true);
+      expect(hasValidChecksum('0x' + SPEC_ADDRESSES[0].slice(2).toUpperCase())).toBe(true);
+    });
+
+    it('should reject mixed-case addresses with a wrong checksum', () => {
+      const typo = SPEC_ADDRESSES[0].replace('aAeb', 'aAEb');
+      expect(hasValidChecksum(typo)).toBe(false);
+      expect(isValidAddress(typo)).toBe(false);
+      expect(() => getAddress(typo)).toThrow(`Invalid address checksum: ${typo}`);
+    });
+  });
+
+  describe('checksumAddressFields', () => {
+    it('should checksum addresses nested in RPC results', () => {
+      const hash = '0x' + 'ab'.repeat(32);
+      expect(
+        checksumAddressFields({
+          hash,
+          from: SPEC_ADDRESSES[1].toLowerCase(),
+          logs: [{ address: SPEC_ADDRESSES[2].toLowerCase(), removed: false }],
+        })
+      ).toEqual({
+        hash,
+        from: SPEC_ADDRESSES[1],
+        logs: [{ address: SPEC_ADDRESSES[2], removed: false }],
+      });
+    });
+
+    it('should checksum lists of addresses under address keys', () => {
+      expect(
+        checksumAddressFields({ validatorAddresses: [SPEC_ADDRESSES[0].toLowerCase(), SPEC_ADDRESSES[1].toLowerCase()] })
+      ).toEqual({ validatorAddresses: [SPEC_ADDRESSES[0], SPEC_ADDRESSES[1]] });
+    });
+
+    it('should leave other values that look like addresses intact', () => {
+      const bytes20 = SPEC_ADDRESSES[0].toLowerCase();
+      expect(checksumAddressFields({ outputs: { '0': bytes20 }, data: [bytes20] })).toEqual({
+        outputs: { '0': bytes20 },
+        data: [bytes20],
+      });
+    });
+
+    it('should leave dates and buffers intact', () => {
+      const availableAt = new Date(1700000000000);
+      const data = Buffer.from('00', 'hex');
+      const result = checksumAddressFields({ availableAt, data });
+
+      expect(result.availableAt).toBe(availableAt);
+      expect(result.data).toBe(data);
+    });
+  });
+});
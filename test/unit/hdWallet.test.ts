@@ -0,0 +1,115 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+  deriveAccount,
+  mnemonicToSeed,
+  parseDerivationPath,
+  validateMnemonic,
+} from '../../nodes/Celo/utils/hdWallet';
+import { getSigningKey } from '../../nodes/Celo/transport/celoClient';
+
+const TEST_MNEMONIC = 'test test test test test test test test test test test junk';
+const ABANDON_MNEMONIC =
+  'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+describe('HD Wallet', () => {
+  describe('mnemonicToSeed', () => {
+    it('should match the BIP-39 reference vector', () => {
+      expect(mnemonicToSeed(ABANDON_MNEMONIC, 'TREZOR').toString('hex')).toBe(
+        'c55257c360c07c72029aebc1b53c05ed0362ada38ead3e3e9efa3708e53495531f09a6987599d18264c1e1c92f2cf141630c7a3c4ab7c81b2f001698e7463b04'
+      );
+    });
+
+    it('should ignore extra whitespace', () => {
+      expect(mnemonicToSeed(`  ${TEST_MNEMONIC.split(' ').join('  \n')}  `)).toEqual(mnemonicToSeed(TEST_MNEMONIC));
+    });
+  });
+
+  describe('validateMnemonic', () => {
+    it('should accept a valid mnemonic', () => {
+      expect(() => validateMnemonic(TEST_MNEMONIC)).not.toThrow();
+    });
+
+    it('should reject a bad checksum', () => {
+      expect(() => validateMnemonic(ABANDON_MNEMONIC.replace(/about$/, 'abandon'))).toThrow(
+        'Invalid mnemonic checksum'
+      );
+    });
+
+    it('should reject unknown words and wrong lengths', () => {
+      expect(() => validateMnemonic(TEST_MNEMONIC.replace('junk', 'celo'))).toThrow('Unknown mnemonic word: celo');
+      expect(() => validateMnemonic('test test test')).toThrow('got 3');
+    });
+
+    it('should reject words that are not lowercase', () => {
+      expect(() => validateMnemonic(TEST_MNEMONIC.toUpperCase())).toThrow('Mnemonic words must be lowercase, got TEST');
+    });
+  });
+
+  describe('parseDerivationPath', () => {
+    it('should parse hardened and normal segments', () => {
+      expect(parseDerivationPath("m/44'/52752'/0'/0/5")).toEqual([
+        0x8000002c,
+        0x8000ce10,
+        0x80000000,
+        0,
+        5,
+      ]);
+    });
+
+    it('should reject paths without a master key', () => {
+      expect(() => parseDerivationPath("44'/60'")).toThrow('Invalid derivation path');
+    });
+  });
+
+  describe('deriveAccount', () => {
+    it('should derive on the Ethereum path used by MetaMask', () => {
+      expect(deriveAccount(TEST_MNEMONIC, 0, 'ethereum')).toEqual({
+        address: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+        privateKey: '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
+        path: "m/44'/60'/0'/0/0",
+        index: 0,
+      });
+      expect(deriveAccount(TEST_MNEMONIC, 1, 'ethereum').address).toBe('0x70997970C51812dc3A010C7d01b50e0d17dc79C8');
+    });
+
+    it('should derive on the Celo path by default', () => {
+      const account = deriveAccount(TEST_MNEMONIC, 1);
+      expect(account.path).toBe("m/44'/52752'/0'/0/1");
+      expect(account.address).toBe('0x2ee6F1cB802695F64D0A81284b36179f2886E7C2');
+    });
+
+    it('should apply the passphrase', () => {
+      expect(deriveAccount(ABANDON_MNEMONIC, 0, 'celo', 'TREZOR').address).toBe(
+        '0xECC6e0a7b771322DbB937D3A5320B1f3E649100C'
+      );
+    });
+
+    it('should reject negative indexes', () => {
+      expect(() => deriveAccount(TEST_MNEMONIC, -1)).toThrow('Invalid account index: -1');
+    });
+  });
+
+  describe('getSigningKey', () => {
+    it('should derive the key for the account index from a mnemonic credential', () => {
+      expect(
+        getSigningKey({ network: 'mainnet', signingKeyType: 'mnemonic', mnemonic: TEST_MNEMONIC, derivationPath: 'ethereum' }, 0)
+      ).toBe('0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80');
+    });
+
+    it('should return the private key of a private key credential', () => {
+      expect(getSigningKey({ network: 'mainnet', signingKeyType: 'privateKey', privateKey: '0x01' }, 3)).toBe('0x01');
+    });
+
+    it('should fail for read-only credentials', () => {
+      expect(() => getSigningKey({ network: 'mainnet', signingKeyType: 'none' })).toThrow(
+        'Private key is required for signing transactions'
+      );
+    });
+  });
+});
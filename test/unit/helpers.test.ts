@@ -8,22 +8,27 @@
 import {
   normalizePhoneNumber,
   hashPhoneNumber,
+  getObfuscatedIdentifier,
   getStablecoinAddress,
   getFeeCurrencyOptions,
   convertUnits,
   parseTokenAmount,
   formatTokenAmount,
   calculatePercentage,
+  applySlippage,
   formatAddress,
   truncateAddress,
   calculateEpochFromBlock,
   getEpochBoundaries,
+  getProposalStage,
+  findLesserAndGreaterGroups,
   decodeUint256,
   decodeAddress,
   decodeBool,
   isHex,
   toHex,
   fromHex,
+  decodeQuantities,
 } from '../../nodes/Celo/utils/helpers';
 
 describe('Phone Number Functions', () => {
@@ -63,6 +68,23 @@ describe('Phone Number Functions', () => {
       expect(hash1.hash).not.toBe(hash2.hash);
     });
   });
+
+  describe('getObfuscatedIdentifier', () => {
+    it('should hash the prefixed identifier with its pepper', () => {
+      expect(getObfuscatedIdentifier('+1 (555) 123-4567', 'phoneNumber', 'pepperValue')).toEqual({
+        original: '+1 (555) 123-4567',
+        hash: '0x28c3b199d2153a3f1c904e1d8aabbdf9a3d9325f1eb467acf1fd41f412176291',
+        pepper: 'pepperValue',
+      });
+      expect(getObfuscatedIdentifier('alice@example.com', 'email', 'pepperValue').hash).toBe(
+        '0xab41c6d24aca756e456eacfe6560d7c840eb61d509122e030102bcb7505b40e0'
+      );
+    });
+
+    it('should require a pepper', () => {
+      expect(() => getObfuscatedIdentifier('+15551234567', 'phoneNumber', '')).toThrow('A pepper is required');
+    });
+  });
 });
 
 describe('Stablecoin Functions', () => {
@@ -174,13 +196,31 @@ describe('Calculation Functions', () => {
       expect(calculatePercentage('50', '0')).toBe('0');
     });
   });
+
+  describe('applySlippage', () => {
+    it('should round the minimum output down', () => {
+      expect(applySlippage('1000000000000000000', 0.5)).toBe('995000000000000000');
+      expect(applySlippage('999', 1)).toBe('989');
+    });
+
+    it('should accept the bounds and reject values outside them', () => {
+      expect(applySlippage('1000', 0)).toBe('1000');
+      expect(applySlippage('1000', 100)).toBe('0');
+      expect(() => applySlippage('1000', -1)).toThrow('Slippage must be between 0 and 100 percent');
+      expect(() => applySlippage('1000', NaN)).toThrow('Slippage must be between 0 and 100 percent');
+    });
+  });
 });
 
 describe('Address Functions', () => {
   describe('formatAddress', () => {
-    it('should lowercase valid address', () => {
+    it('should checksum a valid address', () => {
       const address = '0xABCDEF1234567890ABCDEF1234567890ABCDEF12';
-      expect(formatAddress(address)).toBe(address.toLowerCase());
+      expect(formatAddress(address)).toBe('0xabCDEF1234567890ABcDEF1234567890aBCDeF12');
+    });
+
+    it('should throw for a mixed-case address with a bad checksum', () => {
+      expect(() => formatAddress('0xabCDEF1234567890ABcDEF1234567890aBCDeF1f')).toThrow('Invalid address checksum');
     });
 
     it('should throw for invalid address', () => {
@@ -232,6 +272,62 @@ describe('Epoch Functions', () => {
   });
 });
 
+describe('Election Functions', () => {
+  describe('findLesserAndGreaterGroups', () => {
+    const zero = '0x0000000000000000000000000000000000000000';
+    const a = '0x' + 'a'.repeat(40);
+    const b = '0x' + 'b'.repeat(40);
+    const c = '0x' + 'c'.repeat(40);
+    // Sorted from greatest to least, as Election returns them
+    const groups = [
+      { group: a, votes: BigInt(300) },
+      { group: b, votes: BigInt(200) },
+      { group: c, votes: BigInt(100) },
+    ];
+
+    it('should find the neighbours after a vote moves a group up', () => {
+      expect(findLesserAndGreaterGroups(groups, c, BigInt(250))).toEqual({ lesser: b, greater: a });
+      expect(findLesserAndGreaterGroups(groups, c, BigInt(400))).toEqual({ lesser: a, greater: zero });
+    });
+
+    it('should find the neighbours after a revoke moves a group down', () => {
+      expect(findLesserAndGreaterGroups(groups, a, BigInt(150))).toEqual({ lesser: c, greater: b });
+      expect(findLesserAndGreaterGroups(groups, a, BigInt(50))).toEqual({ lesser: zero, greater: c });
+    });
+
+    it('should ignore address case when skipping the group itself', () => {
+      expect(findLesserAndGreaterGroups(groups, b.toUpperCase().replace('0X', '0x'), BigInt(200))).toEqual({
+        lesser: c,
+        greater: a,
+      });
+    });
+  });
+});
+
+describe('Governance Functions', () => {
+  describe('getProposalStage', () => {
+    const durations = { queueExpiry: 2419200, referendum: 432000, execution: 259200 };
+    const dequeued = { timestamp: 1000, queued: false };
+
+    it('should return None for missing proposals', () => {
+      expect(getProposalStage({ timestamp: 0, queued: false }, 5000, durations)).toBe('None');
+    });
+
+    it('should expire queued proposals after the queue expiry', () => {
+      const queued = { timestamp: 1000, queued: true };
+      expect(getProposalStage(queued, 1000 + 2419199, durations)).toBe('Queued');
+      expect(getProposalStage(queued, 1000 + 2419200, durations)).toBe('Expiration');
+    });
+
+    it('should move dequeued proposals through referendum and execution', () => {
+      expect(getProposalStage(dequeued, 1000, durations)).toBe('Referendum');
+      expect(getProposalStage(dequeued, 1000 + 432000, durations)).toBe('Execution');
+      expect(getProposalStage(dequeued, 1000 + 432000 + 259199, durations)).toBe('Execution');
+      expect(getProposalStage(dequeued, 1000 + 432000 + 259200, durations)).toBe('Expiration');
+    });
+  });
+});
+
 describe('Decoding Functions', () => {
   describe('decodeUint256', () => {
     it('should decode hex to string number', () => {
@@ -246,7 +342,7 @@ describe('Decoding Functions', () => {
   describe('decodeAddress', () => {
     it('should decode padded address', () => {
       const padded = '0x000000000000000000000000abcdef1234567890abcdef1234567890abcdef12';
-      expect(decodeAddress(padded)).toBe('0xabcdef1234567890abcdef1234567890abcdef12');
+      expect(decodeAddress(padded)).toBe('0xabCDEF1234567890ABcDEF1234567890aBCDeF12');
     });
   });
 
@@ -292,4 +388,24 @@ describe('Hex Functions', () => {
       expect(fromHex('0x64')).toBe(BigInt(100));
     });
   });
+
+  describe('decodeQuantities', () => {
+    it('should decode the listed fields and keep their hex originals', () => {
+      expect(
+        decodeQuantities({ hash: '0xabcd', value: '0xde0b6b3a7640000', nonce: '0x0', blockNumber: null }, [
+          'value',
+          'nonce',
+          'blockNumber',
+          'gas',
+        ])
+      ).toEqual({
+        hash: '0xabcd',
+        value: '1000000000000000000',
+        valueHex: '0xde0b6b3a7640000',
+        nonce: '0',
+        nonceHex: '0x0',
+        blockNumber: null,
+      });
+    });
+  });
 });
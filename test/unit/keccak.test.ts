@@ -0,0 +1,77 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { keccak256, keccak256Bytes } from '../../nodes/Celo/utils/keccak';
+import { createFunctionSelector, getEventTopic } from '../../nodes/Celo/utils/helpers';
+import { encodeFunctionCall } from '../../nodes/Celo/transport/celoClient';
+
+describe('Keccak-256', () => {
+  describe('keccak256', () => {
+    it('should hash the empty string', () => {
+      expect(keccak256('')).toBe('0xc5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470');
+    });
+
+    it('should hash a short string', () => {
+      expect(keccak256('abc')).toBe('0x4e03657aea45a94fc7d47ba826c8d667c0d1e6e33a64a036ec44f58fa12d6c45');
+    });
+
+    it('should differ from NIST SHA3-256', () => {
+      // SHA3-256('') is a7ffc6f8bf1ed76651c14756a061d662f580ff4de43b49fa82d80a4b80f8434a
+      expect(keccak256('')).not.toBe('0xa7ffc6f8bf1ed76651c14756a061d662f580ff4de43b49fa82d80a4b80f8434a');
+    });
+
+    it('should hash byte input the same as the equivalent string', () => {
+      expect(keccak256(Buffer.from('abc'))).toBe(keccak256('abc'));
+    });
+
+    it('should hash input spanning several blocks', () => {
+      const input = Buffer.alloc(300, 0x61);
+      expect(keccak256(input)).toMatch(/^0x[a-f0-9]{64}$/);
+      expect(keccak256(input)).not.toBe(keccak256(input.subarray(0, 299)));
+    });
+  });
+
+  describe('keccak256Bytes', () => {
+    it('should return a 32-byte buffer', () => {
+      const digest = keccak256Bytes(Buffer.from('abc'));
+      expect(digest).toHaveLength(32);
+      expect(digest.toString('hex')).toBe('4e03657aea45a94fc7d47ba826c8d667c0d1e6e33a64a036ec44f58fa12d6c45');
+    });
+  });
+
+  describe('Function selectors', () => {
+    it('should compute the ERC-20 transfer selector', () => {
+      expect(createFunctionSelector('transfer(address,uint256)')).toBe('0xa9059cbb');
+    });
+
+    it('should compute the ERC-20 balanceOf selector', () => {
+      expect(createFunctionSelector('balanceOf(address)')).toBe('0x70a08231');
+    });
+
+    it('should compute the ERC-20 approve selector', () => {
+      expect(createFunctionSelector('approve(address,uint256)')).toBe('0x095ea7b3');
+    });
+
+    it('should prefix encoded calls with the Keccak selector', () => {
+      expect(encodeFunctionCall('totalSupply', [], [])).toBe('0x18160ddd');
+    });
+  });
+
+  describe('Event topics', () => {
+    it('should compute the ERC-20 Transfer topic', () => {
+      expect(getEventTopic('Transfer(address,address,uint256)')).toBe(
+        '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef'
+      );
+    });
+
+    it('should compute the ERC-20 Approval topic', () => {
+      expect(getEventTopic('Approval(address,address,uint256)')).toBe(
+        '0x8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b925'
+      );
+    });
+  });
+});
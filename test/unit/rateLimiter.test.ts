@@ -0,0 +1,122 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { createRequestLimiter, parseRetryAfter } from '../../nodes/Celo/utils/rateLimiter';
+
+describe('Request Limiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const deferred = () => {
+    let resolve!: () => void;
+    const promise = new Promise<void>((done) => {
+      resolve = done;
+    });
+    return { promise, resolve };
+  };
+
+  it('should cap the number of requests in flight', async () => {
+    const limiter = createRequestLimiter({ maxConcurrent: 2 });
+    const requests = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+
+    const runs = requests.map((request, index) =>
+      limiter.run(async () => {
+        started.push(index);
+        await request.promise;
+      })
+    );
+    await Promise.resolve();
+    expect(started).toEqual([0, 1]);
+
+    requests[0].resolve();
+    await runs[0];
+    await Promise.resolve();
+    expect(started).toEqual([0, 1, 2]);
+
+    requests[1].resolve();
+    requests[2].resolve();
+    await Promise.all(runs);
+  });
+
+  it('should burst to the rate and then space requests evenly', async () => {
+    const limiter = createRequestLimiter({ requestsPerSecond: 2 });
+    const started: number[] = [];
+
+    const runs = [0, 1, 2, 3].map((index) => limiter.run(async () => started.push(index)));
+    await Promise.resolve();
+    expect(started).toEqual([0, 1]);
+
+    await jest.advanceTimersByTimeAsync(500);
+    expect(started).toEqual([0, 1, 2]);
+
+    await jest.advanceTimersByTimeAsync(500);
+    expect(started).toEqual([0, 1, 2, 3]);
+    await Promise.all(runs);
+  });
+
+  it('should run requests at a rate below one per second', async () => {
+    const limiter = createRequestLimiter({ requestsPerSecond: 0.5 });
+    const started: number[] = [];
+
+    const runs = [0, 1].map((index) => limiter.run(async () => started.push(index)));
+    await Promise.resolve();
+    expect(started).toEqual([0]);
+
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(started).toEqual([0]);
+
+    await jest.advanceTimersByTimeAsync(1);
+    await expect(Promise.all(runs)).resolves.toEqual([1, 2]);
+  });
+
+  it('should hold back requests while paused', async () => {
+    const limiter = createRequestLimiter({ maxConcurrent: 1 });
+    const started: number[] = [];
+
+    limiter.pauseUntil(Date.now() + 2000);
+    const run = limiter.run(async () => started.push(0));
+
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(started).toEqual([]);
+
+    await jest.advanceTimersByTimeAsync(1);
+    await run;
+    expect(started).toEqual([0]);
+  });
+
+  it('should release the slot of a failed request', async () => {
+    const limiter = createRequestLimiter({ maxConcurrent: 1 });
+
+    await expect(limiter.run(async () => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+    await expect(limiter.run(async () => 'next')).resolves.toBe('next');
+  });
+});
+
+describe('parseRetryAfter', () => {
+  const now = Date.parse('2025-01-01T00:00:00Z');
+
+  it('should read delays in seconds', () => {
+    expect(parseRetryAfter('120', now)).toBe(120000);
+    expect(parseRetryAfter(3, now)).toBe(3000);
+  });
+
+  it('should read HTTP dates', () => {
+    expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:30 GMT', now)).toBe(30000);
+    expect(parseRetryAfter('Tue, 31 Dec 2024 23:59:00 GMT', now)).toBe(0);
+  });
+
+  it('should ignore missing and malformed headers', () => {
+    expect(parseRetryAfter(undefined, now)).toBeUndefined();
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+  });
+});
@@ -0,0 +1,128 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+  encodeType,
+  hashMessage,
+  hashTypedData,
+  recoverMessageAddress,
+  recoverTypedDataAddress,
+  signMessage,
+  signTypedData,
+  splitSignature,
+} from '../../nodes/Celo/utils/signing';
+import { keccak256 } from '../../nodes/Celo/utils/keccak';
+import type { TypedData } from '../../nodes/Celo/utils/types';
+
+const PRIVATE_KEY = '0x4646464646464646464646464646464646464646464646464646464646464646';
+const ADDRESS = '0x9d8A62f656a8d1615C1294fd71e9CFb3E4855A4F';
+
+// Example from the EIP-712 specification, signed with keccak256('cow')
+const MAIL: TypedData = {
+  types: {
+    EIP712Domain: [
+      { name: 'name', type: 'string' },
+      { name: 'version', type: 'string' },
+      { name: 'chainId', type: 'uint256' },
+      { name: 'verifyingContract', type: 'address' },
+    ],
+    Person: [
+      { name: 'name', type: 'string' },
+      { name: 'wallet', type: 'address' },
+    ],
+    Mail: [
+      { name: 'from', type: 'Person' },
+      { name: 'to', type: 'Person' },
+      { name: 'contents', type: 'string' },
+    ],
+  },
+  primaryType: 'Mail',
+  domain: {
+    name: 'Ether Mail',
+    version: '1',
+    chainId: 1,
+    verifyingContract: '0xCcCCccccCCCCcCCCCCCcCcCccCcCCCcCcccccccC',
+  },
+  message: {
+    from: { name: 'Cow', wallet: '0xCD2a3d9F938E13CD947Ec05AbC7FE734Df8DD826' },
+    to: { name: 'Bob', wallet: '0xbBbBBBBbbBBBbbbBbbBbbbbBBbBbbbbBbBbbBBbB' },
+    contents: 'Hello, Bob!',
+  },
+};
+
+describe('Message Signing', () => {
+  describe('personal_sign', () => {
+    it('should hash with the EIP-191 prefix', () => {
+      expect(hashMessage('hello').toString('hex')).toBe(
+        '50b2c43fd39106bafbba0da34fc430e1f91e3c96ea2acee2bc34119f92b37750'
+      );
+    });
+
+    it('should sign a text message', () => {
+      expect(signMessage('hello', PRIVATE_KEY)).toBe(
+        '0xf63c93dc642a4839770b35abf9cb304ac2f1b5463d9a9abd87546feaa0af992e' +
+          '659cf087c433e45c45f6135cb819ab1922c6359dbb1b8c8d7a54141de2cd4beb1b'
+      );
+    });
+
+    it('should recover the signer of a message', () => {
+      const signature = signMessage(Buffer.from('deadbeef', 'hex'), PRIVATE_KEY);
+      expect(recoverMessageAddress(Buffer.from('deadbeef', 'hex'), signature)).toBe(ADDRESS);
+      expect(recoverMessageAddress('0xdeadbeef', signature)).not.toBe(ADDRESS);
+    });
+  });
+
+  describe('EIP-712', () => {
+    it('should encode types with sorted dependencies', () => {
+      expect(encodeType('Mail', MAIL.types)).toBe(
+        'Mail(Person from,Person to,string contents)Person(string name,address wallet)'
+      );
+    });
+
+    it('should hash the specification example', () => {
+      expect(hashTypedData(MAIL).toString('hex')).toBe(
+        'be609aee343fb3c4b28e1df9e632fca64fcfaede20f02e86244efddf30957bd2'
+      );
+    });
+
+    it('should reproduce the specification signature', () => {
+      expect(signTypedData(MAIL, keccak256('cow'))).toBe(
+        '0x4355c47d63924e8a72e509b65029052eb6c299d53a04e167c5775fd466751c9d' +
+          '07299936d304c153f6443dfa05f40ff007d72911b6f72307f996231605b915621c'
+      );
+    });
+
+    it('should derive EIP712Domain from the domain when omitted', () => {
+      const { EIP712Domain, ...types } = MAIL.types;
+      expect(EIP712Domain).toHaveLength(4);
+      expect(hashTypedData({ ...MAIL, types })).toEqual(hashTypedData(MAIL));
+    });
+
+    it('should recover the signer of typed data', () => {
+      const signature = signTypedData(MAIL, PRIVATE_KEY);
+      expect(recoverTypedDataAddress(MAIL, signature)).toBe(ADDRESS);
+    });
+
+    it('should reject missing fields', () => {
+      expect(() => hashTypedData({ ...MAIL, message: { from: MAIL.message.from } })).toThrow(
+        'Missing value for Mail.to'
+      );
+    });
+  });
+
+  describe('splitSignature', () => {
+    it('should accept v as 0/1 or 27/28', () => {
+      const signature = signMessage('hello', PRIVATE_KEY);
+      const compact = signature.slice(0, -2) + '00';
+      expect(splitSignature(compact)).toEqual(splitSignature(signature));
+    });
+
+    it('should reject signatures of the wrong length', () => {
+      expect(() => splitSignature('0x1234')).toThrow('Signature must be 65 bytes, got 2');
+    });
+  });
+});
@@ -0,0 +1,146 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import crypto from 'crypto';
+import {
+  buildSiweMessage,
+  generateSiweNonce,
+  parseSiweMessage,
+  validateSiweMessage,
+} from '../../nodes/Celo/utils/siwe';
+import type { SiweMessage } from '../../nodes/Celo/utils/types';
+
+// Example from the EIP-4361 specification, bound to Celo mainnet
+const SPEC_MESSAGE = [
+  'service.invalid wants you to sign in with your Ethereum account:',
+  '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+  '',
+  'I accept the ServiceOrg Terms of Service: https://service.invalid/tos',
+  '',
+  'URI: https://service.invalid/login',
+  'Version: 1',
+  'Chain ID: 42220',
+  'Nonce: 32891756',
+  'Issued At: 2021-09-30T16:25:24Z',
+  'Resources:',
+  '- ipfs://bafybeiemxf5abjwjbikoz4mc3a3dla6ual3jsgpdr4cjr3oz3evfyavhwq/',
+  '- https://example.com/my-web2-claim.json',
+].join('\n');
+
+const FIELDS: SiweMessage = {
+  domain: 'service.invalid',
+  address: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+  statement: 'I accept the ServiceOrg Terms of Service: https://service.invalid/tos',
+  uri: 'https://service.invalid/login',
+  version: '1',
+  chainId: 42220,
+  nonce: '32891756',
+  issuedAt: '2021-09-30T16:25:24Z',
+  resources: [
+    'ipfs://bafybeiemxf5abjwjbikoz4mc3a3dla6ual3jsgpdr4cjr3oz3evfyavhwq/',
+    'https://example.com/my-web2-claim.json',
+  ],
+};
+
+describe('Sign-In with Ethereum', () => {
+  describe('buildSiweMessage', () => {
+    it('should render the specification example', () => {
+      expect(buildSiweMessage(FIELDS)).toBe(SPEC_MESSAGE);
+    });
+
+    it('should keep both blank lines when there is no statement', () => {
+      const message = buildSiweMessage({ ...FIELDS, statement: undefined, resources: undefined });
+      expect(message).toContain('Cc2\n\n\nURI: https://service.invalid/login');
+    });
+
+    it('should reject invalid addresses and short nonces', () => {
+      expect(() => buildSiweMessage({ ...FIELDS, address: '0x1234' })).toThrow('Invalid SIWE address: 0x1234');
+      expect(() => buildSiweMessage({ ...FIELDS, nonce: 'abc' })).toThrow('at least 8 alphanumeric');
+    });
+  });
+
+  describe('parseSiweMessage', () => {
+    it('should round-trip every field', () => {
+      const fields: SiweMessage = {
+        ...FIELDS,
+        scheme: 'https',
+        expirationTime: '2030-01-01T00:00:00.000Z',
+        notBefore: '2021-09-30T16:25:24.000Z',
+        requestId: 'login-1',
+      };
+      expect(parseSiweMessage(buildSiweMessage(fields))).toEqual(fields);
+    });
+
+    it('should parse the specification example', () => {
+      expect(parseSiweMessage(SPEC_MESSAGE)).toEqual({
+        ...FIELDS,
+        scheme: undefined,
+        expirationTime: undefined,
+        notBefore: undefined,
+        requestId: undefined,
+      });
+    });
+
+    it('should reject text that is not a SIWE message', () => {
+      expect(() => parseSiweMessage('hello')).toThrow('Not a SIWE message');
+      expect(() => parseSiweMessage(SPEC_MESSAGE.replace('Version: 1\n', ''))).toThrow('missing Version');
+    });
+  });
+
+  describe('validateSiweMessage', () => {
+    const time = new Date('2025-01-01T00:00:00Z');
+
+    it('should accept matching fields', () => {
+      expect(
+        validateSiweMessage(FIELDS, { domain: 'service.invalid', nonce: '32891756', chainId: 42220, time })
+      ).toEqual([]);
+    });
+
+    it('should report every mismatch', () => {
+      const errors = validateSiweMessage(
+        { ...FIELDS, expirationTime: '2024-12-31T00:00:00Z' },
+        { domain: 'evil.invalid', nonce: 'othernonce', chainId: 44787, time }
+      );
+
+      expect(errors).toEqual([
+        'Domain mismatch: expected evil.invalid, got service.invalid',
+        'Nonce mismatch: expected othernonce, got 32891756',
+        'Chain ID mismatch: expected 44787, got 42220',
+        'Message expired at 2024-12-31T00:00:00Z',
+      ]);
+    });
+
+    it('should reject messages that are not valid yet', () => {
+      expect(
+        validateSiweMessage({ ...FIELDS, notBefore: '2026-01-01T00:00:00Z' }, { nonce: '32891756', time })
+      ).toEqual(['Message is not valid before 2026-01-01T00:00:00Z']);
+    });
+
+    it('should reject when no expected nonce is given', () => {
+      expect(validateSiweMessage(FIELDS, { nonce: '', time })).toEqual([
+        'No expected nonce was given to check the message against',
+      ]);
+    });
+  });
+
+  it('should generate alphanumeric nonces', () => {
+    expect(generateSiweNonce()).toMatch(/^[a-zA-Z0-9]{17}$/);
+    expect(generateSiweNonce()).not.toBe(generateSiweNonce());
+  });
+
+  it('should draw again for bytes that would skew the nonce', () => {
+    const randomBytes = jest
+      .spyOn(crypto, 'randomBytes')
+      .mockImplementationOnce(() => Buffer.from([248, 0]))
+      .mockImplementationOnce(() => Buffer.from([255]))
+      .mockImplementationOnce(() => Buffer.from([61]));
+
+    expect(generateSiweNonce(2)).toBe('A9');
+    expect(randomBytes.mock.calls.map(([size]) => size)).toEqual([2, 1, 1]);
+    randomBytes.mockRestore();
+  });
+});
@@ -0,0 +1,183 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { rlpEncode, toRlpQuantity } from '../../nodes/Celo/utils/rlp';
+import {
+  getPublicKey,
+  parsePrivateKey,
+  privateKeyToAddress,
+  recoverPublicKey,
+  sign,
+} from '../../nodes/Celo/utils/secp256k1';
+import { keccak256Bytes } from '../../nodes/Celo/utils/keccak';
+import { serializeTransaction, signTransactionWithKey } from '../../nodes/Celo/utils/transaction';
+import type { UnsignedTransaction } from '../../nodes/Celo/utils/types';
+
+// Private key used by the EIP-155 specification example
+const PRIVATE_KEY = '0x4646464646464646464646464646464646464646464646464646464646464646';
+const ADDRESS = '0x9d8A62f656a8d1615C1294fd71e9CFb3E4855A4F';
+
+const TRANSFER_DATA =
+  '0xa9059cbb0000000000000000000000003535353535353535353535353535353535353535000000000000000000000000000000000000000000000000016345785d8a0000';
+
+describe('Transaction Signing', () => {
+  describe('rlpEncode', () => {
+    it('should encode single bytes below 0x80 as themselves', () => {
+      expect(rlpEncode(Buffer.from([0x7f])).toString('hex')).toBe('7f');
+    });
+
+    it('should encode short strings and lists', () => {
+      expect(rlpEncode(Buffer.from('dog')).toString('hex')).toBe('83646f67');
+      expect(rlpEncode([Buffer.from('cat'), Buffer.from('dog')]).toString('hex')).toBe('c88363617483646f67');
+    });
+
+    it('should encode empty values', () => {
+      expect(rlpEncode(Buffer.alloc(0)).toString('hex')).toBe('80');
+      expect(rlpEncode([]).toString('hex')).toBe('c0');
+    });
+
+    it('should use a length prefix for long strings', () => {
+      const encoded = rlpEncode(Buffer.alloc(56, 0x61));
+      expect(encoded.subarray(0, 2).toString('hex')).toBe('b838');
+      expect(encoded).toHaveLength(58);
+    });
+
+    it('should encode quantities without leading zeros', () => {
+      expect(toRlpQuantity(0)).toHaveLength(0);
+      expect(toRlpQuantity('0x0400').toString('hex')).toBe('0400');
+      expect(() => toRlpQuantity(-1)).toThrow('cannot be negative');
+    });
+  });
+
+  describe('secp256k1', () => {
+    it('should derive the address for a private key', () => {
+      expect(privateKeyToAddress(PRIVATE_KEY)).toBe(ADDRESS);
+      expect(privateKeyToAddress(PRIVATE_KEY.slice(2))).toBe(ADDRESS);
+    });
+
+    it('should derive the public key of the generator for key 1', () => {
+      const key = Buffer.alloc(32);
+      key[31] = 1;
+      expect(getPublicKey(key, true).toString('hex')).toBe(
+        '0279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798'
+      );
+    });
+
+    it('should produce deterministic low-s signatures that recover the signer', () => {
+      const key = parsePrivateKey(PRIVATE_KEY);
+      const digest = keccak256Bytes(Buffer.from('celo'));
+      const signature = sign(digest, key);
+      const halfOrder = BigInt('0x7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a0');
+
+      expect(sign(digest, key)).toEqual(signature);
+      expect(signature.s <= halfOrder).toBe(true);
+      expect(recoverPublicKey(digest, signature)).toEqual(getPublicKey(key));
+    });
+
+    it('should reject invalid private keys', () => {
+      expect(() => parsePrivateKey('0x1234')).toThrow('Private key must be 32 bytes of hex');
+      expect(() => parsePrivateKey('0x' + '00'.repeat(32))).toThrow('outside the secp256k1 curve order');
+    });
+  });
+
+  describe('signTransactionWithKey', () => {
+    it('should match the EIP-155 specification example', () => {
+      const signed = signTransactionWithKey(
+        {
+          type: 'legacy',
+          chainId: 1,
+          nonce: 9,
+          gasPrice: '20000000000',
+          gas: 21000,
+          to: '0x3535353535353535353535353535353535353535',
+          value: '1000000000000000000',
+        },
+        PRIVATE_KEY
+      );
+
+      expect(signed.rawTransaction).toBe(
+        '0xf86c098504a817c800825208943535353535353535353535353535353535353535880de0b6b3a76400008025a0' +
+          '28ef61340bd939bc2195fe537567866003e1a15d3c71ff63e1590620aa636276a067cbe9d8997f761aecb703304b3800ccf555c9f3dc64214b297fb1966a3b6d83'
+      );
+      expect(signed.transactionHash).toBe('0x33469b22e9f636356c4160a87eb19df52b7412e8eac32a4a55ffe88ea8350788');
+      expect(signed.from).toBe(ADDRESS);
+    });
+
+    it('should sign an EIP-1559 transaction', () => {
+      const signed = signTransactionWithKey(
+        {
+          type: 'eip1559',
+          chainId: 42220,
+          nonce: 3,
+          maxPriorityFeePerGas: '2000000000',
+          maxFeePerGas: '50000000000',
+          gas: 65000,
+          to: '0x765DE816845861e75A25fCA122bb6898B8B1282a',
+          data: TRANSFER_DATA,
+        },
+        PRIVATE_KEY
+      );
+
+      expect(signed.rawTransaction).toBe(
+        '0x02f8b282a4ec038477359400850ba43b740082fde894765de816845861e75a25fca122bb6898b8b1282a80b844' +
+          TRANSFER_DATA.slice(2) +
+          'c001a001b606ebe98e0455010537e60348cc50565d7abac4f72088982014bb3101d775a05d1649cb7e0696f64b4bb0ea554cd22988dc989f0a8688b992f37be5617dbc4b'
+      );
+      expect(signed.transactionHash).toBe('0x5a714424a3f6ac67b8013983c6a582e875993668a136da8b2ba8207c9c8ff359');
+    });
+
+    it('should sign a CIP-64 fee currency transaction', () => {
+      const tx: UnsignedTransaction = {
+        type: 'cip64',
+        chainId: 44787,
+        nonce: 3,
+        maxPriorityFeePerGas: '2000000000',
+        maxFeePerGas: '50000000000',
+        gas: 65000,
+        to: '0x765DE816845861e75A25fCA122bb6898B8B1282a',
+        data: TRANSFER_DATA,
+        feeCurrency: '0x874069Fa1Eb16D44d622F2e0Ca25eeA172369bC1',
+      };
+      const signed = signTransactionWithKey(tx, PRIVATE_KEY);
+
+      expect(signed.rawTransaction).toBe(
+        '0x7bf8c782aef3038477359400850ba43b740082fde894765de816845861e75a25fca122bb6898b8b1282a80b844' +
+          TRANSFER_DATA.slice(2) +
+          'c094874069fa1eb16d44d622f2e0ca25eea172369bc101a0167504e2b744cb0d27993b5a1c9fc311fdbe74b26699b71d12ee2640919a2179a0689038783b7b8c82598b7d05875f4f4f17e2ae963ea9995172c027fd963eef4b'
+      );
+      expect(signed.transactionHash).toBe('0x4c2fdc75aebb16e696cdb6d15fa1a263a39799833645d180fe283e8143f05987');
+    });
+
+    it('should serialize the unsigned CIP-64 payload with the fee currency last', () => {
+      const unsigned = serializeTransaction({
+        type: 'cip64',
+        chainId: 44787,
+        nonce: 0,
+        maxPriorityFeePerGas: 1,
+        maxFeePerGas: 2,
+        gas: 21000,
+        to: '0x3535353535353535353535353535353535353535',
+        feeCurrency: '0x874069Fa1Eb16D44d622F2e0Ca25eeA172369bC1',
+      });
+
+      expect(unsigned.startsWith('0x7b')).toBe(true);
+      expect(unsigned.endsWith('c094874069fa1eb16d44d622f2e0ca25eea172369bc1')).toBe(true);
+    });
+
+    it('should require a fee currency for CIP-64 transactions', () => {
+      expect(() =>
+        serializeTransaction({ type: 'cip64', chainId: 42220, nonce: 0, gas: 21000, maxFeePerGas: 1, maxPriorityFeePerGas: 1 })
+      ).toThrow('CIP-64 transactions require a fee currency');
+    });
+
+    it('should require fee fields for the transaction type', () => {
+      expect(() => serializeTransaction({ type: 'legacy', chainId: 42220, nonce: 0, gas: 21000 })).toThrow(
+        'Transaction field "gasPrice" is required'
+      );
+    });
+  });
+});